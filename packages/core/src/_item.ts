@@ -0,0 +1,111 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import type { ErrorMode } from './_err';
+import type { Any } from './generics';
+import { type Result, err, isOk } from './result';
+import { type AnySchema, type AnyAsyncSchema, isSchema } from './schema';
+import { type AsyncValue, type Value, isValue } from './value';
+
+/**
+ * A validator nested into another one (e.g. the items of a collection or the branches of a
+ * union). Can be a value or a schema.
+ *
+ * @internal
+ */
+type ItemValidator = Value<Any, Any> | AnySchema;
+
+/**
+ * A value or schema with async rules or fields.
+ *
+ * @internal
+ */
+type AsyncItemValidator = AsyncValue<Any, Any, Any> | AnyAsyncSchema;
+
+/**
+ * Validates a single item with its value or schema.
+ * The errors are always returned as a list, regardless of the error mode.
+ *
+ * @param validator - The value or schema of the item.
+ * @param input - The item to validate.
+ * @param mode - The error mode.
+ * @returns A result with the validated item or the list of errors.
+ *
+ * @internal
+ */
+const validateItem = (validator: ItemValidator, input: Any, mode: ErrorMode) =>
+  itemResult(validator, (validator as Any)(input, mode), mode);
+
+/**
+ * Validates a single item with its async value or schema. See {@link validateItem}.
+ *
+ * @param validator - The async value or schema of the item.
+ * @param input - The item to validate.
+ * @param mode - The error mode.
+ * @returns A promise of a result with the validated item or the list of errors.
+ *
+ * @internal
+ */
+const validateAsyncItem = async (validator: AsyncItemValidator, input: Any, mode: ErrorMode) =>
+  itemResult(validator, await (validator as Any)(input, mode), mode);
+
+/**
+ * Wraps the errors of an item in a list, regardless of the error mode.
+ *
+ * @param validator - The value or schema of the item.
+ * @param result - The result of the item.
+ * @param mode - The error mode.
+ * @returns The same result, with the list of errors.
+ *
+ * @internal
+ */
+const itemResult = (
+  validator: ItemValidator | AsyncItemValidator,
+  result: Result<Any, Any>,
+  mode: ErrorMode,
+): Result<Any, Any[]> => {
+  if (isOk(result)) {
+    return result;
+  }
+
+  return err(isValue(validator) && mode === 'all' ? result.error : [result.error]);
+};
+
+/**
+ * Gets the fields of a schema (values and nested schemas).
+ *
+ * @param source - The schema (sync or async) to get the fields from.
+ * @returns The fields of the schema, by key.
+ *
+ * @internal
+ */
+const fieldsOf = (source: object): Record<string, ItemValidator> =>
+  Object.fromEntries(
+    Object.entries(source).filter(([, field]) => isValue(field) || isSchema(field)),
+  );
+
+/**
+ * Exposes the nested validators of a value (e.g. the items of a collection or the branches of a
+ * union), so an input can be checked against them before the validation. See `parse`.
+ *
+ * @param target - The value to expose the validators on.
+ * @param validators - The nested validators, by property name.
+ * @returns The same value.
+ *
+ * @internal
+ */
+const exposeItems = <T>(target: T, validators: Record<string, unknown>): T => {
+  for (const [key, value] of Object.entries(validators)) {
+    Object.defineProperty(target, key, { value, writable: false, enumerable: true });
+  }
+
+  return target;
+};
+
+export type { AsyncItemValidator, ItemValidator };
+export { exposeItems, fieldsOf, validateAsyncItem, validateItem };
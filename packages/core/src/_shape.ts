@@ -0,0 +1,310 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { type AsyncItemValidator, type ItemValidator, fieldsOf } from './_item';
+import { type DefinedError, defineError } from './error';
+import type { Any } from './generics';
+import { modifierOf } from './modifier';
+import { isSchema } from './schema';
+
+/**
+ * The structural type of an input, as checked by {@link parse}.
+ *
+ * @public
+ */
+type InputKind =
+  | 'string'
+  | 'number'
+  | 'bigint'
+  | 'boolean'
+  | 'symbol'
+  | 'date'
+  | 'function'
+  | 'undefined'
+  | 'null'
+  | 'array'
+  | 'object';
+
+/**
+ * Error of {@link parse} when the input (or a nested input) has the wrong structural type.
+ *
+ * @public
+ */
+type InvalidType = DefinedError<
+  'InvalidTypeError',
+  'Parse',
+  'type',
+  { path: string[]; expected: InputKind; received: InputKind }
+>;
+
+/**
+ * Error of {@link parse} when a required key of a schema is missing from the input.
+ *
+ * @public
+ */
+type MissingKey = DefinedError<'MissingKeyError', 'Parse', 'key', { path: string[]; key: string }>;
+
+/**
+ * The errors of an input with the wrong shape.
+ *
+ * @public
+ */
+type ShapeError = InvalidType | MissingKey;
+/**
+ * Factory of the {@link InvalidType} error.
+ *
+ * @public
+ */
+const InvalidType = defineError('InvalidTypeError', {
+  context: 'Parse',
+  origin: 'type',
+  message: (details: { path: string[]; expected: InputKind; received: InputKind }) =>
+    `Expected ${details.expected} at "${details.path.join('.')}", received ${details.received}`,
+});
+
+/**
+ * Factory of the {@link MissingKey} error.
+ *
+ * @public
+ */
+const MissingKey = defineError('MissingKeyError', {
+  context: 'Parse',
+  origin: 'key',
+  message: (details: { path: string[]; key: string }) =>
+    `Missing key "${[...details.path, details.key].join('.')}"`,
+});
+
+/**
+ * The kind of the input of the values by sub-type (e.g. the string values of the values package).
+ *
+ * @internal
+ */
+const subTypeKinds: Record<string, InputKind> = {
+  string: 'string',
+  email: 'string',
+  url: 'string',
+  id: 'string',
+  number: 'number',
+  integer: 'number',
+  bigint: 'bigint',
+  boolean: 'boolean',
+  symbol: 'symbol',
+  date: 'date',
+};
+
+/**
+ * Gets the structural type of an input. Unlike `typeof`, it tells null, arrays and dates apart.
+ *
+ * @param input - The input to check.
+ * @returns The kind of the input.
+ *
+ * @internal
+ */
+const kindOf = (input: unknown): InputKind =>
+  input === null
+    ? 'null'
+    : Array.isArray(input)
+      ? 'array'
+      : input instanceof Date
+        ? 'date'
+        : typeof input;
+
+/**
+ * The state of a shape check.
+ *
+ * @internal
+ */
+type ShapeContext = {
+  /** Whether the nested inputs (e.g. the fields of a schema) are checked. */
+  readonly nested: boolean;
+  /** The inputs being checked against a lazy value (circular inputs are not followed). */
+  readonly active: WeakSet<object>;
+};
+
+/**
+ * Checks the shape of an input against a value or schema, without running its rules.
+ *
+ * @param validator - The value or schema to check the input against.
+ * @param input - The input to check.
+ * @param path - The keys from the root input to this input.
+ * @param context - The state of the check.
+ * @returns The shape errors of the input (empty when the shape is valid).
+ *
+ * @internal
+ */
+const checkShape = (
+  validator: ItemValidator | AsyncItemValidator,
+  input: unknown,
+  path: string[],
+  context: ShapeContext,
+): ShapeError[] => {
+  const received = kindOf(input);
+  const expect = (expected: InputKind) =>
+    received === expected ? [] : [InvalidType({ path, expected, received })];
+  const check = (item: unknown, itemInput: unknown, key: string) =>
+    context.nested ? checkShape(item as ItemValidator, itemInput, [...path, key], context) : [];
+
+  if (isSchema(validator)) {
+    if (received !== 'object' || !context.nested) {
+      return expect('object');
+    }
+
+    return Object.entries(fieldsOf(validator)).flatMap(([key, field]) => {
+      if (!Object.prototype.hasOwnProperty.call(input, key)) {
+        const modifier = modifierOf(field);
+        return modifier === 'optional' || modifier === 'default' ? [] : [MissingKey({ path, key })];
+      }
+
+      return check(field, (input as Record<string, unknown>)[key], key);
+    });
+  }
+
+  const { subType, meta } = validator.info();
+  const nested = validator as Any;
+
+  switch (subType) {
+    case 'optional':
+    case 'default':
+      return input === undefined ? [] : checkShape(nested.inner, input, path, context);
+    case 'nullable':
+      return input === null ? [] : checkShape(nested.inner, input, path, context);
+    case 'array':
+      return received === 'array'
+        ? (input as unknown[]).flatMap((item, index) => check(nested.item, item, String(index)))
+        : expect('array');
+    case 'tuple':
+      // The length of the tuple is checked by its own rules.
+      return received === 'array'
+        ? (nested.items as unknown[]).flatMap((item, index) =>
+            index < (input as unknown[]).length
+              ? check(item, (input as unknown[])[index], String(index))
+              : [],
+          )
+        : expect('array');
+    case 'record':
+      return received === 'object'
+        ? Object.entries(input as Record<string, unknown>).flatMap(([key, item]) =>
+            check(nested.item, item, key),
+          )
+        : expect('object');
+    case 'union':
+      return unionShapeErrors(nested, input, path, context);
+    case 'lazy':
+      // A circular input is reported by the lazy value itself.
+      if (typeof input !== 'object' || input === null) {
+        return checkShape(nested.resolve(), input, path, context);
+      }
+
+      if (context.active.has(input)) {
+        return [];
+      }
+
+      context.active.add(input);
+
+      try {
+        return checkShape(nested.resolve(), input, path, context);
+      } finally {
+        context.active.delete(input);
+      }
+  }
+
+  // A value that coerces or transforms its input first (e.g. a number from a query string) accepts
+  // any kind of input.
+  const first = validator.tree().children[0]?.info.subType;
+
+  if (first === 'coerce' || first === 'transform') {
+    return [];
+  }
+
+  // The rules of a value are not typed at runtime, so its kind is taken from its sub-type or, when
+  // the sub-type has no kind, from its example.
+  if (subType && Object.prototype.hasOwnProperty.call(subTypeKinds, subType)) {
+    return expect(subTypeKinds[subType]);
+  }
+
+  return meta?.example === undefined ? [] : expect(kindOf(meta.example));
+};
+
+/**
+ * Checks the shape of an input against the branches of a union. The input of a discriminated union
+ * is checked against the branch of its tag, and the input of a union against every branch (it is
+ * valid when it has the shape of any branch).
+ *
+ * @param union - The union or discriminated union.
+ * @param input - The input to check.
+ * @param path - The keys from the root input to this input.
+ * @param context - The state of the check.
+ * @returns The shape errors of the input (empty when the shape is valid).
+ *
+ * @internal
+ */
+const unionShapeErrors = (
+  union: { key?: string; branches: readonly ItemValidator[] | Record<string, ItemValidator> },
+  input: unknown,
+  path: string[],
+  context: ShapeContext,
+): ShapeError[] => {
+  if (!Array.isArray(union.branches)) {
+    const received = kindOf(input);
+
+    if (received !== 'object') {
+      return [InvalidType({ path, expected: 'object', received })];
+    }
+
+    // An unknown tag is reported by the discriminated union itself.
+    const branches = union.branches as Record<string, ItemValidator>;
+    const tag = (input as Record<string, unknown>)[union.key as string];
+    return typeof tag === 'string' && Object.prototype.hasOwnProperty.call(branches, tag)
+      ? checkShape(branches[tag], input, path, context)
+      : [];
+  }
+
+  const errors: ShapeError[] = [];
+
+  for (const branch of union.branches as readonly ItemValidator[]) {
+    const branchErrors = checkShape(branch, input, path, context);
+
+    if (branchErrors.length === 0) {
+      return [];
+    }
+
+    errors.push(...branchErrors);
+  }
+
+  return errors;
+};
+
+/**
+ * Checks the shape of an input and of its nested inputs (the fields of the schemas, the items of
+ * the collections, etc.) against a value or schema, without running its rules.
+ *
+ * @param validator - The value or schema to check the input against.
+ * @param input - The input to check.
+ * @returns The shape errors of the input (empty when the shape is valid).
+ *
+ * @internal
+ */
+const shapeErrors = (validator: ItemValidator | AsyncItemValidator, input: unknown) =>
+  checkShape(validator, input, [], { nested: true, active: new WeakSet() });
+
+/**
+ * Checks the kind of an input against a value or schema (e.g. an object for a schema), without
+ * checking its nested inputs.
+ *
+ * @param validator - The value or schema to check the input against.
+ * @param input - The input to check.
+ * @returns The shape errors of the input (empty when the kind is valid).
+ *
+ * @internal
+ */
+const kindErrors = (validator: ItemValidator | AsyncItemValidator, input: unknown) =>
+  // The missing keys are nested inputs, so only the invalid types are reported.
+  checkShape(validator, input, [], { nested: false, active: new WeakSet() }) as InvalidType[];
+
+export type { InputKind, ShapeError };
+export { InvalidType, kindErrors, MissingKey, shapeErrors };
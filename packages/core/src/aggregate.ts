@@ -11,7 +11,7 @@ import type { EventStore } from './event';
 import type { Any, Prettify } from './generics';
 import { panic } from './panic';
 import { type Result, isErr, ok } from './result';
-import type { Schema, SchemaErrors, SchemaValues } from './schema';
+import type { Schema, SchemaErrors, SchemaValues, UnknownKeysPolicy } from './schema';
 import { type Specification, isSpec } from './specification';
 import type { Value } from './value';
 
@@ -33,7 +33,7 @@ type AggregateConfig<
   M,
 > = {
   /** Schema for validating the aggregate's data structure. */
-  schema: Schema<T>;
+  schema: Schema<T, UnknownKeysPolicy, Any>;
   /** Event store for handling domain events. */
   events?: E;
   /** Business rule specifications for validation. */
@@ -134,7 +134,7 @@ type SchemaFieldError<T, K extends keyof T, Mode> =
 type AggregateState<
   C extends AggregateConfig<Any, Any, Any, Any>,
   Mode extends ErrorMode,
-  T = C['schema'] extends Schema<infer F> ? F : never,
+  T = C['schema'] extends Schema<infer F, Any, Any> ? F : never,
   E extends EventStore<Any> | undefined = C['events'],
 > = {
   /** Sets a field value with schema validation. */
@@ -349,7 +349,7 @@ const aggregate = <
     SchemaErrors<T, Mode> | SpecError<S>
   > => {
     // If the input is not valid, return the error.
-    const validationResult = config.schema(input as Any, mode as Any);
+    const validationResult = config.schema(input as Any, mode as Any) as Result<Any, Any>;
     if (isErr(validationResult)) {
       return validationResult as Any;
     }
@@ -0,0 +1,285 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import type { Any } from './generics';
+import {
+  type CollectionErrors,
+  type CollectionItem,
+  type CollectionPartition,
+  type CollectionValues,
+  type ErrValue,
+  type OkValue,
+  type Result,
+  all,
+  allSettled,
+  any,
+  err,
+  isErr,
+  isOk,
+  ok,
+  partition,
+} from './result';
+
+/**
+ * Represents a result that will be available in the future.
+ * It lifts a `Promise<Result<T, E>>` into a chainable object, so sync and async steps can be
+ * composed without awaiting each intermediate result.
+ *
+ * @remarks
+ * An async result is a thenable, so it can be awaited directly to get the underlying result.
+ *
+ * @typeParam T - The type of the successful value.
+ * @typeParam E - The type of the error.
+ *
+ * @public
+ */
+type AsyncResult<T, E> = PromiseLike<Result<T, E>> & {
+  readonly _id: 'AsyncResult';
+
+  /**
+   * Transforms the value of a successful result. Failed results are preserved.
+   *
+   * @param fn - The function to apply to the success value. Can be sync or async.
+   * @returns A new async result with the transformed value.
+   */
+  map: <U>(fn: (value: T) => U | PromiseLike<U>) => AsyncResult<U, E>;
+
+  /**
+   * Transforms the error of a failed result. Successful results are preserved.
+   *
+   * @param fn - The function to apply to the error. Can be sync or async.
+   * @returns A new async result with the transformed error.
+   */
+  mapErr: <F>(fn: (error: E) => F | PromiseLike<F>) => AsyncResult<T, F>;
+
+  /**
+   * Chains a function that returns a result over the value of a successful result.
+   * Failed results are preserved, short-circuiting the chain.
+   *
+   * @param fn - The function to apply to the success value. Can return a result, a promise of a
+   * result or another async result.
+   * @returns A new async result with the chained result.
+   */
+  andThen: <U, F>(
+    fn: (value: T) => Result<U, F> | PromiseLike<Result<U, F>>,
+  ) => AsyncResult<U, E | F>;
+
+  /**
+   * Chains a function that returns a result over the error of a failed result.
+   * Useful to recover from errors. Successful results are preserved.
+   *
+   * @param fn - The function to apply to the error. Can return a result, a promise of a result
+   * or another async result.
+   * @returns A new async result with the recovered result.
+   */
+  orElse: <U, F>(
+    fn: (error: E) => Result<U, F> | PromiseLike<Result<U, F>>,
+  ) => AsyncResult<T | U, F>;
+
+  /**
+   * Folds the result into a single value by handling both the success and the error cases.
+   *
+   * @param cases - An object containing `onOk` and `onErr` functions to handle both cases.
+   * @returns A promise with the value returned by the matching case.
+   */
+  match: <A, B>(cases: { onOk: (value: T) => A; onErr: (error: E) => B }) => Promise<A | B>;
+
+  /**
+   * Converts the async result back to a promise of a result.
+   *
+   * @returns A promise that resolves to the underlying result.
+   */
+  toPromise: () => Promise<Result<T, E>>;
+};
+
+/**
+ * Lifts a result or a promise of a result into an {@link AsyncResult}.
+ *
+ * @remarks
+ * The given promise must not reject. Use {@link fromPromise} to capture rejections as typed
+ * errors.
+ *
+ * @typeParam T - The type of the successful value.
+ * @typeParam E - The type of the error.
+ * @param source - The result or the promise of a result to lift.
+ * @returns A new async result.
+ *
+ * @public
+ */
+function asyncResult<T, E>(source: Result<T, E> | PromiseLike<Result<T, E>>): AsyncResult<T, E> {
+  const promise = Promise.resolve(source);
+
+  return {
+    _id: 'AsyncResult',
+    map: (fn) =>
+      asyncResult(promise.then(async (r) => (isOk(r) ? ok(await fn(r.value)) : r))) as Any,
+    mapErr: (fn) =>
+      asyncResult(promise.then(async (r) => (isErr(r) ? err((await fn(r.error)) as Any) : r))),
+    andThen: (fn) => asyncResult(promise.then((r) => (isOk(r) ? fn(r.value) : r)) as Any),
+    orElse: (fn) => asyncResult(promise.then((r) => (isErr(r) ? fn(r.error) : r)) as Any),
+    match: (cases) => promise.then((r) => (isOk(r) ? cases.onOk(r.value) : cases.onErr(r.error))),
+    toPromise: () => promise,
+    then: (onFulfilled, onRejected) => promise.then(onFulfilled, onRejected),
+  };
+}
+
+/**
+ * Creates an {@link AsyncResult} from a promise that can reject.
+ * Rejections are captured and converted into typed `Err` values instead of thrown exceptions.
+ *
+ * @typeParam T - The type of the resolved value.
+ * @typeParam E - The type of the error.
+ * @param promise - The promise to wrap.
+ * @param mapError - The function that converts the rejection reason into a typed error.
+ * @returns A new async result with the resolved value or the mapped error.
+ *
+ * @public
+ */
+const fromPromise = <T, E>(
+  promise: PromiseLike<T>,
+  mapError: (cause: unknown) => E,
+): AsyncResult<T, E> =>
+  asyncResult(
+    Promise.resolve(promise).then(
+      (value) => ok(value),
+      (cause) => err(mapError(cause) as Any),
+    ),
+  );
+
+/**
+ * Guard check to determine if the given value is an async result.
+ *
+ * @param maybeAsyncResult - The value to check.
+ * @returns True if the value is an async result, false otherwise.
+ *
+ * @public
+ */
+const isAsyncResult = (maybeAsyncResult: unknown): maybeAsyncResult is AsyncResult<Any, Any> =>
+  typeof maybeAsyncResult === 'object' &&
+  maybeAsyncResult !== null &&
+  '_id' in maybeAsyncResult &&
+  maybeAsyncResult._id === 'AsyncResult';
+
+// *********************************************************************************************
+// Async result collection combinators.
+// *********************************************************************************************
+
+/**
+ * A result that may be available now or in the future.
+ *
+ * @internal
+ */
+type MaybeAsyncResult = Result<Any, Any> | PromiseLike<Result<Any, Any>>;
+
+/**
+ * A collection of results that may be available now or in the future.
+ *
+ * @internal
+ */
+type AsyncResultCollection = readonly MaybeAsyncResult[] | Record<string, MaybeAsyncResult>;
+
+/**
+ * The collection with every result resolved, preserving the tuple or record shape.
+ *
+ * @typeParam C - The async result collection type.
+ *
+ * @internal
+ */
+type Settled<C> = { -readonly [K in keyof C]: Awaited<C[K]> };
+
+/**
+ * Resolves concurrently all the results of a collection, preserving the tuple or record shape.
+ *
+ * @param collection - The collection to resolve.
+ * @returns A promise with the resolved collection.
+ *
+ * @internal
+ */
+const settle = async (collection: AsyncResultCollection): Promise<Any> => {
+  const entries = await Promise.all(
+    Object.entries(collection).map(async ([key, result]) => [key, await result] as const),
+  );
+
+  return Array.isArray(collection)
+    ? entries.map(([, result]) => result)
+    : Object.fromEntries(entries);
+};
+
+/**
+ * Async version of {@link all}. Resolves all the results concurrently and collapses them into a
+ * single async result with the first error found or all the success values.
+ *
+ * @typeParam C - The async result collection type.
+ * @param collection - The array, tuple or record of results, promises or async results.
+ * @returns An async result with all the success values or the first error.
+ *
+ * @public
+ */
+const allAsync = <const C extends AsyncResultCollection>(
+  collection: C,
+): AsyncResult<CollectionValues<Settled<C>>, ErrValue<CollectionItem<Settled<C>>>> =>
+  asyncResult(settle(collection).then(all)) as Any;
+
+/**
+ * Async version of {@link allSettled}. Resolves all the results concurrently and collapses them
+ * into a single async result accumulating every error.
+ *
+ * @typeParam C - The async result collection type.
+ * @param collection - The array, tuple or record of results, promises or async results.
+ * @returns An async result with all the success values or all the errors.
+ *
+ * @public
+ */
+const allSettledAsync = <const C extends AsyncResultCollection>(
+  collection: C,
+): AsyncResult<CollectionValues<Settled<C>>, CollectionErrors<Settled<C>>> =>
+  asyncResult(settle(collection).then(allSettled)) as Any;
+
+/**
+ * Async version of {@link any}. Resolves all the results concurrently and returns the first
+ * successful result in collection order, or all the errors if none is successful.
+ *
+ * @typeParam C - The async result collection type.
+ * @param collection - The array, tuple or record of results, promises or async results.
+ * @returns An async result with the first success value or all the errors.
+ *
+ * @public
+ */
+const anyAsync = <const C extends AsyncResultCollection>(
+  collection: C,
+): AsyncResult<
+  OkValue<CollectionItem<Settled<C>>>,
+  C extends readonly Any[]
+    ? ErrValue<CollectionItem<Settled<C>>>[]
+    : { -readonly [K in keyof C]: ErrValue<Awaited<C[K]>> }
+> => asyncResult(settle(collection).then(any)) as Any;
+
+/**
+ * Async version of {@link partition}. Resolves all the results concurrently and splits them into
+ * their success values and their errors.
+ *
+ * @typeParam C - The async result collection type.
+ * @param collection - The array, tuple or record of results, promises or async results.
+ * @returns A promise with the success values (`oks`) and the errors (`errs`).
+ *
+ * @public
+ */
+const partitionAsync = <const C extends AsyncResultCollection>(
+  collection: C,
+): Promise<CollectionPartition<Settled<C>>> => settle(collection).then(partition) as Any;
+
+export type { AsyncResult };
+export {
+  allAsync,
+  allSettledAsync,
+  anyAsync,
+  asyncResult,
+  fromPromise,
+  isAsyncResult,
+  partitionAsync,
+};
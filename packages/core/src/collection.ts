@@ -0,0 +1,483 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { config } from './_config';
+import type { ErrorMode } from './_err';
+import { type ItemValidator, exposeItems, validateItem } from './_item';
+import { component } from './component';
+import { type DefinedError, defineError } from './error';
+import type { Any } from './generics';
+import { panic } from './panic';
+import { err, isOk, ok } from './result';
+import type { PolicyErrors, Schema, SchemaErrors, SchemaInput, SchemaValues } from './schema';
+import { type AsyncValue, type Value, isAsync } from './value';
+
+/**
+ * The type of the items validated by a value or a schema.
+ *
+ * @typeParam V - The value or schema type.
+ *
+ * @public
+ */
+type ItemValue<V> =
+  V extends Schema<infer F, Any, Any>
+    ? SchemaValues<F>
+    : V extends Value<infer T, Any, Any> | AsyncValue<infer T, Any, Any>
+      ? T
+      : never;
+
+/**
+ * The type of the input of the items validated by a value or a schema.
+ *
+ * @typeParam V - The value or schema type.
+ *
+ * @public
+ */
+type ItemInput<V> =
+  V extends Schema<infer F, Any, Any>
+    ? SchemaInput<F>
+    : V extends Value<Any, Any, infer In> | AsyncValue<Any, Any, infer In>
+      ? In
+      : never;
+
+/**
+ * The type of the errors of the items validated by a value or a schema.
+ *
+ * @typeParam V - The value or schema type.
+ *
+ * @public
+ */
+type ItemError<V> =
+  V extends Schema<infer F, infer P, infer R>
+    ? SchemaErrors<F, 'all', R> | PolicyErrors<P>
+    : V extends Value<Any, infer E, Any> | AsyncValue<Any, infer E, Any>
+      ? E
+      : never;
+
+/**
+ * Error of an item of a collection, with the index or key of the failing item.
+ *
+ * @typeParam K - The type of the index or key.
+ * @typeParam E - The type of the item errors.
+ *
+ * @public
+ */
+type InvalidItem<K extends string | number, E> = DefinedError<
+  'InvalidItemError',
+  'Collection',
+  'item',
+  { key: K; errors: E[] }
+>;
+
+/**
+ * Error of a key of a record, with the failing key.
+ *
+ * @typeParam E - The type of the key errors.
+ *
+ * @public
+ */
+type InvalidKey<E> = DefinedError<
+  'InvalidKeyError',
+  'Collection',
+  'key',
+  { key: string; errors: E[] }
+>;
+
+/**
+ * Error of an array with fewer items than the minimum.
+ *
+ * @public
+ */
+type TooFewItems = DefinedError<
+  'TooFewItemsError',
+  'Collection',
+  'min',
+  { min: number; actual: number }
+>;
+
+/**
+ * Error of an array with more items than the maximum.
+ *
+ * @public
+ */
+type TooManyItems = DefinedError<
+  'TooManyItemsError',
+  'Collection',
+  'max',
+  { max: number; actual: number }
+>;
+
+/**
+ * Error of an array with duplicated items, with the index of the first duplicated item.
+ *
+ * @public
+ */
+type DuplicateItem = DefinedError<'DuplicateItemError', 'Collection', 'unique', { key: number }>;
+
+/**
+ * Error of a tuple with an unexpected number of items.
+ *
+ * @public
+ */
+type InvalidTupleLength = DefinedError<
+  'InvalidTupleLengthError',
+  'Collection',
+  'tuple',
+  { expected: number; actual: number }
+>;
+
+/**
+ * Options of the {@link array} value.
+ *
+ * @public
+ */
+type ArrayOptions = {
+  /** The minimum number of items. */
+  min?: number;
+  /** The maximum number of items. */
+  max?: number;
+  /** Whether the items must be unique (compared with `SameValueZero`). */
+  unique?: boolean;
+};
+
+/**
+ * The errors of the {@link array} value.
+ *
+ * @typeParam V - The value or schema of the items.
+ *
+ * @public
+ */
+type ArrayError<V> = InvalidItem<number, ItemError<V>> | TooFewItems | TooManyItems | DuplicateItem;
+
+/**
+ * The errors of the {@link tuple} value.
+ *
+ * @typeParam T - The values or schemas of the items.
+ *
+ * @public
+ */
+type TupleError<T extends readonly Any[]> =
+  InvalidItem<number, ItemError<T[number]>> | InvalidTupleLength;
+
+/**
+ * The errors of the {@link record} value.
+ *
+ * @typeParam K - The value of the keys.
+ * @typeParam V - The value or schema of the items.
+ *
+ * @public
+ */
+type RecordError<K, V> = InvalidKey<ItemError<K>> | InvalidItem<string, ItemError<V>>;
+
+/**
+ * Factory of the {@link InvalidItem} error.
+ *
+ * @public
+ */
+const InvalidItem = defineError('InvalidItemError', {
+  context: 'Collection',
+  origin: 'item',
+  message: (details: { key: string | number; errors: unknown[] }) =>
+    `Item "${details.key}" is not valid`,
+});
+
+/**
+ * Factory of the {@link InvalidKey} error.
+ *
+ * @public
+ */
+const InvalidKey = defineError('InvalidKeyError', {
+  context: 'Collection',
+  origin: 'key',
+  message: (details: { key: string; errors: unknown[] }) => `Key "${details.key}" is not valid`,
+});
+
+/**
+ * Factory of the {@link TooFewItems} error.
+ *
+ * @public
+ */
+const TooFewItems = defineError('TooFewItemsError', {
+  context: 'Collection',
+  origin: 'min',
+  message: (details: { min: number; actual: number }) =>
+    `Collection has ${details.actual} items, expected at least ${details.min}`,
+});
+
+/**
+ * Factory of the {@link TooManyItems} error.
+ *
+ * @public
+ */
+const TooManyItems = defineError('TooManyItemsError', {
+  context: 'Collection',
+  origin: 'max',
+  message: (details: { max: number; actual: number }) =>
+    `Collection has ${details.actual} items, expected at most ${details.max}`,
+});
+
+/**
+ * Factory of the {@link DuplicateItem} error.
+ *
+ * @public
+ */
+const DuplicateItem = defineError('DuplicateItemError', {
+  context: 'Collection',
+  origin: 'unique',
+  message: (details: { key: number }) => `Item "${details.key}" is duplicated`,
+});
+
+/**
+ * Factory of the {@link InvalidTupleLength} error.
+ *
+ * @public
+ */
+const InvalidTupleLength = defineError('InvalidTupleLengthError', {
+  context: 'Collection',
+  origin: 'tuple',
+  message: (details: { expected: number; actual: number }) =>
+    `Tuple has ${details.actual} items, expected ${details.expected}`,
+});
+
+/**
+ * Panic error for the collection module.
+ *
+ * @public
+ */
+const CollectionError = panic<'Collection', 'AsyncItem'>('Collection');
+
+/**
+ * Checks that the items of a collection are sync, as the collections validate them synchronously.
+ *
+ * @param items - The values or schemas of the items.
+ * @throws A {@link CollectionError} if an item is async.
+ *
+ * @internal
+ */
+const assertSyncItems = (...items: unknown[]) => {
+  if (items.some(isAsync)) {
+    throw new CollectionError(
+      'AsyncItem',
+      'The items of a collection must be sync values or schemas.',
+    );
+  }
+};
+
+/**
+ * Collects the errors of a collection according to the error mode.
+ *
+ * @param mode - The error mode.
+ * @returns A collector to add errors and build the final result.
+ *
+ * @internal
+ */
+const collector = (mode: ErrorMode) => {
+  const errors: Any[] = [];
+
+  return {
+    /**
+     * Adds an error to the collector.
+     * @param error - The error to add.
+     * @returns True if the validation must stop (strict mode), false otherwise.
+     */
+    add: (error: Any) => (errors.push(error), mode === 'strict'),
+
+    /**
+     * Builds the final result of the collection.
+     * @param value - The validated value.
+     * @returns The validated value or the errors (the first one in strict mode).
+     */
+    result: (value: Any) =>
+      errors.length === 0 ? ok(value) : err(mode === 'strict' ? errors[0] : errors),
+  };
+};
+
+/**
+ * Creates an array value that validates every item with the given value or schema.
+ * Errors of the items are reported with the index of the failing item.
+ *
+ * @remarks
+ * The value automatically adds the item value (or schema) as a child of the array.
+ *
+ * @typeParam V - The value or schema of the items.
+ * @param item - The value or schema of the items.
+ * @param options - The length and uniqueness constraints of the array.
+ * @returns A new array value.
+ * @throws A {@link CollectionError} if the item value (or schema) is async.
+ *
+ * @public
+ */
+const array = <V extends ItemValidator>(item: V, options: ArrayOptions = {}) => {
+  const { min, max, unique = false } = options;
+  assertSyncItems(item);
+
+  const validator = (input: Any[], mode: ErrorMode = config.defaultErrorMode) => {
+    const errors = collector(mode);
+    const output: Any[] = [];
+
+    const checks = [
+      () => min !== undefined && input.length < min && TooFewItems({ min, actual: input.length }),
+      () => max !== undefined && input.length > max && TooManyItems({ max, actual: input.length }),
+      () => {
+        const seen = new Set();
+        const key = unique ? input.findIndex((v) => seen.size === seen.add(v).size) : -1;
+        return key >= 0 && DuplicateItem({ key });
+      },
+    ];
+
+    for (const check of checks) {
+      const error = check();
+      if (error && errors.add(error)) {
+        return errors.result(output);
+      }
+    }
+
+    for (const [key, value] of input.entries()) {
+      const result = validateItem(item, value, mode);
+      if (isOk(result)) {
+        output.push(result.value);
+      } else if (errors.add(InvalidItem({ key, errors: result.error }))) {
+        break;
+      }
+    }
+
+    return errors.result(output);
+  };
+
+  return exposeItems(
+    component('Value', validator, { item, options })
+      .addChildren(item as Any)
+      .subType('array'),
+    { item },
+  ) as unknown as Value<ItemValue<V>[], ArrayError<V>, ItemInput<V>[]>;
+};
+
+/**
+ * Creates a tuple value that validates every item with the value or schema of its position.
+ * Errors of the items are reported with the index of the failing item.
+ *
+ * @remarks
+ * The value automatically adds the item values (or schemas) as children of the tuple.
+ *
+ * @typeParam T - The values or schemas of the items.
+ * @param items - The value or schema of every position.
+ * @returns A new tuple value.
+ * @throws A {@link CollectionError} if an item value (or schema) is async.
+ *
+ * @public
+ */
+const tuple = <const T extends readonly ItemValidator[]>(...items: T) => {
+  assertSyncItems(...items);
+
+  const validator = (input: Any[], mode: ErrorMode = config.defaultErrorMode) => {
+    const errors = collector(mode);
+    const output: Any[] = [];
+
+    if (input.length !== items.length) {
+      errors.add(InvalidTupleLength({ expected: items.length, actual: input.length }));
+      return errors.result(output);
+    }
+
+    for (const [key, item] of items.entries()) {
+      const result = validateItem(item, input[key], mode);
+      if (isOk(result)) {
+        output.push(result.value);
+      } else if (errors.add(InvalidItem({ key, errors: result.error }))) {
+        break;
+      }
+    }
+
+    return errors.result(output);
+  };
+
+  return exposeItems(
+    component('Value', validator, items)
+      .addChildren(...(items as readonly Any[]))
+      .subType('tuple'),
+    { items },
+  ) as unknown as Value<
+    { -readonly [K in keyof T]: ItemValue<T[K]> },
+    TupleError<T>,
+    { -readonly [K in keyof T]: ItemInput<T[K]> }
+  >;
+};
+
+/**
+ * Creates a record value that validates every key and every item of an object.
+ * Errors are reported with the failing key.
+ *
+ * @remarks
+ * The value automatically adds the key and the item values (or schemas) as children of the
+ * record.
+ *
+ * @typeParam K - The value of the keys.
+ * @typeParam V - The value or schema of the items.
+ * @param key - The value of the keys.
+ * @param item - The value or schema of the items.
+ * @returns A new record value.
+ * @throws A {@link CollectionError} if the key or item value (or schema) is async.
+ *
+ * @public
+ */
+const record = <K extends Value<string, Any>, V extends ItemValidator>(key: K, item: V) => {
+  assertSyncItems(key, item);
+
+  const validator = (input: Record<string, Any>, mode: ErrorMode = config.defaultErrorMode) => {
+    const errors = collector(mode);
+    const output: Record<string, Any> = {};
+
+    for (const [k, value] of Object.entries(input)) {
+      const keyResult = validateItem(key, k, mode);
+      if (!isOk(keyResult) && errors.add(InvalidKey({ key: k, errors: keyResult.error }))) {
+        break;
+      }
+
+      const itemResult = validateItem(item, value, mode);
+      if (!isOk(itemResult) && errors.add(InvalidItem({ key: k, errors: itemResult.error }))) {
+        break;
+      }
+
+      // Defined as an own property, so a `__proto__` key does not set the prototype of the output.
+      if (isOk(keyResult) && isOk(itemResult)) {
+        Object.defineProperty(output, keyResult.value, {
+          value: itemResult.value,
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
+      }
+    }
+
+    return errors.result(output);
+  };
+
+  return exposeItems(
+    component('Value', validator, { key, item })
+      .addChildren(key, item as Any)
+      .subType('record'),
+    { key, item },
+  ) as unknown as Value<
+    Record<ItemValue<K>, ItemValue<V>>,
+    RecordError<K, V>,
+    Record<ItemValue<K>, ItemInput<V>>
+  >;
+};
+
+export type { ArrayError, ArrayOptions, ItemError, ItemInput, ItemValue, RecordError, TupleError };
+export {
+  array,
+  CollectionError,
+  DuplicateItem,
+  InvalidItem,
+  InvalidKey,
+  InvalidTupleLength,
+  record,
+  TooFewItems,
+  TooManyItems,
+  tuple,
+};
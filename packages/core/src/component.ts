@@ -16,25 +16,45 @@ import { panic } from './panic';
 import { type Result } from './result';
 
 /**
- * Infer the type of a component.
+ * Infer the input type of a component (e.g. the type of the metadata example of a value).
  *
  * @typeParam T - The type to infer.
  * @typeParam Tag - The tag of the component.
- * @returns The type of the component.
+ * @returns The input type of the component.
  *
  * @internal
  */
-type Infer<T, Tag extends string> =
-  // If the tag represents a Schema, Value or Rule, infer the type of the function.
+type InferInput<T, Tag extends string> =
+  // If the tag represents a Schema, Value or Rule, infer the input of the function.
   Tag extends 'Schema' | 'Value' | 'Rule'
     ? T extends (...args: [infer F]) => Any
       ? F
       : T
-    : // If the tag represents an Object, return the prettified type.
-      Tag extends 'Object' | 'Criteria' | 'Event'
-      ? Prettify<T>
-      : // Otherwise, return the type as is (no inference needed, the type is already known).
-        T;
+    : Infer<T, Tag>;
+
+/**
+ * Infer the type of a component.
+ *
+ * @typeParam T - The type to infer.
+ * @typeParam Tag - The tag of the component.
+ * @returns The type of the component.
+ *
+ * @internal
+ */
+type Infer<T, Tag extends string> =
+  // If the tag represents a Value, infer the validated output (e.g. a branded value).
+  Tag extends 'Value'
+    ? T extends (...args: Any[]) => Result<infer O, Any> | Promise<Result<infer O, Any>>
+      ? O
+      : T
+    : // If the tag represents a Schema or Rule, infer the input of the function.
+      Tag extends 'Schema' | 'Rule'
+      ? InferInput<T, Tag>
+      : // If the tag represents an Object, return the prettified type.
+        Tag extends 'Object' | 'Criteria' | 'Event'
+        ? Prettify<T>
+        : // Otherwise, return the type as is (no inference needed, the type is already known).
+          T;
 
 /**
  * List of non-injectable component types.
@@ -112,12 +132,26 @@ type TracerEvent = (typeof tracerEvents)[number];
 type ComponentSubType =
   | 'string'
   | 'number'
+  | 'integer'
   | 'boolean'
   | 'bigint'
   | 'symbol'
   | 'date'
   | 'url'
-  | 'array';
+  | 'email'
+  | 'id'
+  | 'enum'
+  | 'array'
+  | 'tuple'
+  | 'record'
+  | 'optional'
+  | 'nullable'
+  | 'default'
+  | 'union'
+  | 'transform'
+  | 'coerce'
+  | 'lazy'
+  | 'brand';
 
 /**
  * Type representing the allowed shape of a component.
@@ -133,7 +167,7 @@ type ComponentType<Tag extends ComponentTag> = Tag extends 'Object' | 'Criteria'
   : Tag extends ComponentNonInjectable
     ? Tag extends 'Event'
       ? (...args: Any) => Any
-      : Tag extends 'Flow' | 'Query' | 'Command'
+      : Tag extends 'Flow' | 'Query' | 'Command' | 'Rule' | 'Value' | 'Schema'
         ? (...args: Any) => Result<Any, Any> | Promise<Result<Any, Any>>
         : (...args: Any) => Result<Any, Any>
     : (...args: Any) => Any;
@@ -179,7 +213,7 @@ type ComponentData<Type, Tag extends ComponentTag> = {
       readonly description: string;
     } & (Tag extends 'Value' | 'Schema' | 'Object' | 'Event'
       ? {
-          readonly example: Infer<Type, Tag>;
+          readonly example: InferInput<Type, Tag>;
         }
       : Record<never, never>)
   > | null;
@@ -8,8 +8,9 @@
  */
 import type { ErrorMode } from './_err';
 import type { Any } from './generics';
+import { modifierOf } from './modifier';
 import { panic } from './panic';
-import type { Schema } from './schema';
+import type { Schema, UnknownKeysPolicy } from './schema';
 
 /**
  * Panic error for the schema module.
@@ -22,6 +23,8 @@ const EnvError = panic<
   | 'UnsupportedRuntime'
   // When a schema field is not a value.
   | 'MissingEnvVariables'
+  // When the schema rejects the unknown keys (the environment always has unrelated variables).
+  | 'UnsupportedPolicy'
 >('Env');
 
 /**
@@ -60,15 +63,29 @@ function getEnvSource(): Record<string, string | undefined> {
  *
  * @remarks
  * The default error mode is the same used by the schema module.
+ * Fields created with `optional` or `withDefault` can be missing from the environment.
+ * The environment always has variables unrelated to the schema, so only the schema fields are
+ * validated with the `'strip'` policy, while `'passthrough'` keeps every variable. The `'strict'`
+ * policy is not supported.
  *
  * @typeParam F - The schema fields type.
+ * @typeParam P - The unknown keys policy of the schema.
+ * @typeParam R - The refinements of the schema.
  * @param schema - The schema to validate the environment variables against.
  * @returns A function that validates environment variables with optional error mode.
- * @throws A {@link EnvError} when environment variables are missing or runtime is not supported.
+ * @throws A {@link EnvError} when environment variables are missing, runtime is not supported or
+ * the schema has the `'strict'` policy.
  *
  * @public
  */
-function env<F>(schema: Schema<F>) {
+function env<F, P extends UnknownKeysPolicy, R>(schema: Schema<F, P, R>) {
+  if (schema.unknownKeys === 'strict') {
+    throw new EnvError(
+      'UnsupportedPolicy',
+      "Unsupported 'strict' unknown keys policy: the environment has unrelated variables. Please use 'strip' or 'passthrough'.",
+    );
+  }
+
   return <Mode extends ErrorMode = 'all'>(mode?: Mode) => {
     const rawEnv = getEnvSource();
 
@@ -87,15 +104,21 @@ function env<F>(schema: Schema<F>) {
         ].includes(key),
     );
 
-    // Extract only the schema fields from the environment variables.
+    // Extract only the schema fields from the environment variables, unless they pass through.
     const input = Object.fromEntries(
       Object.entries(rawEnv)
-        .filter(([key]) => fields.includes(key))
+        .filter(([key]) => schema.unknownKeys === 'passthrough' || fields.includes(key))
         .map(([key, value]) => [key, value as string]),
     );
 
-    // Check if all fields present in the schema are present in the environment variables.
-    const missingFields = fields.filter((field) => !Object.keys(input).includes(field));
+    // Check if all required fields of the schema are present in the environment variables.
+    // Optional fields and fields with a default can be missing.
+    const missingFields = fields.filter((field) => {
+      const modifier = modifierOf((schema as Any)[field]);
+      return (
+        !Object.keys(input).includes(field) && modifier !== 'optional' && modifier !== 'default'
+      );
+    });
     if (missingFields.length > 0) {
       throw new EnvError(
         'MissingEnvVariables',
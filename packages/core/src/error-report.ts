@@ -0,0 +1,204 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { InvalidItem, InvalidKey } from './collection';
+import type { Any } from './generics';
+import { InvalidType, MissingKey } from './parse';
+import { InvalidBranch, NoMatchingBranch } from './union';
+
+/**
+ * A single error of a value or schema, with the path of the field (or item) that failed.
+ *
+ * @public
+ */
+type FlatError = {
+  /** The keys from the root input to the failing input (empty for the root input). */
+  path: string[];
+  /** The error code (the error itself for string errors). */
+  code: string;
+  /** The human readable message of the error, translated by the message catalogue if any. */
+  message: string;
+  /** The structured details of the error, if any. */
+  details?: unknown;
+};
+
+/**
+ * The messages of the errors, keyed by error code (e.g. the messages of a locale).
+ * A message can be a template with `{key}` placeholders replaced by the details of the error, or a
+ * function of the details and the error.
+ *
+ * @public
+ */
+type MessageCatalogue = Record<
+  string,
+  string | ((details: Any, error: { code: string; message: string }) => string)
+>;
+
+/**
+ * Options for {@link flattenErrors} and {@link formatErrors}.
+ *
+ * @public
+ */
+type ErrorReportOptions = {
+  /** The messages that replace the messages of the errors with the same code. */
+  messages?: MessageCatalogue;
+};
+
+/**
+ * Guard check to determine if the given error is an error object with the shape of a
+ * `ResultError` (e.g. an error created with `defineError`).
+ *
+ * @remarks
+ * The context and the origin are required too, so a record of errors with a field named `code`
+ * (e.g. the errors of a schema in strict mode) is not taken as an error.
+ *
+ * @param maybeError - The error to check.
+ * @returns True if the error has a code, a context and an origin, false if it is a container of
+ * errors.
+ *
+ * @internal
+ */
+const isCodedError = (
+  maybeError: unknown,
+): maybeError is { code: string; message?: string; details?: unknown } =>
+  typeof maybeError === 'object' &&
+  maybeError !== null &&
+  typeof (maybeError as Any).code === 'string' &&
+  typeof (maybeError as Any).context === 'string' &&
+  typeof (maybeError as Any).origin === 'string';
+
+/**
+ * Replaces the `{key}` placeholders of a template with the details of an error.
+ *
+ * @param template - The message template.
+ * @param details - The details of the error.
+ * @returns The interpolated message.
+ *
+ * @internal
+ */
+const interpolate = (template: string, details: unknown) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    typeof details === 'object' && details !== null && key in details
+      ? String((details as Record<string, unknown>)[key])
+      : placeholder,
+  );
+
+/**
+ * Creates the flat error of a single error.
+ *
+ * @param path - The path of the failing input.
+ * @param code - The error code.
+ * @param message - The message of the error.
+ * @param details - The details of the error.
+ * @param messages - The message catalogue.
+ * @returns The flat error.
+ *
+ * @internal
+ */
+const flatError = (
+  path: string[],
+  code: string,
+  message: string,
+  details: unknown,
+  messages: MessageCatalogue = {},
+): FlatError => {
+  const entry = messages[code];
+  const translated =
+    typeof entry === 'function'
+      ? entry(details, { code, message })
+      : typeof entry === 'string'
+        ? interpolate(entry, details)
+        : message;
+
+  return { path, code, message: translated, ...(details !== undefined && { details }) };
+};
+
+/**
+ * Flattens the errors of a value or schema into a list of errors with their paths.
+ * The nested schema errors, the errors of the collection items and keys and the shape errors of
+ * {@link parse} are reported at the path of the failing input. The errors of the union branches
+ * are reported at the index (or discriminator value) of the branch.
+ *
+ * @remarks
+ * String errors use the error itself as code and message. The other errors keep their message
+ * unless the message catalogue has a message for their code.
+ *
+ * @param errors - The errors of a value or schema result (in any error mode).
+ * @param options - The report options.
+ * @returns The list of errors, in the order of the fields.
+ *
+ * @public
+ */
+const flattenErrors = (errors: unknown, options: ErrorReportOptions = {}): FlatError[] => {
+  const walk = (error: unknown, path: string[]): FlatError[] => {
+    if (Array.isArray(error)) {
+      return error.flatMap((item) => walk(item, path));
+    }
+
+    if (InvalidItem.is(error) || InvalidKey.is(error)) {
+      return walk(error.details.errors, [...path, String(error.details.key)]);
+    }
+
+    if (NoMatchingBranch.is(error)) {
+      return error.details.branches.flatMap(({ branch, errors: branchErrors }) =>
+        walk(branchErrors, [...path, String(branch)]),
+      );
+    }
+
+    if (InvalidBranch.is(error)) {
+      return walk(error.details.errors, [...path, error.details.branch]);
+    }
+
+    if (isCodedError(error)) {
+      const location = InvalidType.is(error)
+        ? [...path, ...error.details.path]
+        : MissingKey.is(error)
+          ? [...path, ...error.details.path, error.details.key]
+          : path;
+
+      return [
+        flatError(
+          location,
+          error.code,
+          error.message ?? error.code,
+          error.details,
+          options.messages,
+        ),
+      ];
+    }
+
+    if (typeof error === 'object' && error !== null) {
+      return Object.entries(error).flatMap(([key, fieldError]) => walk(fieldError, [...path, key]));
+    }
+
+    return [flatError(path, String(error), String(error), undefined, options.messages)];
+  };
+
+  return walk(errors, []);
+};
+
+/**
+ * Formats the errors of a value or schema as human readable lines (one line per error).
+ * See {@link flattenErrors}.
+ *
+ * @param errors - The errors of a value or schema result (in any error mode).
+ * @param options - The report options.
+ * @returns The formatted errors, e.g. `age: Must be positive (INVALID_AGE)`.
+ *
+ * @public
+ */
+const formatErrors = (errors: unknown, options: ErrorReportOptions = {}) =>
+  flattenErrors(errors, options)
+    .map(({ path, code, message }) => {
+      const location = path.length > 0 ? `${path.join('.')}: ` : '';
+      return `${location}${message}${message === code ? '' : ` (${code})`}`;
+    })
+    .join('\n');
+
+export type { ErrorReportOptions, FlatError, MessageCatalogue };
+export { flattenErrors, formatErrors };
@@ -0,0 +1,287 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import type { Any } from './generics';
+import type { ResultError } from './result';
+
+/**
+ * The structured payload of an error. Describes why the error happened, e.g. `{ min: 3, actual: 1 }`.
+ * Use `void` for errors without details.
+ *
+ * @public
+ */
+type ErrorDetails = Record<string, unknown> | void;
+
+/**
+ * The definition of an error created with {@link defineError}.
+ *
+ * @typeParam C - The context of the error.
+ * @typeParam O - The origin of the error.
+ * @typeParam D - The details of the error.
+ *
+ * @public
+ */
+type ErrorDefinition<C extends string, O extends string, D extends ErrorDetails> = {
+  /** The context of the error. */
+  context: C;
+  /** The origin of the error. */
+  origin: O;
+  /** The error message. Can be parameterised with the details of the error. */
+  message: string | ((details: D) => string);
+};
+
+/**
+ * The JSON representation of a {@link DefinedError}.
+ *
+ * @typeParam T - The error code.
+ * @typeParam C - The context of the error.
+ * @typeParam O - The origin of the error.
+ * @typeParam D - The details of the error.
+ *
+ * @public
+ */
+type DefinedErrorJSON<
+  T extends string,
+  C extends string,
+  O extends string,
+  D extends ErrorDetails,
+> = ResultError<T, C, O> & {
+  details?: D;
+  cause?: unknown;
+};
+
+/**
+ * The data of a {@link DefinedError}, without its methods (e.g. an error revived from JSON).
+ *
+ * @typeParam T - The error code.
+ * @typeParam C - The context of the error.
+ * @typeParam O - The origin of the error.
+ * @typeParam D - The details of the error.
+ *
+ * @public
+ */
+type DefinedErrorData<
+  T extends string,
+  C extends string,
+  O extends string,
+  D extends ErrorDetails,
+> = ResultError<T, C, O> & {
+  /** The structured details of the error. */
+  readonly details: D;
+  /** The lower-level error that caused this error, if any. */
+  readonly cause?: unknown;
+};
+
+/**
+ * A {@link ResultError} created with {@link defineError}.
+ * Carries the structured details of the error and, optionally, the lower-level error that caused it.
+ *
+ * @remarks
+ * The `toJSON` and `format` methods live in the prototype of the error, so two errors with the same
+ * data are still structurally equal.
+ *
+ * @typeParam T - The error code.
+ * @typeParam C - The context of the error.
+ * @typeParam O - The origin of the error.
+ * @typeParam D - The details of the error.
+ *
+ * @public
+ */
+type DefinedError<
+  T extends string,
+  C extends string,
+  O extends string,
+  D extends ErrorDetails,
+> = DefinedErrorData<T, C, O, D> & {
+  /**
+   * Returns a JSON representation of the error, including the cause chain.
+   * @returns A JSON representation of the error.
+   */
+  toJSON(): DefinedErrorJSON<T, C, O, D>;
+
+  /**
+   * Returns a human readable representation of the error, including the cause chain.
+   * @returns A human readable representation of the error.
+   */
+  format(): string;
+};
+
+/**
+ * Options used to create a {@link DefinedError}.
+ *
+ * @public
+ */
+type DefinedErrorOptions = {
+  /** The lower-level error that caused the error. */
+  cause?: unknown;
+};
+
+/**
+ * The factory returned by {@link defineError}.
+ *
+ * @typeParam T - The error code.
+ * @typeParam C - The context of the error.
+ * @typeParam O - The origin of the error.
+ * @typeParam D - The details of the error.
+ *
+ * @public
+ */
+type ErrorFactory<T extends string, C extends string, O extends string, D extends ErrorDetails> = {
+  (details: D, options?: DefinedErrorOptions): DefinedError<T, C, O, D>;
+  /** The code of the errors created by the factory. */
+  readonly code: T;
+  /**
+   * Guard check to determine if the given value is an error of the factory.
+   * The errors are checked by their data, so the errors revived from JSON are also recognised
+   * (without the methods of the created errors).
+   *
+   * @param maybeError - The value to check.
+   * @returns True if the value is an error with the code, context and origin of the factory, false
+   * otherwise.
+   */
+  is: (maybeError: unknown) => maybeError is DefinedErrorData<T, C, O, D>;
+};
+
+/**
+ * Converts a value into a JSON string, with the bigints as their string representation (e.g. `42n`),
+ * as `JSON.stringify` throws on bigints.
+ *
+ * @param value - The value to convert.
+ * @returns The JSON string of the value.
+ *
+ * @internal
+ */
+const stringify = (value: unknown): string =>
+  JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? `${item}n` : item));
+
+/**
+ * Converts a cause into its JSON representation.
+ *
+ * @param cause - The cause to convert.
+ * @returns The JSON representation of the cause.
+ *
+ * @internal
+ */
+const causeToJSON = (cause: unknown): unknown => {
+  if (cause instanceof Error) {
+    return { name: cause.name, message: cause.message };
+  }
+
+  return typeof (cause as Any)?.toJSON === 'function' ? (cause as Any).toJSON() : cause;
+};
+
+/**
+ * Converts a cause into a human readable string.
+ *
+ * @param cause - The cause to format.
+ * @returns The human readable representation of the cause.
+ *
+ * @internal
+ */
+const formatCause = (cause: unknown): string => {
+  if (typeof (cause as Any)?.format === 'function') {
+    return (cause as Any).format();
+  }
+
+  if (cause instanceof Error) {
+    return `${cause.name}: ${cause.message}`;
+  }
+
+  if (typeof cause === 'object' && cause !== null && 'code' in cause && 'message' in cause) {
+    return `${cause.code}: ${cause.message}`;
+  }
+
+  return typeof cause === 'string' ? cause : stringify(cause);
+};
+
+/**
+ * Shared prototype of every defined error.
+ *
+ * @internal
+ */
+const DefinedErrorPrototype = {
+  toJSON(this: DefinedError<string, string, string, ErrorDetails>) {
+    const { code, context, origin, message, details, cause } = this;
+
+    return {
+      code,
+      context,
+      origin,
+      message,
+      ...(details !== undefined && { details }),
+      ...(cause !== undefined && { cause: causeToJSON(cause) }),
+    };
+  },
+  format(this: DefinedError<string, string, string, ErrorDetails>) {
+    const header = `[${this.context}.${this.origin}] ${this.code}: ${this.message}`;
+    const details = this.details !== undefined ? ` ${stringify(this.details)}` : '';
+    const cause =
+      this.cause !== undefined
+        ? `\n  Caused by: ${formatCause(this.cause).replace(/\n/g, '\n  ')}`
+        : '';
+
+    return `${header}${details}${cause}`;
+  },
+};
+
+/**
+ * Defines a typed error factory.
+ * The created errors are {@link ResultError} objects that can be used with `err`, carrying
+ * parameterised messages, structured details and an optional cause.
+ *
+ * @typeParam T - The error code.
+ * @typeParam C - The context of the error.
+ * @typeParam O - The origin of the error.
+ * @typeParam D - The details of the error. Inferred from the parameter of the message function.
+ * @param code - The error code.
+ * @param definition - The context, origin and message of the error.
+ * @returns A factory that creates errors from their details.
+ *
+ * @public
+ */
+const defineError = <
+  const T extends string,
+  const C extends string,
+  const O extends string,
+  D extends ErrorDetails = void,
+>(
+  code: T,
+  definition: ErrorDefinition<C, O, D>,
+): ErrorFactory<T, C, O, D> => {
+  const { context, origin, message } = definition;
+
+  const factory = (details: D, options: DefinedErrorOptions = {}) =>
+    Object.assign(Object.create(DefinedErrorPrototype), {
+      code,
+      context,
+      origin,
+      message: typeof message === 'function' ? message(details) : message,
+      ...(details !== undefined && { details }),
+      ...(options.cause !== undefined && { cause: options.cause }),
+    });
+
+  const is = (maybeError: unknown) =>
+    typeof maybeError === 'object' &&
+    maybeError !== null &&
+    (maybeError as ResultError<string, string, string>).code === code &&
+    (maybeError as ResultError<string, string, string>).context === context &&
+    (maybeError as ResultError<string, string, string>).origin === origin;
+
+  return Object.assign(factory, { code, is }) as ErrorFactory<T, C, O, D>;
+};
+
+export type {
+  DefinedError,
+  DefinedErrorData,
+  DefinedErrorJSON,
+  ErrorDefinition,
+  ErrorDetails,
+  ErrorFactory,
+  DefinedErrorOptions,
+};
+export { defineError };
@@ -8,15 +8,18 @@
  */
 import { hash } from './_hash';
 import type { Any, MergeUnion, Prettify, PrimitiveTypeExtended } from './generics';
+import { NoneError, type Option, isOption, toResult } from './option';
 import { type Result, isErr, isOk, ok, unwrap } from './result';
 
 /**
  * A function that can be used as a step in a flow.
- * Can be either sync or async and must return a Result.
+ * Can be either sync or async and must return a Result (or an Option for `map` and `bind`).
  *
  * @internal
  */
-type FlowFunction = (a: Any) => Result<Any, Any> | Promise<Result<Any, Any>>;
+type FlowFunction = (
+  a: Any,
+) => Result<Any, Any> | Option<Any> | Promise<Result<Any, Any> | Option<Any>>;
 
 /**
  * The required mapping of a flow operator.
@@ -107,7 +110,8 @@ type Flow<I, O, E, A extends 'sync' | 'async' = 'sync'> = {
      * Try to make simple mapping functions, otherwise use success operator such as `ifThen`,
      * `ifThenElse` or `bind`.
      *
-     * @param fn - The function to apply to the success value. Must return a Result.
+     * @param fn - The function to apply to the success value. Must return a Result or an Option.
+     * An empty Option fails the flow with a {@link NoneError}.
      * @returns A new Flow with the transformed success value.
      *
      * @example
@@ -128,6 +132,8 @@ type Flow<I, O, E, A extends 'sync' | 'async' = 'sync'> = {
      */
     <B, F>(fn: (v: FlowValue<O>) => Result<B, F>): Flow<I, B, E | F, A>;
     <B, F>(fn: (v: FlowValue<O>) => Promise<Result<B, F>>): Flow<I, B, E | F, 'async'>;
+    <B>(fn: (v: FlowValue<O>) => Option<B>): Flow<I, B, E | NoneError, A>;
+    <B>(fn: (v: FlowValue<O>) => Promise<Option<B>>): Flow<I, B, E | NoneError, 'async'>;
   };
 
   mapErr: {
@@ -343,7 +349,8 @@ type Flow<I, O, E, A extends 'sync' | 'async' = 'sync'> = {
      * For objects, merges the new property into the existing object.
      *
      * @param key - The key for the new property.
-     * @param fn - The function that computes the value for the new property.
+     * @param fn - The function that computes the value for the new property. Must return a Result
+     * or an Option. An empty Option fails the flow with a {@link NoneError}.
      * @returns A new Flow with the bound property added to the input object.
      *
      * @example
@@ -384,6 +391,14 @@ type Flow<I, O, E, A extends 'sync' | 'async' = 'sync'> = {
       key: K,
       fn: (v: FlowValue<O>) => Promise<Result<V, F>>,
     ): Flow<I, Bind<FlowValue<O>, K, V>, E | F, 'async'>;
+    <K extends string, V>(
+      key: K,
+      fn: (v: FlowValue<O>) => Option<V>,
+    ): Flow<I, Bind<FlowValue<O>, K, V>, E | NoneError, A>;
+    <K extends string, V>(
+      key: K,
+      fn: (v: FlowValue<O>) => Promise<Option<V>>,
+    ): Flow<I, Bind<FlowValue<O>, K, V>, E | NoneError, 'async'>;
   };
 
   /**
@@ -439,6 +454,20 @@ type Flow<I, O, E, A extends 'sync' | 'async' = 'sync'> = {
   steps: () => FlowStep[];
 };
 
+/**
+ * Converts the output of a step returning an Option into a Result.
+ * An empty Option is converted into a {@link NoneError}. Results are returned untouched.
+ *
+ * @param v - The output of the step (sync or async).
+ * @returns The output of the step as a Result.
+ *
+ * @internal
+ */
+const fromOptionStep = (v: Any) => {
+  const lift = (r: Any) => (isOption(r) ? toResult(r, NoneError()) : r);
+  return v instanceof Promise ? v.then(lift) : lift(v);
+};
+
 /**
  * Operator functions that handle different mapping behaviors.
  * Each operator processes the flow result according to its specific logic.
@@ -456,7 +485,7 @@ const mappings: Record<FlowMapping, (v: Any, step: FlowStep) => Any> = {
     if (!isOk(v)) return v;
 
     return step.operator === 'map'
-      ? step.fn(v.value)
+      ? fromOptionStep(step.fn(v.value))
       : operators[step.operator as Exclude<FlowOperator, 'map' | 'mapErr' | 'mapBoth'>](v, step.fn);
   },
 
@@ -693,7 +722,7 @@ const ifThenElse = (v: Any, fn: Any) => (fn.if(v.value) ? fn.then(v.value) : fn.
  * @internal
  */
 function bind(v: Any, fn: Any) {
-  const result = fn(v.value);
+  const result = fromOptionStep(fn(v.value));
 
   if (result instanceof Promise) {
     return result.then((r) =>
@@ -271,6 +271,15 @@ type MergeUnion<T> =
  */
 type FlatArray<T> = T extends Array<infer U> ? U : T;
 
+/**
+ * An array with at least one element.
+ *
+ * @typeParam T - The type of the elements.
+ *
+ * @public
+ */
+type NonEmptyArray<T> = readonly [T, ...T[]];
+
 export type {
   // General purpose types.
   Any,
@@ -289,4 +298,5 @@ export type {
   IfReadonly,
   PreserveReadonly,
   FlatArray,
+  NonEmptyArray,
 };
@@ -1,17 +1,31 @@
 export * from './aggregate';
+export * from './async-result';
 export * from './builder';
+export * from './collection';
 export * from './component';
 export * from './container';
 export * from './criteria';
 export * from './doc';
 export * from './env';
+export * from './error';
+export * from './error-report';
 export * from './event';
 export * from './flow';
+export * from './lazy';
 export * from './logger';
+export * from './match-error';
+export * from './modifier';
+export * from './option';
 export * from './panic';
+export * from './parse';
 export * from './pipe';
 export * from './result';
+export * from './result-json';
 export * from './schema';
+export * from './schema-transform';
 export * from './specification';
+export * from './throwable';
+export * from './union';
+export * from './validation';
 export * from './value';
 export type * from './generics';
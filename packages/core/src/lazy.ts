@@ -0,0 +1,137 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { config } from './_config';
+import type { ErrorMode } from './_err';
+import { type ItemValidator, validateItem } from './_item';
+import { component } from './component';
+import { type DefinedError, defineError } from './error';
+import type { Any } from './generics';
+import { panic } from './panic';
+import { err, isOk } from './result';
+import { isSchema } from './schema';
+import { type Value, isAsync, isValue } from './value';
+
+/**
+ * Error of a lazy value when the input refers to itself (e.g. a category that is its own child).
+ *
+ * @public
+ */
+type CircularInput = DefinedError<'CircularInputError', 'Lazy', 'input', void>;
+
+/**
+ * A value that resolves its value or schema on the first validation.
+ * Used to refer to a schema before it exists (e.g. the children of a category tree).
+ *
+ * @typeParam T - The type of the validated value.
+ * @typeParam E - The type of the error of the resolved value or schema.
+ * @typeParam In - The type of the input (same as the validated value by default).
+ *
+ * @public
+ */
+type LazyValue<T, E, In = T> = Value<T, E | CircularInput, In> & {
+  /** Resolves the value or schema (the getter is only called once). */
+  readonly resolve: () => ItemValidator;
+};
+
+/**
+ * Panic error for the lazy module.
+ *
+ * @public
+ */
+const LazyError = panic<'Lazy', 'InvalidTarget'>('Lazy');
+
+/**
+ * Factory of the {@link CircularInput} error.
+ *
+ * @public
+ */
+const CircularInput = defineError('CircularInputError', {
+  context: 'Lazy',
+  origin: 'input',
+  message: 'The input refers to itself',
+});
+
+/**
+ * Creates a value that defers the resolution of its value or schema until the first validation.
+ * As a schema field, it allows recursive schemas (e.g. trees and threads).
+ *
+ * @remarks
+ * TypeScript cannot infer the type of a schema that refers to itself. Give the output type (and
+ * optionally the error and input types) and annotate the return type of the getter with
+ * {@link AnySchema}, so the recursion is typed.
+ * The input objects that are being validated are tracked, so an input that refers to itself fails
+ * with a {@link CircularInput} error instead of recursing forever.
+ * The resolved value or schema is not a child of the lazy value, so the component tree of a
+ * recursive schema is finite.
+ *
+ * @typeParam T - The type of the validated value.
+ * @typeParam E - The type of the error of the resolved value or schema.
+ * @typeParam In - The type of the input (same as the validated value by default).
+ * @param getter - Returns the value or schema (sync only) to validate the input with.
+ * @returns A new lazy value.
+ * @throws A {@link LazyError} if the getter does not return a sync value or schema.
+ *
+ * @public
+ */
+const lazy = <T, E = unknown, In = T>(getter: () => ItemValidator) => {
+  let target: ItemValidator | undefined;
+
+  const resolve = () => {
+    if (target === undefined) {
+      const resolved = getter();
+
+      if ((!isValue(resolved) && !isSchema(resolved)) || isAsync(resolved)) {
+        throw new LazyError('InvalidTarget', 'The lazy target must be a sync value or schema.');
+      }
+
+      target = resolved;
+    }
+
+    return target;
+  };
+
+  // The inputs being validated, to detect the inputs that refer to themselves.
+  const active = new WeakSet<object>();
+
+  const validator = (input: Any, mode: ErrorMode = config.defaultErrorMode) => {
+    const validate = resolve();
+    const tracked = typeof input === 'object' && input !== null;
+
+    if (tracked && active.has(input)) {
+      const error = CircularInput();
+      return err(mode === 'strict' ? error : [error]);
+    }
+
+    if (tracked) {
+      active.add(input);
+    }
+
+    try {
+      // Schema errors are wrapped like value errors, so the lazy value is a regular value.
+      const result = validateItem(validate, input, mode);
+      return isOk(result) ? result : err(mode === 'strict' ? result.error[0] : result.error);
+    } finally {
+      if (tracked) {
+        active.delete(input);
+      }
+    }
+  };
+
+  const lazyValue = component('Value', validator, { getter }).subType('lazy');
+  Object.defineProperty(lazyValue, 'resolve', {
+    value: resolve,
+    writable: false,
+    enumerable: true,
+  });
+
+  return lazyValue as Any as LazyValue<T, E, In>;
+};
+
+export type { LazyValue };
+export { CircularInput, lazy, LazyError };
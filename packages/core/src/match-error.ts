@@ -0,0 +1,214 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import type { Any } from './generics';
+
+/**
+ * An error that can be matched by its code. Can be a string literal error (e.g.
+ * `'INVALID_ENUM_VALUE'`) or an error object with a `code`, a `context` and an `origin` (e.g. a
+ * `ResultError`), so an error record with a `code` field is not mistaken for an error.
+ *
+ * @public
+ */
+type MatchableError =
+  string | { readonly code: string; readonly context: string; readonly origin: string };
+
+/**
+ * A record of errors keyed by field, e.g. the errors of a schema.
+ * Each field can hold a single error (strict mode), a list of errors (all mode) or the record of
+ * errors of a nested schema.
+ *
+ * @internal
+ */
+interface ErrorRecord {
+  [field: string]: MatchableError | readonly MatchableError[] | ErrorRecord;
+}
+
+/**
+ * Extracts the codes of an error union.
+ *
+ * @typeParam E - The error union.
+ *
+ * @public
+ */
+type ErrorCode<E> = E extends string
+  ? E
+  : E extends { readonly code: infer C extends string }
+    ? C
+    : never;
+
+/**
+ * Extracts the members of an error union with the given code.
+ *
+ * @typeParam E - The error union.
+ * @typeParam C - The code to extract.
+ *
+ * @public
+ */
+type ErrorOfCode<E, C> = E extends string
+  ? E extends C
+    ? E
+    : never
+  : E extends { readonly code: C }
+    ? E
+    : never;
+
+/**
+ * Extracts the error union of an error record.
+ *
+ * @typeParam F - The error record.
+ *
+ * @internal
+ */
+type RecordErrors<F> = {
+  [K in keyof F]-?: NonNullable<F[K]> extends readonly (infer E)[]
+    ? E
+    : NonNullable<F[K]> extends MatchableError
+      ? NonNullable<F[K]>
+      : RecordErrors<NonNullable<F[K]>>;
+}[keyof F];
+
+/**
+ * The record of the values returned by the handlers, keeping the shape of an error record.
+ *
+ * @typeParam F - The error record.
+ * @typeParam R - The values returned by the handlers.
+ *
+ * @internal
+ */
+type MatchedRecord<F, R> = {
+  [K in keyof F]: NonNullable<F[K]> extends readonly Any[]
+    ? R[]
+    : NonNullable<F[K]> extends MatchableError
+      ? R
+      : MatchedRecord<NonNullable<F[K]>, R>;
+};
+
+/**
+ * The handlers of every code of an error union.
+ *
+ * @typeParam E - The error union.
+ *
+ * @internal
+ */
+type ExhaustiveCases<E> = {
+  [C in ErrorCode<E>]: (error: ErrorOfCode<E, C>) => unknown;
+};
+
+/**
+ * The handlers of some codes of an error union, with a fallback handler (`_`) for the rest.
+ *
+ * @typeParam E - The error union.
+ *
+ * @internal
+ */
+type FallbackCases<E> = {
+  [C in ErrorCode<E>]?: (error: ErrorOfCode<E, C>) => unknown;
+} & {
+  _: (error: E) => unknown;
+};
+
+/**
+ * The cases of {@link matchError}. Either every code has a handler, or a fallback handler (`_`)
+ * is given.
+ *
+ * @typeParam E - The error union.
+ *
+ * @public
+ */
+type MatchErrorCases<E> = ExhaustiveCases<E> | FallbackCases<E>;
+
+/**
+ * The union of the values returned by the handlers.
+ *
+ * @typeParam H - The handlers.
+ *
+ * @internal
+ */
+type CasesReturn<H> = {
+  [K in keyof H]: H[K] extends (...args: Any[]) => infer R ? R : never;
+}[keyof H];
+
+/**
+ * Overloads for the {@link matchError} function.
+ *
+ * @internal
+ */
+interface MatchError {
+  <E extends MatchableError, H extends MatchErrorCases<E>>(error: E, cases: H): CasesReturn<H>;
+  <F extends ErrorRecord, H extends MatchErrorCases<RecordErrors<F>>>(
+    errors: F,
+    cases: H,
+  ): MatchedRecord<F, CasesReturn<H>>;
+}
+
+/**
+ * Gets the code of a matchable error.
+ *
+ * @param error - The error.
+ * @returns The code of the error.
+ *
+ * @internal
+ */
+const codeOf = (error: MatchableError) => (typeof error === 'string' ? error : error.code);
+
+/**
+ * Guard check to determine if the given value is a matchable error.
+ *
+ * @param maybeError - The value to check.
+ * @returns True if the value is a string or an object with a string `code`, `context` and
+ * `origin`, false otherwise.
+ *
+ * @internal
+ */
+const isMatchable = (maybeError: unknown): maybeError is MatchableError =>
+  typeof maybeError === 'string' ||
+  (typeof maybeError === 'object' &&
+    maybeError !== null &&
+    typeof (maybeError as Record<string, unknown>).code === 'string' &&
+    typeof (maybeError as Record<string, unknown>).context === 'string' &&
+    typeof (maybeError as Record<string, unknown>).origin === 'string');
+
+/**
+ * Matches an error against the handlers of its codes, narrowing the error in each handler.
+ * It is exhaustive: the call fails to type-check if a code has no handler and no fallback
+ * handler (`_`) is given.
+ *
+ * @remarks
+ * Works with string literal errors and with error objects with a `code` (e.g. a `ResultError`).
+ * When a record of errors keyed by field is given (e.g. the errors of a schema), every error of
+ * every field is matched, keeping the shape of the record (including the records of the nested
+ * schemas).
+ *
+ * @param error - The error (or the record of errors) to match.
+ * @param cases - The handlers by code, and optionally the fallback handler (`_`).
+ * @returns The value returned by the matching handler (or a record of them).
+ *
+ * @public
+ */
+const matchError: MatchError = (error: Any, cases: Record<string, (error: Any) => Any>): Any => {
+  const match = (e: MatchableError) =>
+    (Object.prototype.hasOwnProperty.call(cases, codeOf(e)) ? cases[codeOf(e)] : cases._)(e);
+
+  const matchRecord = (record: ErrorRecord): Record<string, unknown> =>
+    Object.fromEntries(
+      Object.entries(record).map(([field, errors]) => [
+        field,
+        Array.isArray(errors)
+          ? errors.map(match)
+          : isMatchable(errors)
+            ? match(errors)
+            : matchRecord(errors as ErrorRecord),
+      ]),
+    );
+
+  return isMatchable(error) ? match(error) : matchRecord(error);
+};
+
+export type { ErrorCode, ErrorOfCode, MatchableError, MatchErrorCases };
+export { matchError };
@@ -0,0 +1,213 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { config } from './_config';
+import type { ErrorMode } from './_err';
+import {
+  type AsyncItemValidator,
+  type ItemValidator,
+  validateAsyncItem,
+  validateItem,
+} from './_item';
+import type { ItemError, ItemInput, ItemValue } from './collection';
+import { component } from './component';
+import type { Any } from './generics';
+import { type Result, err, isOk, ok } from './result';
+import { type AsyncValue, type Value, isAsync } from './value';
+
+/**
+ * The modifier applied to a value. It changes how the value is handled as a schema field.
+ *
+ * @public
+ */
+type Modifier = 'optional' | 'nullable' | 'default';
+
+/**
+ * A value that also accepts `undefined`. As a schema field, its key is optional.
+ *
+ * @typeParam T - The type of the value to validate.
+ * @typeParam E - The type of the error.
+ * @typeParam V - The wrapped value or schema.
+ *
+ * @public
+ */
+type OptionalValue<T, E, V = Value<T, E>> = Value<T | undefined, E, ItemInput<V> | undefined> & {
+  readonly modifier: 'optional';
+  readonly inner: V;
+};
+
+/**
+ * An async value that also accepts `undefined` (e.g. an async field of a partial schema).
+ * See {@link OptionalValue}.
+ *
+ * @typeParam T - The type of the value to validate.
+ * @typeParam E - The type of the error.
+ * @typeParam V - The wrapped async value or schema.
+ *
+ * @public
+ */
+type AsyncOptionalValue<T, E, V> = AsyncValue<T | undefined, E, ItemInput<V> | undefined> & {
+  readonly modifier: 'optional';
+  readonly inner: V;
+};
+
+/**
+ * A value that also accepts `null`. As a schema field, its key is still required.
+ *
+ * @typeParam T - The type of the value to validate.
+ * @typeParam E - The type of the error.
+ * @typeParam In - The type of the input of the wrapped value.
+ *
+ * @public
+ */
+type NullableValue<T, E, In = T> = Value<T | null, E, In | null> & {
+  readonly modifier: 'nullable';
+  readonly inner: Value<T, E, In>;
+};
+
+/**
+ * A value that replaces `undefined` with a fallback value.
+ * As a schema field, its key is optional in the input but always present in the output.
+ *
+ * @typeParam T - The type of the value to validate.
+ * @typeParam E - The type of the error.
+ * @typeParam In - The type of the input of the wrapped value.
+ *
+ * @public
+ */
+type DefaultValue<T, E, In = T> = Value<T, E, In | undefined> & {
+  readonly modifier: 'default';
+  readonly inner: Value<T, E, In>;
+  readonly fallback: T;
+};
+
+/**
+ * Wraps a value so that the given input is accepted without validation.
+ * The new value is async when the wrapped value is async.
+ *
+ * @param modifier - The modifier of the new value.
+ * @param inner - The wrapped value (or schema).
+ * @param accept - Returns the output of the accepted inputs, or `undefined` to validate them.
+ * @param extra - The extra fields of the new value.
+ * @returns The new value, with the wrapped value as child.
+ *
+ * @internal
+ */
+const modify = (
+  modifier: Modifier,
+  inner: ItemValidator | AsyncItemValidator,
+  accept: (input: Any) => Result<Any, never> | undefined,
+  extra: Record<string, Any> = {},
+) => {
+  const async = isAsync(inner);
+
+  const validator = (input: Any, mode: ErrorMode = config.defaultErrorMode) => {
+    const accepted = accept(input);
+    if (accepted) {
+      return async ? Promise.resolve(accepted) : accepted;
+    }
+
+    // Schema errors are wrapped like value errors, so the modified value is a regular value.
+    const unwrap = (result: Result<Any, Any[]>) =>
+      isOk(result) ? result : err(mode === 'strict' ? result.error[0] : result.error);
+
+    return async
+      ? validateAsyncItem(inner as AsyncItemValidator, input, mode).then(unwrap)
+      : unwrap(validateItem(inner as ItemValidator, input, mode));
+  };
+
+  const modified = component('Value', validator, { inner, modifier, ...extra })
+    .addChildren(inner as Any)
+    .subType(modifier);
+
+  for (const [key, value] of Object.entries({ modifier, inner, ...extra })) {
+    Object.defineProperty(modified, key, { value, writable: false, enumerable: true });
+  }
+
+  // The async flag is not enumerable, like the flag of the async values and schemas.
+  if (async) {
+    Object.defineProperty(modified, 'async', { value: true, writable: false, enumerable: false });
+  }
+
+  return modified;
+};
+
+/**
+ * Creates a value that accepts `undefined` besides the values accepted by the given value (or
+ * schema). As a schema field, its key becomes optional (e.g. for PATCH payloads).
+ *
+ * @remarks
+ * A missing key is not added to the output of the schema.
+ * When a schema is given, its errors are handled like the errors of a value (a list of error
+ * records in `'all'` mode). The optional value of an async value or schema is async.
+ *
+ * @typeParam V - The wrapped value or schema.
+ * @param value - The value (or schema) used when the input is not `undefined`.
+ * @returns A new optional value.
+ *
+ * @public
+ */
+const optional = <V extends ItemValidator | AsyncItemValidator>(value: V) =>
+  modify('optional', value, (input) =>
+    input === undefined ? ok(undefined) : undefined,
+  ) as Any as V extends { readonly async: true }
+    ? AsyncOptionalValue<ItemValue<V>, ItemError<V>, V>
+    : OptionalValue<ItemValue<V>, ItemError<V>, V>;
+
+/**
+ * Creates a value that accepts `null` besides the values accepted by the given value.
+ *
+ * @typeParam T - The type of the value to validate.
+ * @typeParam E - The type of the error.
+ * @typeParam In - The type of the input of the value.
+ * @param value - The value used when the input is not `null`.
+ * @returns A new nullable value.
+ *
+ * @public
+ */
+const nullable = <T, E, In>(value: Value<T, E, In>) =>
+  modify('nullable', value, (input) =>
+    input === null ? ok(null) : undefined,
+  ) as Any as NullableValue<T, E, In>;
+
+/**
+ * Creates a value that uses a fallback when the input is `undefined`.
+ * As a schema field, a missing key gets the fallback, e.g. a missing variable in `env()`.
+ *
+ * @remarks
+ * The fallback is trusted, so it is not validated by the given value.
+ *
+ * @typeParam T - The type of the value to validate.
+ * @typeParam E - The type of the error.
+ * @typeParam In - The type of the input of the value.
+ * @param value - The value used when the input is not `undefined`.
+ * @param fallback - The value used when the input is `undefined` (an output value).
+ * @returns A new value with a default.
+ *
+ * @public
+ */
+const withDefault = <T, E, In>(value: Value<T, E, In>, fallback: T) =>
+  modify('default', value, (input) => (input === undefined ? ok(fallback) : undefined), {
+    fallback,
+  }) as Any as DefaultValue<T, E, In>;
+
+/**
+ * Gets the modifier of a value, if any.
+ *
+ * @param maybeModified - The value to check.
+ * @returns The modifier of the value, or `null` if the value has no modifier.
+ *
+ * @public
+ */
+const modifierOf = (maybeModified: Any): Modifier | null =>
+  typeof maybeModified === 'function' && typeof maybeModified.modifier === 'string'
+    ? maybeModified.modifier
+    : null;
+
+export type { AsyncOptionalValue, DefaultValue, Modifier, NullableValue, OptionalValue };
+export { modifierOf, nullable, optional, withDefault };
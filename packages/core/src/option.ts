@@ -0,0 +1,182 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { type DefinedError, defineError } from './error';
+import type { Any } from './generics';
+import { type Result, err, isOk, ok } from './result';
+
+/**
+ * Represents a present value of type T.
+ *
+ * @typeParam T - The type of the value.
+ *
+ * @public
+ */
+type Some<T> = {
+  readonly _id: 'Option';
+  readonly _tag: 'Some';
+  readonly value: T;
+};
+
+/**
+ * Represents the absence of a value.
+ *
+ * @public
+ */
+type None = {
+  readonly _id: 'Option';
+  readonly _tag: 'None';
+};
+
+/**
+ * Represents a value that may be present (Some) or absent (None).
+ * Prefer it over `T | undefined` to make the "maybe found" intent explicit, e.g. in repository
+ * ports.
+ *
+ * @typeParam T - The type of the value.
+ *
+ * @public
+ */
+type Option<T> = Some<T> | None;
+
+/**
+ * Error used when a `None` option is found where a value was expected, e.g. in a flow step.
+ *
+ * @public
+ */
+type NoneError = DefinedError<'NoneError', 'Option', 'none', void>;
+
+/**
+ * Factory of the {@link NoneError} error.
+ *
+ * @public
+ */
+const NoneError = defineError('NoneError', {
+  context: 'Option',
+  origin: 'none',
+  message: 'Expected a value but found none',
+});
+
+/**
+ * Creates a present option with the given value.
+ *
+ * @typeParam T - The type of the value.
+ * @param value - The value to wrap.
+ * @returns A new Some instance containing the value, typed as `Option<T>`.
+ *
+ * @public
+ */
+function some<T>(value: T): Option<T> {
+  return {
+    _id: 'Option',
+    _tag: 'Some',
+    value,
+  };
+}
+
+/**
+ * Creates an absent option.
+ *
+ * @returns A new None instance, typed as `Option<never>`.
+ *
+ * @public
+ */
+function none(): Option<never> {
+  return {
+    _id: 'Option',
+    _tag: 'None',
+  };
+}
+
+/**
+ * Type guard to check if an option has a value.
+ *
+ * @typeParam T - The type of the value.
+ * @param option - The option to check.
+ * @returns True if the option has a value (Some), false otherwise.
+ *
+ * @public
+ */
+function isSome<T>(option: Option<T>): option is Some<T> {
+  return option._tag === 'Some';
+}
+
+/**
+ * Type guard to check if an option is empty.
+ *
+ * @typeParam T - The type of the value.
+ * @param option - The option to check.
+ * @returns True if the option is empty (None), false otherwise.
+ *
+ * @public
+ */
+function isNone<T>(option: Option<T>): option is None {
+  return option._tag === 'None';
+}
+
+/**
+ * Type guard to check if a value is an option.
+ *
+ * @param option - The value to check.
+ * @returns True if the value is an option with the correct structure, false otherwise.
+ *
+ * @public
+ */
+function isOption(option: unknown): option is Option<unknown> {
+  if (typeof option !== 'object' || option === null) {
+    return false;
+  }
+
+  const isOption = '_id' in option && option._id === 'Option';
+  const isSome = isOption && '_tag' in option && option._tag === 'Some' && 'value' in option;
+  const isNone = isOption && '_tag' in option && option._tag === 'None';
+  return isSome || isNone;
+}
+
+/**
+ * Creates an option from a nullable value.
+ * `null` and `undefined` become `None`, any other value becomes `Some`.
+ *
+ * @typeParam T - The type of the value.
+ * @param value - The nullable value.
+ * @returns A new option.
+ *
+ * @public
+ */
+const fromNullable = <T>(value: T): Option<NonNullable<T>> =>
+  value === null || value === undefined ? none() : some(value as NonNullable<T>);
+
+/**
+ * Converts an option into a result, using the given error when the option is empty.
+ *
+ * @typeParam T - The type of the value.
+ * @typeParam E - The type of the error.
+ * @param option - The option to convert.
+ * @param error - The error to use if the option is empty.
+ * @returns A successful result with the value, or a failed result with the error.
+ *
+ * @public
+ */
+const toResult = <T, E>(option: Option<T>, error: E): Result<T, E> =>
+  isSome(option) ? ok(option.value) : err(error as Any);
+
+/**
+ * Converts a result into an option, discarding the error.
+ *
+ * @typeParam T - The type of the successful value.
+ * @typeParam E - The type of the error.
+ * @param result - The result to convert.
+ * @returns A present option with the value if the result is ok, an empty option otherwise.
+ *
+ * @public
+ */
+const fromResult = <T, E>(result: Result<T, E>): Option<T> =>
+  isOk(result) ? some(result.value) : none();
+
+export type { None, Option, Some };
+export { fromNullable, fromResult, isNone, isOption, isSome, none, NoneError, some, toResult };
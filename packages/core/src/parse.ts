@@ -0,0 +1,182 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { config } from './_config';
+import type { ErrorMode } from './_err';
+import type { AsyncItemValidator, ItemValidator } from './_item';
+import { type InputKind, type ShapeError, InvalidType, MissingKey, shapeErrors } from './_shape';
+import type { ItemInput, ItemValue } from './collection';
+import type { Any } from './generics';
+import { type Result, err, isOk } from './result';
+import type { PolicyErrors, Schema, SchemaErrors, SchemaValues, UnknownKeysPolicy } from './schema';
+import { type AsyncValue, type Value, isAsync } from './value';
+
+/**
+ * The errors of {@link parse}: the shape errors or the errors of the value or schema.
+ *
+ * @typeParam V - The value or schema type.
+ * @typeParam Mode - The error mode.
+ *
+ * @public
+ */
+type ParseErrors<V, Mode extends ErrorMode> =
+  | (V extends Schema<infer F, infer P, infer R>
+      ? SchemaErrors<F, Mode, R> | PolicyErrors<P>
+      : V extends Value<Any, infer E> | AsyncValue<Any, infer E, Any>
+        ? Mode extends 'strict'
+          ? E
+          : E[]
+        : never)
+  | (Mode extends 'strict' ? ShapeError : ShapeError[]);
+
+/**
+ * The type of the input validated by a sync or async value or schema.
+ *
+ * @internal
+ */
+type ParseValue<V> = V extends AsyncValue<infer T, Any, Any> ? T : ItemValue<V>;
+
+/**
+ * Function interface of {@link parse}. Async values and schemas return a promise of the result.
+ *
+ * @internal
+ */
+interface ParseFunction {
+  /**
+   * Parses an input with a sync value or schema.
+   *
+   * @typeParam V - The value or schema type.
+   * @typeParam Mode - The error mode.
+   */
+  <V extends ItemValidator, Mode extends ErrorMode = 'all'>(
+    validator: V,
+    input: unknown,
+    mode?: Mode,
+  ): Result<ItemValue<V>, ParseErrors<V, Mode>>;
+
+  /**
+   * Parses an input with an async value or schema.
+   *
+   * @typeParam V - The value or schema type.
+   * @typeParam Mode - The error mode.
+   */
+  <V extends AsyncItemValidator, Mode extends ErrorMode = 'all'>(
+    validator: V,
+    input: unknown,
+    mode?: Mode,
+  ): Promise<Result<ParseValue<V>, ParseErrors<V, Mode>>>;
+
+  /**
+   * Parses an input with a schema not known to be sync or async (e.g. with generic fields).
+   *
+   * @typeParam F - The schema fields type.
+   * @typeParam P - The unknown keys policy type.
+   * @typeParam R - The refinement errors type.
+   * @typeParam Mode - The error mode.
+   */
+  <F, P extends UnknownKeysPolicy, R, Mode extends ErrorMode = 'all'>(
+    validator: Schema<F, P, R>,
+    input: unknown,
+    mode?: Mode,
+  ):
+    | Result<SchemaValues<F>, ParseErrors<Schema<F, P, R>, Mode>>
+    | Promise<Result<SchemaValues<F>, ParseErrors<Schema<F, P, R>, Mode>>>;
+}
+
+/**
+ * Function interface of {@link is}. Async values and schemas return a promise of the check.
+ *
+ * @internal
+ */
+interface IsFunction {
+  /**
+   * Checks an input with a sync value or schema. The input is not transformed by the rules, so it
+   * is narrowed to the input type of the value or schema.
+   *
+   * @typeParam V - The value or schema type.
+   */
+  <V extends ItemValidator>(validator: V, input: unknown): input is ItemInput<V>;
+
+  /**
+   * Checks an input with an async value or schema.
+   *
+   * @typeParam V - The value or schema type.
+   */
+  <V extends AsyncItemValidator>(validator: V, input: unknown): Promise<boolean>;
+
+  /**
+   * Checks an input with a schema not known to be sync or async (e.g. with generic fields).
+   *
+   * @typeParam F - The schema fields type.
+   * @typeParam P - The unknown keys policy type.
+   * @typeParam R - The refinement errors type.
+   */
+  <F, P extends UnknownKeysPolicy, R>(
+    validator: Schema<F, P, R>,
+    input: unknown,
+  ): boolean | Promise<boolean>;
+}
+
+/**
+ * Parses an unknown input (e.g. a request body) with a value or schema.
+ * The shape of the input is checked first (objects, missing keys, arrays and the kind of the
+ * values), so the rules always receive the type they expect.
+ * Async values and schemas return a promise of the result.
+ *
+ * @remarks
+ * The kind of a value is taken from its sub-type (e.g. `string` or `integer`), or from its metadata
+ * example when the sub-type has no kind. The kind of the values whose first rule coerces or
+ * transforms the input (e.g. `integer(coerceNumber())`) and of the other values is not checked. The items and
+ * entries of collections, the branches of unions and the lazy values are checked recursively, with
+ * the index or key of the item in the path of the error.
+ *
+ * @typeParam V - The value or schema type.
+ * @typeParam Mode - The error mode.
+ * @param validator - The value or schema to parse the input with.
+ * @param input - The unknown input.
+ * @param mode - The error mode (default: the configured error mode).
+ * @returns A result with the validated input, the shape errors or the validation errors.
+ *
+ * @public
+ */
+const parse: ParseFunction = (
+  validator: ItemValidator | AsyncItemValidator,
+  input: unknown,
+  mode?: ErrorMode,
+) => {
+  const errorMode = mode ?? config.defaultErrorMode;
+  const errors = shapeErrors(validator, input);
+
+  if (errors.length > 0) {
+    const result = err(errorMode === 'strict' ? errors[0] : errors);
+    return isAsync(validator) ? Promise.resolve(result) : result;
+  }
+
+  return (validator as Any)(input, errorMode);
+};
+
+/**
+ * Guard check to determine if an unknown input is valid for a value or schema.
+ * Async values and schemas return a promise of the check. See {@link parse}.
+ * The input is narrowed to the input type of the value or schema, as it is not transformed.
+ *
+ * @typeParam V - The value or schema type.
+ * @param validator - The value or schema to check the input with.
+ * @param input - The unknown input.
+ * @returns True if the input is valid, false otherwise.
+ *
+ * @public
+ */
+const is = ((validator: ItemValidator | AsyncItemValidator, input: unknown) => {
+  // The validator is either sync or async, as a schema with generic fields.
+  const result = parse(validator as Schema<Any, UnknownKeysPolicy, Any>, input, 'strict');
+  return result instanceof Promise ? result.then(isOk) : isOk(result);
+}) as IsFunction;
+
+export type { InputKind, ParseErrors, ShapeError };
+export { InvalidType, is, MissingKey, parse };
@@ -0,0 +1,269 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { type DefinedError, defineError } from './error';
+import type { Any } from './generics';
+import { type Result, err, isErr, isOk, isResult, ok } from './result';
+
+/**
+ * The wire format of a result.
+ * It is plain data, so it is safe to use with `JSON.stringify` and with the structured clone
+ * algorithm (e.g. `postMessage` between worker threads).
+ *
+ * @remarks
+ * Values that are not supported by JSON are encoded as tagged objects:
+ * - `bigint` as `{ $type: 'bigint', value: '<digits>' }`.
+ * - `Date` as `{ $type: 'Date', value: '<ISO string>' }`.
+ * - `Error` as `{ $type: 'Error', name: '<name>', message: '<message>' }`.
+ *
+ * Objects with their own `$type` key are escaped as `{ $type: 'Object', value: <object> }`, so they
+ * are never decoded as tagged values.
+ *
+ * @public
+ */
+type ResultJSON =
+  | { readonly _id: 'Result'; readonly _tag: 'Ok'; readonly value: unknown }
+  | { readonly _id: 'Result'; readonly _tag: 'Err'; readonly error: unknown };
+
+/**
+ * A function that validates an untrusted decoded value, e.g. a value or a schema.
+ *
+ * @typeParam T - The type of the validated value.
+ *
+ * @public
+ */
+type ResultJSONValidator<T> = (input: Any) => Result<T, Any>;
+
+/**
+ * Options for the {@link fromJSON} function.
+ *
+ * @typeParam T - The type of the successful value.
+ * @typeParam E - The type of the error.
+ *
+ * @public
+ */
+type FromJSONOptions<T, E> = {
+  /** Validates the value of a decoded `Ok`. */
+  value?: ResultJSONValidator<T>;
+  /** Validates the error of a decoded `Err`. */
+  error?: ResultJSONValidator<E>;
+};
+
+/**
+ * Error returned by {@link fromJSON} when the payload is not a valid result.
+ *
+ * @public
+ */
+type InvalidResultJSON = DefinedError<
+  'InvalidResultJSONError',
+  'Result',
+  'fromJSON',
+  { reason: string; errors?: unknown }
+>;
+
+/**
+ * Factory of the {@link InvalidResultJSON} error.
+ *
+ * @public
+ */
+const InvalidResultJSON = defineError('InvalidResultJSONError', {
+  context: 'Result',
+  origin: 'fromJSON',
+  message: (details: { reason: string; errors?: unknown }) =>
+    `Invalid result payload: ${details.reason}`,
+});
+
+/**
+ * Encodes a value into its JSON-safe representation.
+ *
+ * @param value - The value to encode.
+ * @returns The encoded value.
+ *
+ * @internal
+ */
+const encode = (value: unknown): unknown => {
+  if (typeof value === 'bigint') {
+    return { $type: 'bigint', value: value.toString() };
+  }
+
+  if (value instanceof Date) {
+    return { $type: 'Date', value: value.toISOString() };
+  }
+
+  if (value instanceof Error) {
+    return { $type: 'Error', name: value.name, message: value.message };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(encode);
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const encoded = Object.fromEntries(Object.entries(value).map(([k, v]) => [k, encode(v)]));
+    return Object.prototype.hasOwnProperty.call(value, '$type')
+      ? { $type: 'Object', value: encoded }
+      : encoded;
+  }
+
+  return value;
+};
+
+/**
+ * Decodes the values of a list of entries, stopping at the first invalid value.
+ *
+ * @param entries - The entries to decode.
+ * @returns The decoded entries, or the reason of the first invalid value.
+ *
+ * @internal
+ */
+const decodeEntries = (entries: [string, unknown][]): Result<[string, unknown][], string> => {
+  const decoded: [string, unknown][] = [];
+
+  for (const [key, item] of entries) {
+    const result = decode(item);
+    if (isErr(result)) {
+      return result;
+    }
+
+    decoded.push([key, result.value]);
+  }
+
+  return ok(decoded);
+};
+
+/**
+ * Decodes a plain object, without reading its `$type` key.
+ *
+ * @param value - The object to decode.
+ * @returns The decoded object, or the reason of the first invalid value.
+ *
+ * @internal
+ */
+const decodeObject = (value: object): Result<unknown, string> => {
+  const entries = decodeEntries(Object.entries(value));
+  return isOk(entries) ? ok(Object.fromEntries(entries.value)) : entries;
+};
+
+/**
+ * Decodes a value from its JSON-safe representation.
+ *
+ * @param value - The value to decode.
+ * @returns The decoded value, or the reason if a tagged value is not valid.
+ *
+ * @internal
+ */
+const decode = (value: unknown): Result<unknown, string> => {
+  if (Array.isArray(value)) {
+    const items = decodeEntries(value.map((item, index) => [String(index), item]));
+    return isOk(items) ? ok(items.value.map(([, item]) => item)) : items;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return ok(value);
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(value, '$type')) {
+    return decodeObject(value);
+  }
+
+  const tagged = value as Record<string, unknown>;
+  const invalid = err(`The ${String(tagged.$type)} tagged value is not valid`);
+
+  switch (tagged.$type) {
+    case 'bigint':
+      return typeof tagged.value === 'string' && /^-?\d+$/.test(tagged.value)
+        ? ok(BigInt(tagged.value))
+        : invalid;
+    case 'Date': {
+      const date = typeof tagged.value === 'string' ? new Date(tagged.value) : undefined;
+      return date && !Number.isNaN(date.getTime()) ? ok(date) : invalid;
+    }
+    case 'Error':
+      return typeof tagged.name === 'string' && typeof tagged.message === 'string'
+        ? ok(Object.assign(new Error(tagged.message), { name: tagged.name }))
+        : invalid;
+    case 'Object':
+      return typeof tagged.value === 'object' &&
+        tagged.value !== null &&
+        !Array.isArray(tagged.value)
+        ? decodeObject(tagged.value)
+        : invalid;
+    default:
+      return err(`The type tag ${JSON.stringify(tagged.$type)} is not supported`);
+  }
+};
+
+/**
+ * Encodes a result into its wire format.
+ * Errors created with {@link defineError} and nested schema error records are encoded as plain
+ * data.
+ *
+ * @param result - The result to encode.
+ * @returns The wire format of the result. See {@link ResultJSON}.
+ *
+ * @public
+ */
+const toJSON = <T, E>(result: Result<T, E>): ResultJSON =>
+  isOk(result)
+    ? { _id: 'Result', _tag: 'Ok', value: encode(result.value) }
+    : { _id: 'Result', _tag: 'Err', error: encode(result.error) };
+
+/**
+ * Decodes a result from its wire format.
+ * Invalid payloads (including invalid tagged values) are never thrown, they are returned as an
+ * {@link InvalidResultJSON} error.
+ *
+ * @remarks
+ * The payload is untrusted by default. Use the `value` and `error` validators (e.g. a value or a
+ * schema) to check the decoded data, so the input cannot forge an `Ok`. Errors created with
+ * {@link defineError} are revived as plain error objects.
+ *
+ * @typeParam T - The type of the successful value.
+ * @typeParam E - The type of the error.
+ * @param input - The wire format of the result (e.g. the output of `JSON.parse`).
+ * @param options - The validators of the decoded value and error.
+ * @returns The decoded result, or an {@link InvalidResultJSON} error if the payload is not valid.
+ *
+ * @public
+ */
+const fromJSON = <T = unknown, E = unknown>(
+  input: unknown,
+  options: FromJSONOptions<T, E> = {},
+): Result<T, E | InvalidResultJSON> => {
+  if (!isResult(input)) {
+    return err(InvalidResultJSON({ reason: 'The payload is not a result' })) as Any;
+  }
+
+  const result = input as Result<unknown, unknown>;
+  const validator = isOk(result) ? options.value : options.error;
+  const decoded = decode(isOk(result) ? result.value : result.error);
+
+  if (isErr(decoded)) {
+    return err(InvalidResultJSON({ reason: decoded.error })) as Any;
+  }
+
+  const data = decoded.value;
+  if (!validator) {
+    return (isErr(result) ? err(data as Any) : ok(data)) as Any;
+  }
+
+  const validated = validator(data) as Result<Any, Any>;
+  if (isErr(validated)) {
+    return err(
+      InvalidResultJSON({
+        reason: `The ${isOk(result) ? 'value' : 'error'} is not valid`,
+        errors: validated.error,
+      }),
+    ) as Any;
+  }
+
+  return (isErr(result) ? err(validated.value) : ok(validated.value)) as Any;
+};
+
+export type { FromJSONOptions, ResultJSON, ResultJSONValidator };
+export { fromJSON, InvalidResultJSON, toJSON };
@@ -7,6 +7,7 @@
  * LICENSE file in the root directory of this source tree.
  */
 import type { Any } from './generics';
+import { panic } from './panic';
 
 /**
  * Represents a successful result with a value of type T.
@@ -92,21 +93,49 @@ type ResultErrorTypes =
       string | ResultError<string, Any, Any> | string[] | ResultError<string, Any, Any>[]
     >;
 
+/**
+ * A result that can be unwrapped with `yield*` inside a {@link gen} block. The results created by
+ * {@link ok} and {@link err} are typed as such; the iterator is not part of {@link Ok} and
+ * {@link Err}, so plain result objects are still results.
+ *
+ * @typeParam T - The type of the successful value.
+ * @typeParam E - The type of the error.
+ *
+ * @public
+ */
+type YieldableResult<T, E> = Result<T, E> & {
+  [Symbol.iterator](): Generator<Err<E>, T, Any>;
+};
+
+/**
+ * Shared prototype of the results created by {@link ok} and {@link err}.
+ * Makes them iterable so they can be used with `yield*` inside a {@link gen} block. It lives in
+ * the prototype to keep the iterator out of the own properties of the result.
+ *
+ * @internal
+ */
+const ResultPrototype = {
+  *[Symbol.iterator](this: Result<Any, Any>): Generator<Any, Any, Any> {
+    return isOk(this) ? this.value : yield this;
+  },
+};
+
 /**
  * Creates a successful result with the given value.
  *
  * @typeParam T - The type of the value to wrap.
  * @param value - The value to wrap in a successful result.
- * @returns A new Ok instance containing the value, typed as `Result<T, never>`.
+ * @returns A new Ok instance containing the value, typed as `Result<T, never>` (iterable in a
+ * {@link gen} block).
  *
  * @public
  */
-function ok<T>(value: T): Result<T, never> {
-  return {
+function ok<T>(value: T): YieldableResult<T, never> {
+  return Object.assign(Object.create(ResultPrototype), {
     _id: 'Result',
     _tag: 'Ok',
     value,
-  };
+  });
 }
 
 /**
@@ -114,16 +143,17 @@ function ok<T>(value: T): Result<T, never> {
  *
  * @typeParam E - The type of the error. See {@link ResultError}.
  * @param error - The error to wrap in a failed result.
- * @returns A new Err instance containing the error, typed as `Result<never, E>`.
+ * @returns A new Err instance containing the error, typed as `Result<never, E>` (iterable in a
+ * {@link gen} block).
  *
  * @public
  */
-function err<E extends ResultErrorTypes>(error: E): Result<never, E> {
-  return {
+function err<E extends ResultErrorTypes>(error: E): YieldableResult<never, E> {
+  return Object.assign(Object.create(ResultPrototype), {
     _id: 'Result',
     _tag: 'Err',
     error,
-  };
+  });
 }
 
 /**
@@ -192,5 +222,669 @@ function isResult(result: unknown): result is Result<unknown, unknown> {
  */
 const unwrap = <T, E>(result: Result<T, E>) => (isOk(result) ? result.value : result.error);
 
-export type { Err, Ok, Result, ResultError };
-export { err, isErr, isOk, isResult, ok, unwrap };
+// *********************************************************************************************
+// Result combinators.
+// *********************************************************************************************
+
+/**
+ * Panic error for the result module.
+ *
+ * @public
+ */
+const ResultPanic = panic<
+  'Result',
+  // Raised when `expect` is called on a failed result.
+  'UnexpectedErr'
+>('Result');
+
+/**
+ * Creates a dual function that can be called in a data-first way (`fn(result, ...args)`) or in
+ * a data-last (pipeable) way (`fn(...args)(result)`).
+ *
+ * @remarks
+ * The call style is detected by the number of arguments given. If the number of arguments is
+ * greater than or equal to the arity, the function is called in a data-first way.
+ *
+ * @param arity - The number of arguments of the data-first signature.
+ * @param body - The data-first implementation.
+ * @returns The dual function.
+ *
+ * @internal
+ */
+const dual = <F>(arity: number, body: (...args: Any[]) => Any): F =>
+  ((...args: Any[]) =>
+    args.length >= arity ? body(...args) : (self: Any) => body(self, ...args)) as F;
+
+/**
+ * Overloads for the {@link map} combinator.
+ *
+ * @internal
+ */
+interface Map {
+  <T, E, U>(result: Result<T, E>, fn: (value: T) => U): Result<U, E>;
+  <T, U>(fn: (value: T) => U): <E>(result: Result<T, E>) => Result<U, E>;
+}
+
+/**
+ * Overloads for the {@link mapErr} combinator.
+ *
+ * @internal
+ */
+interface MapErr {
+  <T, E, F>(result: Result<T, E>, fn: (error: E) => F): Result<T, F>;
+  <E, F>(fn: (error: E) => F): <T>(result: Result<T, E>) => Result<T, F>;
+}
+
+/**
+ * Overloads for the {@link andThen} combinator.
+ *
+ * @internal
+ */
+interface AndThen {
+  <T, E, U, F>(result: Result<T, E>, fn: (value: T) => Result<U, F>): Result<U, E | F>;
+  <T, U, F>(fn: (value: T) => Result<U, F>): <E>(result: Result<T, E>) => Result<U, E | F>;
+}
+
+/**
+ * Overloads for the {@link orElse} combinator.
+ *
+ * @internal
+ */
+interface OrElse {
+  <T, E, U, F>(result: Result<T, E>, fn: (error: E) => Result<U, F>): Result<T | U, F>;
+  <E, U, F>(fn: (error: E) => Result<U, F>): <T>(result: Result<T, E>) => Result<T | U, F>;
+}
+
+/**
+ * Overloads for the {@link match} combinator.
+ *
+ * @internal
+ */
+interface Match {
+  <T, E, A, B>(
+    result: Result<T, E>,
+    cases: { onOk: (value: T) => A; onErr: (error: E) => B },
+  ): A | B;
+  <T, E, A, B>(cases: {
+    onOk: (value: T) => A;
+    onErr: (error: E) => B;
+  }): (result: Result<T, E>) => A | B;
+}
+
+/**
+ * Overloads for the {@link tapOk} combinator.
+ *
+ * @internal
+ */
+interface TapOk {
+  <T, E>(result: Result<T, E>, fn: (value: T) => void): Result<T, E>;
+  <T>(fn: (value: T) => void): <E>(result: Result<T, E>) => Result<T, E>;
+}
+
+/**
+ * Overloads for the {@link tapErr} combinator.
+ *
+ * @internal
+ */
+interface TapErr {
+  <T, E>(result: Result<T, E>, fn: (error: E) => void): Result<T, E>;
+  <E>(fn: (error: E) => void): <T>(result: Result<T, E>) => Result<T, E>;
+}
+
+/**
+ * Overloads for the {@link unwrapOr} combinator.
+ *
+ * @internal
+ */
+interface UnwrapOr {
+  <T, E, U>(result: Result<T, E>, fallback: U): T | U;
+  <U>(fallback: U): <T, E>(result: Result<T, E>) => T | U;
+}
+
+/**
+ * Overloads for the {@link unwrapOrElse} combinator.
+ *
+ * @internal
+ */
+interface UnwrapOrElse {
+  <T, E, U>(result: Result<T, E>, fn: (error: E) => U): T | U;
+  <E, U>(fn: (error: E) => U): <T>(result: Result<T, E>) => T | U;
+}
+
+/**
+ * Overloads for the {@link expect} combinator.
+ *
+ * @internal
+ */
+interface Expect {
+  <T, E>(result: Result<T, E>, message: string): T;
+  (message: string): <T, E>(result: Result<T, E>) => T;
+}
+
+/**
+ * Transforms the value of a successful result. Failed results are returned unchanged.
+ * Can be used in a data-first way or as a pipeable function.
+ *
+ * @param result - The result to transform.
+ * @param fn - The function to apply to the success value.
+ * @returns A new result with the transformed value or the original error.
+ *
+ * @public
+ */
+const map: Map = dual(2, (result: Result<Any, Any>, fn: (value: Any) => Any) =>
+  isOk(result) ? ok(fn(result.value)) : result,
+);
+
+/**
+ * Transforms the error of a failed result. Successful results are returned unchanged.
+ * Can be used in a data-first way or as a pipeable function.
+ *
+ * @param result - The result to transform.
+ * @param fn - The function to apply to the error.
+ * @returns A new result with the transformed error or the original value.
+ *
+ * @public
+ */
+const mapErr: MapErr = dual(2, (result: Result<Any, Any>, fn: (error: Any) => Any) =>
+  isErr(result) ? err(fn(result.error)) : result,
+);
+
+/**
+ * Chains a function that returns a result over the value of a successful result.
+ * Failed results are returned unchanged, short-circuiting the chain.
+ * Can be used in a data-first way or as a pipeable function.
+ *
+ * @param result - The result to chain.
+ * @param fn - The function to apply to the success value. Must return a result.
+ * @returns The result returned by the function or the original error.
+ *
+ * @public
+ */
+const andThen: AndThen = dual(
+  2,
+  (result: Result<Any, Any>, fn: (value: Any) => Result<Any, Any>) =>
+    isOk(result) ? fn(result.value) : result,
+);
+
+/**
+ * Chains a function that returns a result over the error of a failed result.
+ * Useful to recover from errors. Successful results are returned unchanged.
+ * Can be used in a data-first way or as a pipeable function.
+ *
+ * @param result - The result to recover.
+ * @param fn - The function to apply to the error. Must return a result.
+ * @returns The result returned by the function or the original value.
+ *
+ * @public
+ */
+const orElse: OrElse = dual(2, (result: Result<Any, Any>, fn: (error: Any) => Result<Any, Any>) =>
+  isErr(result) ? fn(result.error) : result,
+);
+
+/**
+ * Folds a result into a single value by handling both the success and the error cases.
+ * Can be used in a data-first way or as a pipeable function.
+ *
+ * @param result - The result to fold.
+ * @param cases - An object containing `onOk` and `onErr` functions to handle both cases.
+ * @returns The value returned by the matching case.
+ *
+ * @public
+ */
+const match: Match = dual(
+  2,
+  (result: Result<Any, Any>, cases: { onOk: (value: Any) => Any; onErr: (error: Any) => Any }) =>
+    isOk(result) ? cases.onOk(result.value) : cases.onErr(result.error),
+);
+
+/**
+ * Executes a side-effect function with the value of a successful result.
+ * The result is always returned unchanged.
+ * Can be used in a data-first way or as a pipeable function.
+ *
+ * @param result - The result to inspect.
+ * @param fn - The side-effect function. Return value is ignored.
+ * @returns The same result.
+ *
+ * @public
+ */
+const tapOk: TapOk = dual(
+  2,
+  (result: Result<Any, Any>, fn: (value: Any) => void) => (
+    isOk(result) && fn(result.value),
+    result
+  ),
+);
+
+/**
+ * Executes a side-effect function with the error of a failed result.
+ * The result is always returned unchanged.
+ * Can be used in a data-first way or as a pipeable function.
+ *
+ * @param result - The result to inspect.
+ * @param fn - The side-effect function. Return value is ignored.
+ * @returns The same result.
+ *
+ * @public
+ */
+const tapErr: TapErr = dual(
+  2,
+  (result: Result<Any, Any>, fn: (error: Any) => void) => (
+    isErr(result) && fn(result.error),
+    result
+  ),
+);
+
+/**
+ * Extracts the value of a successful result or returns the given fallback value.
+ * Can be used in a data-first way or as a pipeable function.
+ *
+ * @param result - The result to unwrap.
+ * @param fallback - The value to return if the result is failed.
+ * @returns The success value or the fallback value.
+ *
+ * @public
+ */
+const unwrapOr: UnwrapOr = dual(2, (result: Result<Any, Any>, fallback: Any) =>
+  isOk(result) ? result.value : fallback,
+);
+
+/**
+ * Extracts the value of a successful result or computes a fallback value from the error.
+ * Can be used in a data-first way or as a pipeable function.
+ *
+ * @param result - The result to unwrap.
+ * @param fn - The function that computes the fallback value from the error.
+ * @returns The success value or the computed fallback value.
+ *
+ * @public
+ */
+const unwrapOrElse: UnwrapOrElse = dual(2, (result: Result<Any, Any>, fn: (error: Any) => Any) =>
+  isOk(result) ? result.value : fn(result.error),
+);
+
+/**
+ * Extracts the value of a successful result or throws a panic with the given message.
+ * Use it only when a failed result means the application is in an invalid state.
+ * Can be used in a data-first way or as a pipeable function.
+ *
+ * @param result - The result to unwrap.
+ * @param message - The message of the panic if the result is failed.
+ * @returns The success value.
+ * @throws A {@link ResultPanic} if the result is failed.
+ *
+ * @public
+ */
+const expect: Expect = dual(2, (result: Result<Any, Any>, message: string) => {
+  if (isOk(result)) {
+    return result.value;
+  }
+
+  throw new ResultPanic('UnexpectedErr', `${message}: ${JSON.stringify(result.error)}`);
+});
+
+// *********************************************************************************************
+// Result collection combinators.
+// *********************************************************************************************
+
+/**
+ * A collection of results. Can be an array (or tuple) of results or a record of results.
+ *
+ * @internal
+ */
+type ResultCollection = readonly Result<Any, Any>[] | Record<string, Result<Any, Any>>;
+
+/**
+ * Extracts the success value type of a result.
+ *
+ * @typeParam R - The result type.
+ *
+ * @public
+ */
+type OkValue<R> = R extends Ok<infer T> ? T : never;
+
+/**
+ * Extracts the error type of a result.
+ *
+ * @typeParam R - The result type.
+ *
+ * @public
+ */
+type ErrValue<R> = R extends Err<infer E> ? E : never;
+
+/**
+ * The union of all the results of a collection.
+ *
+ * @typeParam C - The result collection type.
+ *
+ * @public
+ */
+type CollectionItem<C> = C extends readonly Any[] ? C[number] : C[keyof C];
+
+/**
+ * The success values of a collection, preserving the tuple or record shape.
+ *
+ * @typeParam C - The result collection type.
+ *
+ * @public
+ */
+type CollectionValues<C> = { -readonly [K in keyof C]: OkValue<C[K]> };
+
+/**
+ * The errors of a collection where every result may fail.
+ * Arrays collect the errors in a list and records collect the errors by key.
+ *
+ * @typeParam C - The result collection type.
+ *
+ * @public
+ */
+type CollectionErrors<C> = C extends readonly Any[]
+  ? ErrValue<CollectionItem<C>>[]
+  : Partial<{ -readonly [K in keyof C]: ErrValue<C[K]> }>;
+
+/**
+ * The result of partitioning a collection into its success values and its errors.
+ *
+ * @typeParam C - The result collection type.
+ *
+ * @public
+ */
+type CollectionPartition<C> = C extends readonly Any[]
+  ? { oks: OkValue<CollectionItem<C>>[]; errs: ErrValue<CollectionItem<C>>[] }
+  : {
+      oks: Partial<{ -readonly [K in keyof C]: OkValue<C[K]> }>;
+      errs: Partial<{ -readonly [K in keyof C]: ErrValue<C[K]> }>;
+    };
+
+/**
+ * Creates an empty accumulator with the same shape as the given collection.
+ *
+ * @param collection - The result collection.
+ * @returns An empty array or an empty record.
+ *
+ * @internal
+ */
+const emptyOf = (collection: ResultCollection): Record<string, Any> =>
+  Array.isArray(collection) ? [] : {};
+
+/**
+ * Adds an entry to an accumulator. Arrays are appended and records are assigned by key.
+ *
+ * @param acc - The accumulator.
+ * @param key - The key of the entry.
+ * @param value - The value of the entry.
+ *
+ * @internal
+ */
+const accumulate = (acc: Record<string, Any>, key: string, value: Any) => {
+  if (Array.isArray(acc)) {
+    acc.push(value);
+  } else {
+    acc[key] = value;
+  }
+};
+
+/**
+ * Collapses a collection of results into a single result.
+ * Returns the first error found or the success values preserving the tuple or record shape.
+ *
+ * @typeParam C - The result collection type.
+ * @param collection - The array, tuple or record of results.
+ * @returns A result with all the success values or the first error.
+ *
+ * @public
+ */
+const all = <const C extends ResultCollection>(
+  collection: C,
+): Result<CollectionValues<C>, ErrValue<CollectionItem<C>>> => {
+  const values = emptyOf(collection);
+
+  for (const [key, result] of Object.entries(collection) as [string, Result<Any, Any>][]) {
+    if (isErr(result)) {
+      return result;
+    }
+
+    values[key] = result.value;
+  }
+
+  return ok(values as CollectionValues<C>);
+};
+
+/**
+ * Collapses a collection of results into a single result, accumulating every error.
+ * Arrays return the list of errors and records return the errors keyed by the failing key.
+ *
+ * @typeParam C - The result collection type.
+ * @param collection - The array, tuple or record of results.
+ * @returns A result with all the success values or all the errors.
+ *
+ * @public
+ */
+const allSettled = <const C extends ResultCollection>(
+  collection: C,
+): Result<CollectionValues<C>, CollectionErrors<C>> => {
+  const values = emptyOf(collection);
+  const errors = emptyOf(collection);
+  let hasErrors = false;
+
+  for (const [key, result] of Object.entries(collection) as [string, Result<Any, Any>][]) {
+    if (isErr(result)) {
+      accumulate(errors, key, result.error);
+      hasErrors = true;
+    } else {
+      values[key] = result.value;
+    }
+  }
+
+  return hasErrors ? err(errors as Any) : ok(values as CollectionValues<C>);
+};
+
+/**
+ * Returns the first successful result of a collection.
+ * If no result is successful, returns all the errors with the shape of the collection.
+ *
+ * @typeParam C - The result collection type.
+ * @param collection - The array, tuple or record of results.
+ * @returns The first successful result or all the errors.
+ *
+ * @public
+ */
+const any = <const C extends ResultCollection>(
+  collection: C,
+): Result<
+  OkValue<CollectionItem<C>>,
+  C extends readonly Any[]
+    ? ErrValue<CollectionItem<C>>[]
+    : { -readonly [K in keyof C]: ErrValue<C[K]> }
+> => {
+  const errors = emptyOf(collection);
+
+  for (const [key, result] of Object.entries(collection) as [string, Result<Any, Any>][]) {
+    if (isOk(result)) {
+      return result;
+    }
+
+    accumulate(errors, key, result.error);
+  }
+
+  return err(errors as Any);
+};
+
+/**
+ * Splits a collection of results into its success values and its errors.
+ * Arrays are split into two lists and records are split into two records keeping the keys.
+ *
+ * @typeParam C - The result collection type.
+ * @param collection - The array, tuple or record of results.
+ * @returns An object with the success values (`oks`) and the errors (`errs`).
+ *
+ * @public
+ */
+const partition = <const C extends ResultCollection>(collection: C): CollectionPartition<C> => {
+  const oks = emptyOf(collection);
+  const errs = emptyOf(collection);
+
+  for (const [key, result] of Object.entries(collection) as [string, Result<Any, Any>][]) {
+    if (isOk(result)) {
+      accumulate(oks, key, result.value);
+    } else {
+      accumulate(errs, key, result.error);
+    }
+  }
+
+  return { oks, errs } as CollectionPartition<C>;
+};
+
+// *********************************************************************************************
+// Generator-based composition.
+// *********************************************************************************************
+
+/**
+ * Unwraps a result inside a {@link gen} block with `yield*`: gives the value of an `Ok` or
+ * short-circuits the block with an `Err`. Needed for the results that are not iterable (e.g. a
+ * structured clone, a plain object or a value typed as {@link Result}).
+ *
+ * @public
+ */
+type GenAdapter = <T, E>(result: Result<T, E>) => Generator<Err<E>, T, Any>;
+
+/**
+ * Overloads for the {@link gen} function.
+ *
+ * @internal
+ */
+interface Gen {
+  <Y extends Err<Any>, T>(fn: ($: GenAdapter) => Generator<Y, T, Any>): Result<T, ErrValue<Y>>;
+  <Y extends Err<Any>, T>(
+    fn: ($: GenAdapter) => AsyncGenerator<Y, T, Any>,
+  ): Promise<Result<T, ErrValue<Y>>>;
+}
+
+/**
+ * The adapter of the {@link gen} blocks. Any result is accepted (e.g. a structured clone), since
+ * it is only checked by its tag.
+ *
+ * @param result - The result to unwrap.
+ * @returns The value of the result, once the block is resumed.
+ *
+ * @internal
+ */
+const genAdapter: GenAdapter = function* (result) {
+  return isOk(result) ? result.value : yield result;
+};
+
+/**
+ * Settles the first step of a generator block.
+ * A finished generator means every result was successful, so the returned value is wrapped in an
+ * `Ok`. Otherwise, the yielded `Err` short-circuits the block and the generator is closed to run
+ * any pending `finally` clause.
+ *
+ * @param iterator - The generator of the block.
+ * @param step - The first step of the generator.
+ * @returns The result of the block.
+ *
+ * @internal
+ */
+const settleGen = (
+  iterator: Generator<Any, Any, Any>,
+  step: IteratorResult<Any, Any>,
+): Result<Any, Any> => {
+  if (step.done) {
+    return ok(step.value);
+  }
+
+  iterator.return(undefined);
+  return step.value;
+};
+
+/**
+ * Async version of {@link settleGen}.
+ *
+ * @param iterator - The async generator of the block.
+ * @param step - The promise of the first step of the generator.
+ * @returns A promise with the result of the block.
+ *
+ * @internal
+ */
+const settleAsyncGen = async (
+  iterator: AsyncGenerator<Any, Any, Any>,
+  step: Promise<IteratorResult<Any, Any>>,
+): Promise<Result<Any, Any>> => {
+  const { done, value } = await step;
+  if (done) {
+    return ok(value);
+  }
+
+  await iterator.return(undefined);
+  return value;
+};
+
+/**
+ * Runs a generator block where results are unwrapped with `yield*`, giving an imperative
+ * do-notation over results. The block short-circuits on the first `Err`, and the value returned by
+ * the block is wrapped in an `Ok`.
+ *
+ * @remarks
+ * The results created by {@link ok} and {@link err} are yielded directly (`yield* result`). Any
+ * other result (e.g. a structured clone or a value typed as {@link Result}) is yielded through the
+ * adapter received by the block (`yield* $(result)`).
+ * The error type is inferred as the union of the errors of every yielded result.
+ * Async generators are supported too, awaiting the results with `yield* await promise`. In that
+ * case a promise of the result is returned.
+ *
+ * @typeParam Y - The type of the yielded errors.
+ * @typeParam T - The type of the value returned by the block.
+ * @param fn - The generator function of the block. Receives the adapter to unwrap the results.
+ * @returns The result of the block (or a promise of it for async generators).
+ *
+ * @public
+ */
+const gen: Gen = (
+  fn: ($: GenAdapter) => Generator<Any, Any, Any> | AsyncGenerator<Any, Any, Any>,
+): Any => {
+  const iterator = fn(genAdapter);
+  const step = iterator.next();
+
+  return step instanceof Promise
+    ? settleAsyncGen(iterator as AsyncGenerator<Any, Any, Any>, step)
+    : settleGen(iterator as Generator<Any, Any, Any>, step as IteratorResult<Any, Any>);
+};
+
+export type {
+  CollectionErrors,
+  CollectionItem,
+  CollectionPartition,
+  CollectionValues,
+  Err,
+  ErrValue,
+  GenAdapter,
+  Ok,
+  OkValue,
+  Result,
+  ResultError,
+  YieldableResult,
+};
+export {
+  all,
+  allSettled,
+  andThen,
+  any,
+  err,
+  expect,
+  gen,
+  isErr,
+  isOk,
+  isResult,
+  map,
+  mapErr,
+  match,
+  ok,
+  orElse,
+  partition,
+  ResultPanic,
+  tapErr,
+  tapOk,
+  unwrap,
+  unwrapOr,
+  unwrapOrElse,
+};
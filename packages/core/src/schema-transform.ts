@@ -0,0 +1,198 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { fieldsOf } from './_item';
+import type { ItemError, ItemValue } from './collection';
+import type { Any } from './generics';
+import { type AsyncOptionalValue, type OptionalValue, modifierOf, optional } from './modifier';
+import { type AnySchema, type Schema, type UnknownKeysPolicy, schema } from './schema';
+import type { Value } from './value';
+
+/**
+ * The fields of a schema with every field made optional.
+ * Fields that are already optional are kept as they are.
+ *
+ * @typeParam F - The schema fields.
+ *
+ * @public
+ */
+type PartialFields<F> = {
+  [K in keyof F]: F[K] extends OptionalValue<Any, Any, Any> | AsyncOptionalValue<Any, Any, Any>
+    ? F[K]
+    : F[K] extends { readonly async: true }
+      ? AsyncOptionalValue<ItemValue<F[K]>, ItemError<F[K]>, F[K]>
+      : OptionalValue<ItemValue<F[K]>, ItemError<F[K]>, F[K]>;
+};
+
+/**
+ * The fields of a schema with every optional field made required.
+ *
+ * @typeParam F - The schema fields.
+ *
+ * @public
+ */
+type RequiredFields<F> = {
+  [K in keyof F]: F[K] extends
+    OptionalValue<Any, Any, infer V> | AsyncOptionalValue<Any, Any, infer V>
+    ? V
+    : F[K];
+};
+
+/**
+ * The fields of two schemas, where the fields of the second one replace the fields of the first
+ * one with the same key.
+ *
+ * @typeParam A - The fields of the first schema.
+ * @typeParam B - The fields of the second schema.
+ *
+ * @public
+ */
+type MergedFields<A, B> = {
+  [K in keyof A | keyof B]: K extends keyof B ? B[K] : K extends keyof A ? A[K] : never;
+};
+
+/**
+ * Creates a new schema with only the given fields of a schema.
+ *
+ * @typeParam F - The schema fields.
+ * @typeParam P - The unknown keys policy of the schema.
+ * @typeParam K - The keys of the fields to keep.
+ * @param source - The schema to derive from.
+ * @param keys - The keys of the fields to keep.
+ * @returns A new schema with the same field values as children.
+ *
+ * @public
+ */
+const pick = <F, P extends UnknownKeysPolicy, const K extends keyof F & string>(
+  source: Schema<F, P, Any>,
+  ...keys: K[]
+) =>
+  schema(
+    Object.fromEntries(Object.entries(fieldsOf(source)).filter(([key]) => keys.includes(key as K))),
+    { unknownKeys: source.unknownKeys },
+  ) as Any as Schema<Pick<F, K>, P>;
+
+/**
+ * Creates a new schema without the given fields of a schema.
+ *
+ * @typeParam F - The schema fields.
+ * @typeParam P - The unknown keys policy of the schema.
+ * @typeParam K - The keys of the fields to remove.
+ * @param source - The schema to derive from.
+ * @param keys - The keys of the fields to remove.
+ * @returns A new schema with the same field values as children.
+ *
+ * @public
+ */
+const omit = <F, P extends UnknownKeysPolicy, const K extends keyof F & string>(
+  source: Schema<F, P, Any>,
+  ...keys: K[]
+) =>
+  schema(
+    Object.fromEntries(
+      Object.entries(fieldsOf(source)).filter(([key]) => !keys.includes(key as K)),
+    ),
+    { unknownKeys: source.unknownKeys },
+  ) as Any as Schema<Omit<F, K>, P>;
+
+/**
+ * Creates a new schema where every field of a schema is optional (e.g. for update DTOs).
+ * The optional fields of the async fields are async, so the schema of an async schema is async.
+ * See {@link optional}.
+ *
+ * @typeParam F - The schema fields.
+ * @typeParam P - The unknown keys policy of the schema.
+ * @param source - The schema to derive from.
+ * @returns A new schema with the optional field values as children.
+ *
+ * @public
+ */
+const partial = <F, P extends UnknownKeysPolicy>(source: Schema<F, P, Any>) =>
+  schema(
+    Object.fromEntries(
+      Object.entries(fieldsOf(source)).map(([key, field]) => [
+        key,
+        modifierOf(field) === 'optional' ? field : optional(field),
+      ]),
+    ),
+    { unknownKeys: source.unknownKeys },
+  ) as Any as Schema<PartialFields<F>, P>;
+
+/**
+ * Creates a new schema where every optional field of a schema is required.
+ * It reverts {@link partial}, using the original field values again.
+ *
+ * @typeParam F - The schema fields.
+ * @typeParam P - The unknown keys policy of the schema.
+ * @param source - The schema to derive from.
+ * @returns A new schema with the required field values as children.
+ *
+ * @public
+ */
+const required = <F, P extends UnknownKeysPolicy>(source: Schema<F, P, Any>) =>
+  schema(
+    Object.fromEntries(
+      Object.entries(fieldsOf(source)).map(([key, field]) => [
+        key,
+        modifierOf(field) === 'optional' ? (field as OptionalValue<Any, Any, Any>).inner : field,
+      ]),
+    ),
+    { unknownKeys: source.unknownKeys },
+  ) as Any as Schema<RequiredFields<F>, P>;
+
+/**
+ * Creates a new schema with the fields of a schema and the given fields.
+ * The given fields replace the fields of the schema with the same key.
+ *
+ * @typeParam F - The schema fields.
+ * @typeParam P - The unknown keys policy of the schema.
+ * @typeParam G - The new fields.
+ * @param source - The schema to derive from.
+ * @param fields - The new fields (values or schemas).
+ * @returns A new schema with the field values of both as children.
+ *
+ * @public
+ */
+const extend = <
+  F,
+  P extends UnknownKeysPolicy,
+  G extends Record<string, Value<Any, Any> | AnySchema>,
+>(
+  source: Schema<F, P, Any>,
+  fields: G,
+) =>
+  schema({ ...fieldsOf(source), ...fields }, { unknownKeys: source.unknownKeys }) as Any as Schema<
+    MergedFields<F, G>,
+    P
+  >;
+
+/**
+ * Creates a new schema with the fields of two schemas.
+ * The fields of the second schema replace the fields of the first one with the same key, and the
+ * unknown keys policy of the first schema is kept.
+ *
+ * @typeParam A - The fields of the first schema.
+ * @typeParam B - The fields of the second schema.
+ * @typeParam P - The unknown keys policy of the first schema.
+ * @param first - The first schema.
+ * @param second - The second schema.
+ * @returns A new schema with the field values of both as children.
+ *
+ * @public
+ */
+const merge = <A, B, P extends UnknownKeysPolicy>(
+  first: Schema<A, P, Any>,
+  second: Schema<B, Any, Any>,
+) =>
+  schema(
+    { ...fieldsOf(first), ...fieldsOf(second) },
+    { unknownKeys: first.unknownKeys },
+  ) as Any as Schema<MergedFields<A, B>, P>;
+
+export type { MergedFields, PartialFields, RequiredFields };
+export { extend, merge, omit, partial, pick, required };
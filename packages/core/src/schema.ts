@@ -9,20 +9,83 @@
 import { config } from './_config';
 import type { ApplyErrorMode, ErrorMode } from './_err';
 import { type Component, component, isComponent } from './component';
+import { type DefinedError, defineError } from './error';
 import type { Any, Prettify } from './generics';
+import type { Modifier } from './modifier';
 import { panic } from './panic';
-import { type Result, err, isOk, ok } from './result';
-import { type Value, isValue } from './value';
+import { type Result, err, isErr, isOk, ok } from './result';
+import { type AsyncValue, type Value, isAsync, isValue } from './value';
+
+/**
+ * Base shape of any schema, used to accept schemas as fields of other schemas or as items of
+ * collections.
+ *
+ * @public
+ */
+type AnySchema = Component<'Schema', (value: Any, mode?: Any) => Result<Any, Any>>;
+
+/**
+ * Base shape of any schema with async fields. See {@link AsyncValue}.
+ *
+ * @public
+ */
+type AnyAsyncSchema = Component<'Schema', (value: Any, mode?: Any) => Promise<Result<Any, Any>>>;
+
+/**
+ * The policy applied to the input keys that are not declared as schema fields.
+ * - `'strip'`: The unknown keys are removed from the output (default).
+ * - `'strict'`: The unknown keys are rejected with an {@link UnknownKeys} error.
+ * - `'passthrough'`: The unknown keys are kept in the output, without validation.
+ *
+ * @public
+ */
+type UnknownKeysPolicy = 'strip' | 'strict' | 'passthrough';
+
+/**
+ * Options for the {@link schema} function.
+ *
+ * @typeParam P - The unknown keys policy.
+ *
+ * @public
+ */
+type SchemaOptions<P extends UnknownKeysPolicy> = {
+  /** The policy for the input keys that are not declared as fields (default: `'strip'`). */
+  unknownKeys?: P;
+};
+
+/**
+ * Error returned by a schema with the `'strict'` policy when the input has unknown keys.
+ *
+ * @public
+ */
+type UnknownKeys = DefinedError<'UnknownKeysError', 'Schema', 'unknownKeys', { keys: string[] }>;
+
+/**
+ * The errors added to a schema by its unknown keys policy.
+ *
+ * @typeParam P - The unknown keys policy.
+ *
+ * @public
+ */
+type PolicyErrors<P> = 'strict' extends P ? UnknownKeys : never;
 
 /**
  * A schema is a record of field names and their corresponding validation functions.
+ * A field can be a value or another schema (nested schema).
+ *
+ * @internal
+ */
+type SchemaFields = Record<string, SchemaField>;
+
+/**
+ * A field of a schema: a sync or async value, or a nested schema.
  *
  * @internal
  */
-type SchemaFields = Record<string, Value<Any, Any>>;
+type SchemaField = Value<Any, Any, Any> | AsyncValue<Any, Any, Any> | AnySchema | AnyAsyncSchema;
 
 /**
- * Type constraint to ensure all properties in a record are Value types.
+ * Type constraint to ensure all properties in a record are Value or Schema types.
  * This preserves type inference while enforcing the constraint.
  *
  * @typeParam T - The record type to validate.
@@ -30,44 +93,165 @@ type SchemaFields = Record<string, Value<Any, Any>>;
  * @internal
  */
 type EnsureAllValues<T> = Prettify<{
-  [K in keyof T]: T[K] extends Value<Any, Any> ? T[K] : never;
+  [K in keyof T]: T[K] extends SchemaField ? T[K] : never;
 }>;
 
+/**
+ * A field wrapped with one of the given modifiers. See {@link Modifier}.
+ *
+ * @typeParam M - The modifiers.
+ *
+ * @internal
+ */
+type ModifiedWith<M extends Modifier> = { readonly modifier: M };
+
+/**
+ * The keys of the schema fields that match the given field type.
+ *
+ * @typeParam S - The schema fields.
+ * @typeParam M - The field type to match.
+ *
+ * @internal
+ */
+type KeysOf<S, M> = { [K in keyof S]: S[K] extends M ? K : never }[keyof S];
+
 /**
  * The type of the values of the schema.
+ * Nested schemas are resolved recursively and optional values produce optional keys.
  *
  * @typeParam S - The schema fields.
  *
  * @public
  */
-type SchemaValues<S> = Prettify<{
-  [K in keyof S]: S[K] extends Value<infer T, Any> ? T : never;
-}>;
+type SchemaValues<S> = Prettify<FieldValues<S, 'output', ModifiedWith<'optional'>>>;
+
+/**
+ * The type of the input of the schema.
+ * Unlike {@link SchemaValues}, the keys of values with a default are also optional.
+ *
+ * @typeParam S - The schema fields.
+ *
+ * @public
+ */
+type SchemaInput<S> = Prettify<FieldValues<S, 'input', ModifiedWith<'optional' | 'default'>>>;
+
+/**
+ * The values of the schema fields, with optional keys for the fields of the given type.
+ *
+ * @typeParam S - The schema fields.
+ * @typeParam Side - Whether to resolve the input or the output type.
+ * @typeParam O - The type of the fields with optional keys.
+ *
+ * @internal
+ */
+type FieldValues<S, Side extends 'input' | 'output', O> = {
+  [K in Exclude<keyof S, KeysOf<S, O>>]: FieldValue<S[K], Side>;
+} & {
+  [K in KeysOf<S, O>]?: FieldValue<S[K], Side>;
+};
+
+/**
+ * The type of the value of a schema field, either as input or as output.
+ *
+ * @typeParam F - The schema field.
+ * @typeParam Side - Whether to resolve the input or the output type.
+ *
+ * @internal
+ */
+type FieldValue<F, Side extends 'input' | 'output'> =
+  F extends Schema<infer N, Any, Any>
+    ? Side extends 'input'
+      ? SchemaInput<N>
+      : SchemaValues<N>
+    : F extends Value<infer T, Any, infer In>
+      ? Side extends 'input'
+        ? In
+        : T
+      : F extends AsyncValue<infer T, Any, infer In>
+        ? Side extends 'input'
+          ? In
+          : T
+        : never;
+
+/**
+ * A refinement error attached to a field of a schema. See {@link SchemaFunction.refine}.
+ *
+ * @typeParam K - The keys of the fields the error can be attached to.
+ * @typeParam E - The type of the error.
+ *
+ * @public
+ */
+type Refinement<K extends string, E> = { path: K; error: E };
+
+/**
+ * The errors of the refinements attached to the given field.
+ *
+ * @typeParam R - The refinements of the schema.
+ * @typeParam K - The field key.
+ *
+ * @internal
+ */
+type RefinementErrors<R, K> =
+  R extends Refinement<infer Q, infer E> ? (K extends Q ? E : never) : never;
 
 /**
  * The type of the errors of the schema.
  * Uses the centralized error mode concept from {@link ErrorMode}.
+ * Nested schemas produce nested error records, so every error is keyed by its path.
  *
  * @typeParam S - The schema fields.
  * @typeParam Mode - The error mode.
+ * @typeParam R - The refinements of the schema (none by default).
  *
  * @public
  */
-type SchemaErrors<S, Mode extends ErrorMode> = Prettify<{
-  [K in keyof S]: S[K] extends Value<Any, infer E> ? ApplyErrorMode<E, Mode> : never;
+type SchemaErrors<S, Mode extends ErrorMode, R = never> = Prettify<{
+  [K in keyof S]: S[K] extends Schema<infer F, infer P, infer NR>
+    ? | SchemaErrors<F, Mode, NR>
+      | PolicyErrors<P>
+      | ([RefinementErrors<R, K>] extends [never]
+          ? never
+          : ApplyErrorMode<RefinementErrors<R, K>, Mode>)
+    : S[K] extends Value<Any, infer E, Any> | AsyncValue<Any, infer E, Any>
+      ? ApplyErrorMode<E | RefinementErrors<R, K>, Mode>
+      : never;
 }>;
 
+/**
+ * The result of a schema, wrapped in a promise when the schema is async.
+ *
+ * @typeParam A - Whether the schema is async.
+ * @typeParam T - The result type.
+ *
+ * @internal
+ */
+type MaybeAsync<A, T> = A extends true ? Promise<T> : T;
+
+/**
+ * Whether a schema has async fields (values or nested schemas).
+ *
+ * @typeParam F - The schema fields.
+ *
+ * @internal
+ */
+type HasAsyncFields<F> = true extends {
+  [K in keyof F]: F[K] extends { readonly async: true } ? true : never;
+}[keyof F]
+  ? true
+  : false;
+
 /**
  * This function ensures to executes all value validators defined in the schema.
  * The result is a record of the values and errors.
  * Uses the centralized error mode concept from {@link ErrorMode}.
  *
  * @typeParam F - The schema fields.
- * @typeParam V - The schema values.
+ * @typeParam P - The unknown keys policy.
+ * @typeParam R - The refinements of the schema.
  *
  * @internal
  */
-type SchemaFunction<F, V = SchemaValues<F>> = {
+type SchemaFunction<F, P extends UnknownKeysPolicy, R> = {
   /**
    * Validates the schema with the given value and optional error mode.
    *
@@ -76,13 +260,56 @@ type SchemaFunction<F, V = SchemaValues<F>> = {
    * - `'all'`: Collects all errors and returns an object with the details of each field error.
    * Use the {@link config.defaultErrorMode} to set the default error mode.
    *
+   * A schema with async fields returns a promise of the result.
+   *
    * @param value - The value to validate.
    * @param mode - The error mode to use for validation.
    * @returns A result containing the validated value or an error.
    */
-  <Mode extends ErrorMode = 'all'>(value: V, mode?: Mode): Result<V, SchemaErrors<F, Mode>>;
+  <Mode extends ErrorMode = 'all'>(
+    value: SchemaInput<F>,
+    mode?: Mode,
+  ): MaybeAsync<
+    HasAsyncFields<F>,
+    Result<SchemaValues<F>, SchemaErrors<F, Mode, R> | PolicyErrors<P>>
+  >;
+} & {
+  [K in keyof F]: F[K] extends SchemaField ? F[K] : never;
 } & {
-  [K in keyof F]: F[K] extends Value<Any, Any> ? F[K] : never;
+  /** Whether the schema has async fields, so it returns a promise of the result. */
+  readonly async: HasAsyncFields<F>;
+  /** Inferred input type of the schema (type only). */
+  readonly Input: SchemaInput<F>;
+  /** Inferred output type of the schema (type only). */
+  readonly Output: SchemaValues<F>;
+  /** The policy for the input keys that are not declared as fields. */
+  readonly unknownKeys: P;
+  /**
+   * Creates a new schema with a check of the validated values (e.g. two matching fields).
+   *
+   * @remarks
+   * The refinements run in order after the fields are valid. In `'strict'` mode, the first failing
+   * refinement stops the validation. The schemas derived with `pick`, `omit` and the other schema
+   * transforms do not keep the refinements.
+   *
+   * @param check - Returns an error when the validated values are not valid.
+   * @param options - The field the error is attached to.
+   * @returns A new schema with the refinement.
+   */
+  readonly refine: <K extends keyof F & string, E>(
+    check: (values: SchemaValues<F>) => Result<unknown, E>,
+    options: { path: K },
+  ) => Schema<F, P, R | Refinement<K, E>>;
+  /**
+   * Creates a new schema with a check of the validated values that can fail on several fields.
+   * See {@link SchemaFunction.refine}.
+   *
+   * @param check - Returns the errors by field when the validated values are not valid.
+   * @returns A new schema with the refinement.
+   */
+  readonly superRefine: <E, K extends keyof F & string = keyof F & string>(
+    check: (values: SchemaValues<F>) => Result<unknown, { [Q in K]?: E }>,
+  ) => Schema<F, P, R | Refinement<K, E>>;
 };
 
 /**
@@ -90,10 +317,15 @@ type SchemaFunction<F, V = SchemaValues<F>> = {
  * It follows the same pattern as Value, being both a function and an object with properties.
  *
  * @typeParam F - The schema fields type.
+ * @typeParam P - The unknown keys policy.
+ * @typeParam R - The refinements of the schema (none by default).
  *
  * @public
  */
-type Schema<F> = Component<'Schema', SchemaFunction<F>>;
+type Schema<F, P extends UnknownKeysPolicy = UnknownKeysPolicy, R = never> = Component<
+  'Schema',
+  SchemaFunction<F, P, R>
+>;
 
 /**
  * Panic error for the schema module.
@@ -103,37 +335,81 @@ type Schema<F> = Component<'Schema', SchemaFunction<F>>;
 const SchemaError = panic<'Schema', 'FieldIsNotValue'>('Schema');
 
 /**
- * Creates a schema from a set of fields.
- * Automatically adds the field value as a child of the schema.
+ * Factory of the {@link UnknownKeys} error.
+ *
+ * @public
+ */
+const UnknownKeys = defineError('UnknownKeysError', {
+  context: 'Schema',
+  origin: 'unknownKeys',
+  message: (details: { keys: string[] }) => `Unknown keys: ${details.keys.join(', ')}`,
+});
+
+/**
+ * Assigns a validated field to the output of the schema.
+ * Missing keys that are still `undefined` after the validation (optional values) are skipped.
+ *
+ * @param result - The output of the schema.
+ * @param input - The input of the schema.
+ * @param fieldName - The name of the field.
+ * @param fieldValue - The validated value of the field.
+ *
+ * @internal
+ */
+const assignField = (
+  result: Record<string, Any>,
+  input: Any,
+  fieldName: string,
+  fieldValue: Any,
+) => {
+  if (fieldValue !== undefined || Object.prototype.hasOwnProperty.call(input, fieldName)) {
+    result[fieldName] = fieldValue;
+  }
+};
+
+/**
+ * Checks the validated values of a schema, returning the errors by field.
+ *
+ * @internal
+ */
+type RefinementFunction = (values: Any) => Result<unknown, Record<string, Any>>;
+
+/**
+ * Builds a schema component with its unknown keys policy and refinements.
  *
- * @typeParam F - The schema fields type.
  * @param fields - The schema object containing field validators.
+ * @param unknownKeys - The unknown keys policy.
+ * @param refinements - The checks of the validated values.
  * @returns The schema function with field validators as properties.
  *
- * @public
+ * @internal
  */
-const schema = <F extends SchemaFields>(fields: EnsureAllValues<F>): Schema<F> => {
-  // Validate that all fields are values during schema creation.
+const buildSchema = (
+  fields: SchemaFields,
+  unknownKeys: UnknownKeysPolicy,
+  refinements: RefinementFunction[],
+): AnySchema => {
+  // Validate that all fields are values or schemas during schema creation.
   if (
     Object.values(fields).some((f) => {
-      return !isValue(f);
+      return !isValue(f) && !isSchema(f);
     })
   ) {
-    throw new SchemaError('FieldIsNotValue', 'All fields must be values.');
+    throw new SchemaError('FieldIsNotValue', 'All fields must be values or schemas.');
   }
 
-  // Create the main schema validation function.
-  const schemaValidator = (value: SchemaValues<F>, mode = config.defaultErrorMode) => {
+  // Validates the declared fields of the schema.
+  const fieldsValidator = (value: Record<string, Any>, mode: ErrorMode) => {
     if (mode === 'strict') {
       // Stop at first error mode - more performant for early validation.
       const result: Record<string, Any> = {};
 
       for (const fieldName of Object.keys(fields)) {
         const fieldFn = (fields as Record<string, Any>)[fieldName];
-        const fieldResult = fieldFn(value[fieldName as keyof typeof value], mode);
+        const fieldResult = fieldFn(value[fieldName], mode);
 
         if (isOk(fieldResult)) {
-          result[fieldName] = fieldResult.value;
+          assignField(result, value, fieldName, fieldResult.value);
         } else {
           // In strict mode, return immediately on first error.
           return err({ [fieldName]: fieldResult.error });
@@ -146,10 +422,10 @@ const schema = <F extends SchemaFields>(fields: EnsureAllValues<F>): Schema<F> =
       const { result, errors, hasErrors } = Object.keys(fields).reduce(
         (acc, fieldName) => {
           const fieldFn = (fields as Record<string, Any>)[fieldName];
-          const fieldResult = fieldFn(value[fieldName as keyof typeof value], mode);
+          const fieldResult = fieldFn(value[fieldName], mode);
 
           if (isOk(fieldResult)) {
-            acc.result[fieldName] = fieldResult.value;
+            assignField(acc.result, value, fieldName, fieldResult.value);
           } else {
             acc.errors[fieldName] = fieldResult.error;
             acc.hasErrors = true;
@@ -168,8 +444,133 @@ const schema = <F extends SchemaFields>(fields: EnsureAllValues<F>): Schema<F> =
     }
   };
 
+  // Validates the declared fields of an async schema, concurrently in all errors mode.
+  const asyncFieldsValidator = async (value: Record<string, Any>, mode: ErrorMode) => {
+    const result: Record<string, Any> = {};
+
+    if (mode === 'strict') {
+      for (const fieldName of Object.keys(fields)) {
+        const fieldFn = (fields as Record<string, Any>)[fieldName];
+        const fieldResult = await fieldFn(value[fieldName], mode);
+
+        if (isOk(fieldResult)) {
+          assignField(result, value, fieldName, fieldResult.value);
+        } else {
+          // In strict mode, return immediately on first error.
+          return err({ [fieldName]: fieldResult.error });
+        }
+      }
+
+      return ok(result);
+    }
+
+    const errors: Record<string, Any> = {};
+    const fieldResults = await Promise.all(
+      Object.entries(fields).map(async ([fieldName, fieldFn]) => ({
+        fieldName,
+        fieldResult: await (fieldFn as Any)(value[fieldName], mode),
+      })),
+    );
+
+    for (const { fieldName, fieldResult } of fieldResults) {
+      if (isOk(fieldResult)) {
+        assignField(result, value, fieldName, fieldResult.value);
+      } else {
+        errors[fieldName] = fieldResult.error;
+      }
+    }
+
+    return Object.keys(errors).length > 0 ? err(errors) : ok(result);
+  };
+
+  // Checks the validated values with the refinements, attaching the errors to their fields.
+  const refinementsValidator = (values: Record<string, Any>, mode: ErrorMode) => {
+    const errors: Record<string, Any[]> = {};
+
+    for (const refinement of refinements) {
+      const refined = refinement(values);
+      if (isOk(refined)) {
+        continue;
+      }
+
+      for (const [path, error] of Object.entries(refined.error)) {
+        // In strict mode, return immediately on first error.
+        if (mode === 'strict') {
+          return err({ [path]: error });
+        }
+
+        errors[path] = [...(errors[path] ?? []), error];
+      }
+    }
+
+    return Object.keys(errors).length > 0 ? err(errors) : ok(values);
+  };
+
+  // Completes the validated fields with the unknown keys and the refinements.
+  const complete = (
+    value: Record<string, Any>,
+    unknown: string[],
+    result: Result<Record<string, Any>, Any>,
+    mode: ErrorMode,
+  ) => {
+    if (isErr(result)) {
+      return result;
+    }
+
+    // Defined as own properties, so a `__proto__` key does not set the prototype of the output.
+    if (unknownKeys === 'passthrough') {
+      for (const key of unknown) {
+        Object.defineProperty(result.value, key, {
+          value: value[key],
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
+      }
+    }
+
+    return refinementsValidator(result.value, mode);
+  };
+
+  // A schema with an async field (value or nested schema) always returns a promise.
+  const async = Object.values(fields).some(isAsync);
+
+  // Create the main schema validation function.
+  const schemaValidator = (value: Record<string, Any>, mode = config.defaultErrorMode) => {
+    const unknown = Object.keys(value).filter(
+      (key) => !Object.prototype.hasOwnProperty.call(fields, key),
+    );
+
+    // Reject the whole input before validating the fields (e.g. mass-assignment payloads).
+    if (unknownKeys === 'strict' && unknown.length > 0) {
+      const error = err(UnknownKeys({ keys: unknown }));
+      return async ? Promise.resolve(error) : error;
+    }
+
+    return async
+      ? asyncFieldsValidator(value, mode).then((result) => complete(value, unknown, result, mode))
+      : complete(value, unknown, fieldsValidator(value, mode), mode);
+  };
+
   // Create a component schema.
-  const sch = component('Schema', schemaValidator, fields) as Schema<F>;
+  const sch = component('Schema', schemaValidator, fields) as AnySchema;
+
+  // Add the unknown keys policy, the async flag and the refinements (not enumerable, so they are
+  // not mistaken for fields).
+  const refine = (check: (values: Any) => Result<unknown, Any>, options: { path: string }) =>
+    buildSchema(fields, unknownKeys, [
+      ...refinements,
+      (values) => {
+        const result = check(values);
+        return isOk(result) ? result : err({ [options.path]: result.error });
+      },
+    ]);
+  const superRefine = (check: RefinementFunction) =>
+    buildSchema(fields, unknownKeys, [...refinements, check]);
+
+  for (const [key, value] of Object.entries({ unknownKeys, async, refine, superRefine })) {
+    Object.defineProperty(sch, key, { value, writable: false, enumerable: false });
+  }
 
   // Add field functions as properties.
   for (const [fieldName, fieldFn] of Object.entries(fields)) {
@@ -179,13 +580,40 @@ const schema = <F extends SchemaFields>(fields: EnsureAllValues<F>): Schema<F> =
       enumerable: true,
     });
 
-    // Adding field value as a child of the schema component.
-    sch.addChildren(fieldFn as Value<Any, Any>);
+    // Adding field value (or nested schema) as a child of the schema component.
+    sch.addChildren(fieldFn);
   }
 
   return sch;
 };
 
+/**
+ * Creates a schema from a set of fields.
+ * Fields can be values or other schemas, which are validated recursively.
+ * Automatically adds the field value (or schema) as a child of the schema.
+ *
+ * @remarks
+ * The input keys that are not declared as fields are handled by the unknown keys policy. See
+ * {@link UnknownKeysPolicy}. Nested schemas apply their own policy.
+ * Checks across fields are added with the `refine` and `superRefine` methods of the schema.
+ * A schema with an async field (see {@link asyncRule}) returns a promise of the result, and validates
+ * its fields concurrently in the `'all'` error mode. The refinements, modifiers, collections and
+ * unions only accept sync checks and values.
+ *
+ * @typeParam F - The schema fields type.
+ * @typeParam P - The unknown keys policy.
+ * @param fields - The schema object containing field validators.
+ * @param options - The schema options.
+ * @returns The schema function with field validators as properties.
+ *
+ * @public
+ */
+const schema = <F extends SchemaFields, P extends UnknownKeysPolicy = 'strip'>(
+  fields: EnsureAllValues<F>,
+  options: SchemaOptions<P> = {},
+): Schema<F, P> =>
+  buildSchema(fields as SchemaFields, options.unknownKeys ?? 'strip', []) as Any as Schema<F, P>;
+
 /**
  * Guard check to determine if the given object is a schema.
  *
@@ -197,5 +625,16 @@ const schema = <F extends SchemaFields>(fields: EnsureAllValues<F>): Schema<F> =
 const isSchema = (maybeSchema: Any): maybeSchema is Schema<Any> =>
   isComponent(maybeSchema, 'Schema');
 
-export type { Schema, SchemaErrors, SchemaValues };
-export { schema, isSchema, SchemaError };
+export type {
+  AnyAsyncSchema,
+  AnySchema,
+  PolicyErrors,
+  Refinement,
+  Schema,
+  SchemaErrors,
+  SchemaInput,
+  SchemaOptions,
+  SchemaValues,
+  UnknownKeysPolicy,
+};
+export { schema, isSchema, SchemaError, UnknownKeys };
@@ -0,0 +1,120 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { type AsyncResult, asyncResult } from './async-result';
+import type { Any } from './generics';
+import { PanicError } from './panic';
+import { type Result, err, ok } from './result';
+
+/**
+ * Options for the safe wrappers.
+ *
+ * @public
+ */
+type ThrowableOptions = {
+  /**
+   * Whether to rethrow {@link PanicError} instances untouched instead of converting them into
+   * errors (default: true). Panics represent invalid application states and should never be
+   * handled as domain errors.
+   */
+  rethrowPanics?: boolean;
+};
+
+/**
+ * Overloads for the {@link tryCatch} function.
+ *
+ * @internal
+ */
+interface TryCatch {
+  <T, E>(
+    fn: () => Promise<T>,
+    onError: (cause: unknown) => E,
+    options?: ThrowableOptions,
+  ): AsyncResult<T, E>;
+  <T, E>(fn: () => T, onError: (cause: unknown) => E, options?: ThrowableOptions): Result<T, E>;
+}
+
+/**
+ * Overloads for the {@link fromThrowable} function.
+ *
+ * @internal
+ */
+interface FromThrowable {
+  <A extends Any[], T, E>(
+    fn: (...args: A) => Promise<T>,
+    onError: (cause: unknown) => E,
+    options?: ThrowableOptions,
+  ): (...args: A) => AsyncResult<T, E>;
+  <A extends Any[], T, E>(
+    fn: (...args: A) => T,
+    onError: (cause: unknown) => E,
+    options?: ThrowableOptions,
+  ): (...args: A) => Result<T, E>;
+}
+
+/**
+ * Executes a function that can throw and captures the thrown value as a typed error.
+ * If the function returns a promise, the rejection is captured and an {@link AsyncResult} is
+ * returned instead.
+ *
+ * @remarks
+ * By default, {@link PanicError} instances are rethrown untouched.
+ * See {@link ThrowableOptions} for more information.
+ *
+ * @param fn - The function to execute.
+ * @param onError - The function that converts the thrown value into a typed error.
+ * @param options - The options of the wrapper.
+ * @returns A result (or an async result) with the returned value or the mapped error.
+ * @throws A {@link PanicError} if the function throws a panic and panics are rethrown.
+ *
+ * @public
+ */
+const tryCatch: TryCatch = (
+  fn: () => Any,
+  onError: (cause: unknown) => Any,
+  { rethrowPanics = true }: ThrowableOptions = {},
+): Any => {
+  const handle = (cause: unknown) => {
+    if (rethrowPanics && cause instanceof PanicError) {
+      throw cause;
+    }
+
+    return err(onError(cause));
+  };
+
+  try {
+    const value = fn();
+    return value instanceof Promise ? asyncResult(value.then(ok, handle)) : ok(value);
+  } catch (cause) {
+    return handle(cause);
+  }
+};
+
+/**
+ * Wraps a function that can throw into a function that returns a result.
+ * If the function returns a promise, the wrapped function returns an {@link AsyncResult}.
+ *
+ * @remarks
+ * Useful to adapt third-party libraries before using them in a flow.
+ * By default, {@link PanicError} instances are rethrown untouched.
+ * See {@link ThrowableOptions} for more information.
+ *
+ * @param fn - The function to wrap.
+ * @param onError - The function that converts the thrown value into a typed error.
+ * @param options - The options of the wrapper.
+ * @returns A function with the same arguments that returns a result (or an async result).
+ *
+ * @public
+ */
+const fromThrowable: FromThrowable =
+  (fn: (...args: Any[]) => Any, onError: (cause: unknown) => Any, options?: ThrowableOptions) =>
+  (...args: Any[]): Any =>
+    tryCatch(() => fn(...args), onError, options);
+
+export type { ThrowableOptions };
+export { fromThrowable, tryCatch };
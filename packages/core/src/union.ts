@@ -0,0 +1,277 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { config } from './_config';
+import type { ErrorMode } from './_err';
+import { type ItemValidator, exposeItems, fieldsOf, validateItem } from './_item';
+import { type InvalidType, kindErrors } from './_shape';
+import type { ItemError, ItemInput, ItemValue } from './collection';
+import { component } from './component';
+import { type DefinedError, defineError } from './error';
+import type { Any, Prettify } from './generics';
+import { panic } from './panic';
+import { err, isOk, ok } from './result';
+import type { AnySchema } from './schema';
+import { type Value, isAsync } from './value';
+
+/**
+ * Error of a union when no branch accepts the input, with the errors of every branch.
+ *
+ * @typeParam E - The type of the branch errors.
+ *
+ * @public
+ */
+type NoMatchingBranch<E> = DefinedError<
+  'NoMatchingBranchError',
+  'Union',
+  'branch',
+  { branches: { branch: number; errors: E[] }[] }
+>;
+
+/**
+ * Error of a discriminated union when the discriminator does not select any branch.
+ *
+ * @public
+ */
+type InvalidDiscriminator = DefinedError<
+  'InvalidDiscriminatorError',
+  'Union',
+  'discriminator',
+  { key: string; value: unknown; expected: string[] }
+>;
+
+/**
+ * Error of a discriminated union when the selected branch rejects the input.
+ *
+ * @typeParam K - The discriminator value of the branch.
+ * @typeParam E - The type of the branch errors.
+ *
+ * @public
+ */
+type InvalidBranch<K extends string, E> = DefinedError<
+  'InvalidBranchError',
+  'Union',
+  'branch',
+  { branch: K; errors: E[] }
+>;
+
+/**
+ * The values of a discriminated union. Every branch gets its discriminator value.
+ *
+ * @typeParam D - The discriminator key.
+ * @typeParam B - The branches by discriminator value.
+ *
+ * @public
+ */
+type DiscriminatedValues<D extends string, B> = {
+  [K in keyof B & string]: Prettify<{ [P in D]: K } & ItemValue<B[K]>>;
+}[keyof B & string];
+
+/**
+ * The input of a discriminated union. Every branch gets its discriminator value.
+ *
+ * @typeParam D - The discriminator key.
+ * @typeParam B - The branches by discriminator value.
+ *
+ * @public
+ */
+type DiscriminatedInput<D extends string, B> = {
+  [K in keyof B & string]: Prettify<{ [P in D]: K } & ItemInput<B[K]>>;
+}[keyof B & string];
+
+/**
+ * The errors of a discriminated union.
+ *
+ * @typeParam B - The branches by discriminator value.
+ *
+ * @public
+ */
+type DiscriminatedErrors<B> =
+  | InvalidDiscriminator
+  | { [K in keyof B & string]: InvalidBranch<K, ItemError<B[K]>> }[keyof B & string];
+
+/**
+ * Factory of the {@link NoMatchingBranch} error.
+ *
+ * @public
+ */
+const NoMatchingBranch = defineError('NoMatchingBranchError', {
+  context: 'Union',
+  origin: 'branch',
+  message: (details: { branches: { branch: number; errors: unknown[] }[] }) =>
+    `Input does not match any of the ${details.branches.length} branches`,
+});
+
+/**
+ * Factory of the {@link InvalidDiscriminator} error.
+ *
+ * @public
+ */
+const InvalidDiscriminator = defineError('InvalidDiscriminatorError', {
+  context: 'Union',
+  origin: 'discriminator',
+  message: (details: { key: string; value: unknown; expected: string[] }) =>
+    `Discriminator "${details.key}" must be one of: ${details.expected.join(', ')}`,
+});
+
+/**
+ * Factory of the {@link InvalidBranch} error.
+ *
+ * @public
+ */
+const InvalidBranch = defineError('InvalidBranchError', {
+  context: 'Union',
+  origin: 'branch',
+  message: (details: { branch: string; errors: unknown[] }) =>
+    `Branch "${details.branch}" is not valid`,
+});
+
+/**
+ * Panic error for the union module.
+ *
+ * @public
+ */
+const UnionError = panic<'Union', 'AsyncBranch'>('Union');
+
+/**
+ * Checks that the branches of a union are sync, as the unions validate them synchronously.
+ *
+ * @param branches - The values or schemas of the branches.
+ * @throws A {@link UnionError} if a branch is async.
+ *
+ * @internal
+ */
+const assertSyncBranches = (branches: readonly unknown[]) => {
+  if (branches.some(isAsync)) {
+    throw new UnionError('AsyncBranch', 'The branches of a union must be sync values or schemas.');
+  }
+};
+
+/**
+ * Creates a union value that accepts the input of the first branch that validates it.
+ * Every branch is tried in order, so prefer {@link discriminatedUnion} for tagged unions.
+ *
+ * @remarks
+ * Every branch can receive the input of another branch, so the kind of the input (e.g. an object for
+ * a schema) is checked before the rules of every branch, and the branch fails with an
+ * `InvalidTypeError`. The nested inputs are not checked, so use `parse` for unknown inputs.
+ * The value automatically adds the branches as children of the union.
+ *
+ * @typeParam B - The values or schemas of the branches.
+ * @param branches - The value or schema of every branch.
+ * @returns A new union value. If no branch matches, the error has the errors of every branch.
+ * @throws A {@link UnionError} if a branch is async.
+ *
+ * @public
+ */
+const union = <const B extends readonly ItemValidator[]>(...branches: B) => {
+  assertSyncBranches(branches);
+
+  const validator = (input: Any, mode: ErrorMode = config.defaultErrorMode) => {
+    const errors: { branch: number; errors: Any[] }[] = [];
+
+    for (const [branch, item] of branches.entries()) {
+      // The input of another kind (e.g. a string for a schema) fails without running the rules.
+      const kind = kindErrors(item, input);
+      if (kind.length > 0) {
+        errors.push({ branch, errors: mode === 'strict' ? [kind[0]] : kind });
+        continue;
+      }
+
+      const result = validateItem(item, input, mode);
+      if (isOk(result)) {
+        return result;
+      }
+
+      errors.push({ branch, errors: result.error });
+    }
+
+    const error = NoMatchingBranch({ branches: errors });
+    return err(mode === 'strict' ? error : [error]);
+  };
+
+  return exposeItems(
+    component('Value', validator, branches)
+      .addChildren(...(branches as readonly Any[]))
+      .subType('union'),
+    { branches },
+  ) as unknown as Value<
+    ItemValue<B[number]>,
+    NoMatchingBranch<ItemError<B[number]> | InvalidType>,
+    ItemInput<B[number]>
+  >;
+};
+
+/**
+ * Creates a union value that selects its branch by the value of the discriminator key.
+ * The discriminator is added to the validated value, so the branches do not need to declare it
+ * (and it is removed from the input of the branches that do not declare it).
+ *
+ * @remarks
+ * The value automatically adds the branches as children of the union.
+ *
+ * @typeParam D - The discriminator key.
+ * @typeParam B - The schemas of the branches by discriminator value.
+ * @param key - The discriminator key.
+ * @param branches - The schema of every branch by discriminator value.
+ * @returns A new discriminated union value.
+ * @throws A {@link UnionError} if a branch is async.
+ *
+ * @public
+ */
+const discriminatedUnion = <const D extends string, const B extends Record<string, AnySchema>>(
+  key: D,
+  branches: B,
+) => {
+  assertSyncBranches(Object.values(branches));
+
+  const validator = (input: Any, mode: ErrorMode = config.defaultErrorMode) => {
+    const tag = typeof input === 'object' && input !== null ? input[key] : undefined;
+
+    if (typeof tag !== 'string' || !Object.prototype.hasOwnProperty.call(branches, tag)) {
+      const error = InvalidDiscriminator({ key, value: tag, expected: Object.keys(branches) });
+      return err(mode === 'strict' ? error : [error]);
+    }
+
+    // The discriminator is not checked by the branch (e.g. as an unknown key of a strict schema),
+    // unless the branch declares it.
+    const branch = branches[tag];
+    const fields = Object.prototype.hasOwnProperty.call(fieldsOf(branch), key)
+      ? input
+      : Object.fromEntries(Object.entries(input).filter(([field]) => field !== key));
+
+    const result = validateItem(branch, fields, mode);
+    if (isOk(result)) {
+      return ok({ ...result.value, [key]: tag });
+    }
+
+    const error = InvalidBranch({ branch: tag, errors: result.error });
+    return err(mode === 'strict' ? error : [error]);
+  };
+
+  return exposeItems(
+    component('Value', validator, { key, branches })
+      .addChildren(...(Object.values(branches) as Any[]))
+      .subType('union'),
+    { key, branches },
+  ) as unknown as Value<
+    DiscriminatedValues<D, B>,
+    DiscriminatedErrors<B>,
+    DiscriminatedInput<D, B>
+  >;
+};
+
+export type { DiscriminatedErrors, DiscriminatedInput, DiscriminatedValues };
+export {
+  discriminatedUnion,
+  InvalidBranch,
+  InvalidDiscriminator,
+  NoMatchingBranch,
+  union,
+  UnionError,
+};
@@ -0,0 +1,360 @@
+/*
+ * This file is part of the Mixor project.
+ *
+ * Copyright (c) 2025, Binary Shapes.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import type { Any, NonEmptyArray } from './generics';
+import { type CollectionItem, type Result, err, isOk, ok } from './result';
+
+/**
+ * The location of an issue inside the validated value, e.g. `['address', 'street']` or
+ * `['tags', 2]`. An empty path points to the value itself.
+ *
+ * @public
+ */
+type ValidationPath = readonly (string | number)[];
+
+/**
+ * A single error of a validation, together with the location where it happened.
+ *
+ * @typeParam E - The type of the error.
+ *
+ * @public
+ */
+type ValidationIssue<E> = {
+  readonly path: ValidationPath;
+  readonly error: E;
+};
+
+/**
+ * Represents a successful validation with a value of type T.
+ *
+ * @typeParam T - The type of the validated value.
+ *
+ * @public
+ */
+type Valid<T> = {
+  readonly _id: 'Validation';
+  readonly _tag: 'Valid';
+  readonly value: T;
+};
+
+/**
+ * Represents a failed validation with, at least, one issue.
+ *
+ * @typeParam E - The type of the errors.
+ *
+ * @public
+ */
+type Invalid<E> = {
+  readonly _id: 'Validation';
+  readonly _tag: 'Invalid';
+  readonly issues: NonEmptyArray<ValidationIssue<E>>;
+};
+
+/**
+ * Represents a validation that can be either successful (Valid) or failed (Invalid).
+ * Unlike {@link Result}, which short-circuits on the first error, a validation is applicative:
+ * combining validations accumulates every issue, always with the same shape.
+ *
+ * @typeParam T - The type of the validated value.
+ * @typeParam E - The type of the errors.
+ *
+ * @public
+ */
+type Validation<T, E> = Valid<T> | Invalid<E>;
+
+/**
+ * A collection of validations. Can be an array, a tuple or a record.
+ *
+ * @internal
+ */
+type ValidationCollection = readonly Validation<Any, Any>[] | Record<string, Validation<Any, Any>>;
+
+/**
+ * Extracts the value type of a validation.
+ *
+ * @typeParam V - The validation type.
+ *
+ * @public
+ */
+type ValidValue<V> = V extends Valid<infer T> ? T : never;
+
+/**
+ * Extracts the error type of a validation.
+ *
+ * @typeParam V - The validation type.
+ *
+ * @public
+ */
+type InvalidError<V> = V extends Invalid<infer E> ? E : never;
+
+/**
+ * The values of a validation collection, preserving its tuple or record shape.
+ *
+ * @typeParam C - The validation collection type.
+ *
+ * @public
+ */
+type ValidValues<C> = { -readonly [K in keyof C]: ValidValue<C[K]> };
+
+/**
+ * Creates a successful validation with the given value.
+ *
+ * @typeParam T - The type of the value.
+ * @param value - The validated value.
+ * @returns A new Valid instance, typed as `Validation<T, never>`.
+ *
+ * @public
+ */
+function valid<T>(value: T): Validation<T, never> {
+  return {
+    _id: 'Validation',
+    _tag: 'Valid',
+    value,
+  };
+}
+
+/**
+ * Creates a failed validation with a single issue.
+ *
+ * @typeParam E - The type of the error.
+ * @param error - The error of the issue.
+ * @param path - The location of the issue (default: the value itself).
+ * @returns A new Invalid instance, typed as `Validation<never, E>`.
+ *
+ * @public
+ */
+function invalid<E>(error: E, path: ValidationPath = []): Validation<never, E> {
+  return {
+    _id: 'Validation',
+    _tag: 'Invalid',
+    issues: [{ path, error }],
+  };
+}
+
+/**
+ * Type guard to check if a validation is successful.
+ *
+ * @typeParam T - The type of the validated value.
+ * @typeParam E - The type of the errors.
+ * @param validation - The validation to check.
+ * @returns True if the validation is successful (Valid), false otherwise.
+ *
+ * @public
+ */
+function isValid<T, E>(validation: Validation<T, E>): validation is Valid<T> {
+  return validation._tag === 'Valid';
+}
+
+/**
+ * Type guard to check if a validation is failed.
+ *
+ * @typeParam T - The type of the validated value.
+ * @typeParam E - The type of the errors.
+ * @param validation - The validation to check.
+ * @returns True if the validation is failed (Invalid), false otherwise.
+ *
+ * @public
+ */
+function isInvalid<T, E>(validation: Validation<T, E>): validation is Invalid<E> {
+  return validation._tag === 'Invalid';
+}
+
+/**
+ * Type guard to check if a value is a validation.
+ *
+ * @param validation - The value to check.
+ * @returns True if the value is a validation with the correct structure, false otherwise.
+ *
+ * @public
+ */
+function isValidation(validation: unknown): validation is Validation<unknown, unknown> {
+  if (typeof validation !== 'object' || validation === null) {
+    return false;
+  }
+
+  const isValidation = '_id' in validation && validation._id === 'Validation';
+  const isValid =
+    isValidation && '_tag' in validation && validation._tag === 'Valid' && 'value' in validation;
+  const isInvalid =
+    isValidation &&
+    '_tag' in validation &&
+    validation._tag === 'Invalid' &&
+    'issues' in validation &&
+    Array.isArray(validation.issues) &&
+    validation.issues.length > 0;
+  return isValid || isInvalid;
+}
+
+/**
+ * Prefixes the path of every issue of a validation. Useful to nest the validation of a field
+ * into the validation of its parent.
+ *
+ * @typeParam T - The type of the validated value.
+ * @typeParam E - The type of the errors.
+ * @param validation - The validation to prefix.
+ * @param path - The path to prepend to every issue.
+ * @returns The same validation with the prefixed issues.
+ *
+ * @public
+ */
+const withPath = <T, E>(validation: Validation<T, E>, path: ValidationPath): Validation<T, E> =>
+  isValid(validation)
+    ? validation
+    : {
+        ...validation,
+        issues: validation.issues.map((issue) => ({
+          ...issue,
+          path: [...path, ...issue.path],
+        })) as Any,
+      };
+
+/**
+ * Accumulates the values and the issues of a list of validations.
+ *
+ * @param entries - The key and the validation of every entry.
+ * @param prefix - Whether to prefix the issues with the key of the entry.
+ * @returns The values by key and every issue found.
+ *
+ * @internal
+ */
+const accumulate = (entries: [string | number, Validation<Any, Any>][], prefix: boolean) => {
+  const values: Record<string | number, Any> = {};
+  const issues: ValidationIssue<Any>[] = [];
+
+  for (const [key, validation] of entries) {
+    if (isValid(validation)) {
+      values[key] = validation.value;
+    } else {
+      const prefixed = prefix ? withPath(validation, [key]) : validation;
+      issues.push(...(prefixed as Invalid<Any>).issues);
+    }
+  }
+
+  return { values, issues };
+};
+
+/**
+ * Combines a collection of validations into a single validation, accumulating every issue.
+ * The issues of each entry are prefixed with its key (or its index for arrays).
+ *
+ * @typeParam C - The validation collection type.
+ * @param collection - The array, tuple or record of validations to combine.
+ * @returns A validation with all the values in the same shape, or all the issues.
+ *
+ * @public
+ */
+const combine = <const C extends ValidationCollection>(
+  collection: C,
+): Validation<ValidValues<C>, InvalidError<CollectionItem<C>>> => {
+  const isArray = Array.isArray(collection);
+  const entries = Object.entries(collection).map(
+    ([key, validation]) => [isArray ? Number(key) : key, validation] as [string | number, Any],
+  );
+  const { values, issues } = accumulate(entries, true);
+
+  if (issues.length > 0) {
+    return { _id: 'Validation', _tag: 'Invalid', issues: issues as Any };
+  }
+
+  return valid((isArray ? Object.values(values) : values) as ValidValues<C>);
+};
+
+/**
+ * Combines several validations of the same value into a tuple, accumulating every issue.
+ * Unlike {@link combine}, the paths of the issues are kept untouched.
+ *
+ * @typeParam V - The tuple of validations.
+ * @param validations - The validations to combine.
+ * @returns A validation with the tuple of values, or all the issues.
+ *
+ * @public
+ */
+const zip = <const V extends readonly Validation<Any, Any>[]>(
+  ...validations: V
+): Validation<ValidValues<V>, InvalidError<V[number]>> => {
+  const { values, issues } = accumulate(Object.entries(validations), false);
+
+  if (issues.length > 0) {
+    return { _id: 'Validation', _tag: 'Invalid', issues: issues as Any };
+  }
+
+  return valid(Object.values(values) as ValidValues<V>);
+};
+
+/**
+ * Applies a function to the values of several validations if all of them are successful.
+ * Otherwise, every issue is accumulated.
+ *
+ * @typeParam V - The tuple of validations.
+ * @typeParam R - The type of the returned value.
+ * @param validations - The validations to combine.
+ * @param fn - The function that receives every value.
+ * @returns A validation with the returned value, or all the issues.
+ *
+ * @public
+ */
+const mapN = <const V extends readonly Validation<Any, Any>[], R>(
+  validations: V,
+  fn: (...values: ValidValues<V>) => R,
+): Validation<R, InvalidError<V[number]>> => {
+  const zipped = zip(...validations);
+  return isValid(zipped) ? valid(fn(...(zipped.value as Any))) : (zipped as Any);
+};
+
+/**
+ * Converts a result into a validation. The error of a failed result becomes a single issue.
+ *
+ * @typeParam T - The type of the successful value.
+ * @typeParam E - The type of the error.
+ * @param result - The result to convert.
+ * @param path - The location of the issue (default: the value itself).
+ * @returns A new validation.
+ *
+ * @public
+ */
+const toValidation = <T, E>(result: Result<T, E>, path: ValidationPath = []): Validation<T, E> =>
+  isOk(result) ? valid(result.value) : invalid(result.error, path);
+
+/**
+ * Converts a validation into a result with the non-empty list of issues as error.
+ *
+ * @typeParam T - The type of the validated value.
+ * @typeParam E - The type of the errors.
+ * @param validation - The validation to convert.
+ * @returns A new result.
+ *
+ * @public
+ */
+const fromValidation = <T, E>(
+  validation: Validation<T, E>,
+): Result<T, NonEmptyArray<ValidationIssue<E>>> =>
+  isValid(validation) ? ok(validation.value) : err(validation.issues as Any);
+
+export type {
+  Invalid,
+  InvalidError,
+  Valid,
+  Validation,
+  ValidationIssue,
+  ValidationPath,
+  ValidValue,
+  ValidValues,
+};
+export {
+  combine,
+  fromValidation,
+  invalid,
+  isInvalid,
+  isValid,
+  isValidation,
+  mapN,
+  toValidation,
+  valid,
+  withPath,
+  zip,
+};
@@ -9,68 +9,303 @@
 import { config } from './_config';
 import type { ErrorMode } from './_err';
 import { type Component, component, isComponent } from './component';
+import type { Adapter, Container, ElementType, Port, Service } from './container';
 import type { Any } from './generics';
 import { assert } from './logger';
 import { pipe } from './pipe';
-import { type Result } from './result';
+import { type Result, err, isOk, ok } from './result';
 
 /**
  * Defines the shape of a value function. Must return a result with known error type.
  *
- * @typeParam T - The type of the value to validate.
+ * @typeParam T - The type of the validated value.
  * @typeParam E - The type of the error.
+ * @typeParam In - The type of the input (same as the validated value by default).
  *
  * @internal
  */
-type ValueFunction<T, E> = (value: T) => Result<T, E>;
+type ValueFunction<T, E, In = T> = (value: In) => Result<T, E>;
 
 /**
  * A function to apply to a value to validate it.
+ * The rule can also convert the input to another type (e.g. parse a string into a number).
  *
- * @typeParam T - The type of the value to validate.
+ * @typeParam T - The type of the validated value.
  * @typeParam E - The type of the error.
+ * @typeParam In - The type of the input (same as the validated value by default).
  * @param value - The value to validate.
  * @returns A result containing the validated value or an error.
  *
  * @public
  */
-type Rule<T, E> = Component<
+type Rule<T, E, In = T> = Component<
   'Rule',
   {
-    (value: T): Result<T, E>;
+    (value: In): Result<T, E>;
   }
 >;
 
+/**
+ * A rule that validates the value asynchronously (e.g. a uniqueness check in a database).
+ * A value with an async rule is an {@link AsyncValue}.
+ *
+ * @typeParam T - The type of the validated value.
+ * @typeParam E - The type of the error.
+ * @typeParam In - The type of the input (same as the validated value by default).
+ *
+ * @public
+ */
+type AsyncRule<T, E, In = T> = Component<
+  'Rule',
+  {
+    (value: In): Promise<Result<T, E>>;
+  }
+> & {
+  /** Marks the rule as asynchronous. */
+  readonly async: true;
+};
+
+/**
+ * Key of the brands of a value (type only).
+ *
+ * @internal
+ */
+declare const BrandKey: unique symbol;
+
+/**
+ * A nominal type, only obtained from the successful validation of a value with a {@link brand}
+ * rule (e.g. a validated `Email` is not assignable from a raw `string`).
+ *
+ * @typeParam T - The type of the validated value.
+ * @typeParam B - The name of the brand.
+ *
+ * @public
+ */
+type Branded<T, B extends string> = T & {
+  readonly [BrandKey]: { readonly [K in B]: Unbranded<T> };
+};
+
+/**
+ * The type of a branded value without its brands. See {@link unbrand}.
+ *
+ * @typeParam T - The branded type.
+ *
+ * @public
+ */
+type Unbranded<T> = T extends { readonly [BrandKey]: infer M } ? M[keyof M] : T;
+
+/**
+ * A rule that brands the validated value. See {@link brand}.
+ *
+ * @typeParam B - The name of the brand.
+ *
+ * @public
+ */
+type BrandRule<B extends string> = Rule<unknown, never, unknown> & {
+  /** The name of the brand. */
+  readonly brand: B;
+};
+
+/**
+ * The dependencies of an async rule, resolved from a container. See {@link asyncRule}.
+ *
+ * @internal
+ */
+type RuleDependencies = Record<string, Service<Any, Any> | Adapter<Any> | Port<Any>>;
+
 /**
  * Base value type that can be either a validator or a builder.
  * Uses the centralized error mode concept from {@link ErrorMode}.
  *
- * @typeParam T - The type of the value to validate.
+ * @typeParam T - The type of the validated value (the output).
  * @typeParam E - The type of the error.
+ * @typeParam In - The type of the input (same as the validated value by default).
  *
  * @public
  */
-type Value<T, E> = Component<
+type Value<T, E, In = T> = Component<
   'Value',
   {
     // All mode returns an array of errors (default mode).
-    (input: T, mode?: 'all'): Result<T, E[]>;
+    (input: In, mode?: 'all'): Result<T, E[]>;
     // Strict mode returns a single error.
-    (input: T, mode: 'strict'): Result<T, E>;
+    (input: In, mode: 'strict'): Result<T, E>;
   }
->;
+> & {
+  /** Inferred input type of the value (type only). */
+  readonly Input: In;
+  /** Inferred output type of the value (type only). */
+  readonly Output: T;
+};
+
+/**
+ * A value with at least one async rule. It returns a promise of the result.
+ * Uses the centralized error mode concept from {@link ErrorMode}.
+ *
+ * @typeParam T - The type of the validated value (the output).
+ * @typeParam E - The type of the error.
+ * @typeParam In - The type of the input (same as the validated value by default).
+ *
+ * @public
+ */
+type AsyncValue<T, E, In = T> = Component<
+  'Value',
+  {
+    // All mode returns an array of errors (default mode).
+    (input: In, mode?: 'all'): Promise<Result<T, E[]>>;
+    // Strict mode returns a single error.
+    (input: In, mode: 'strict'): Promise<Result<T, E>>;
+  }
+> & {
+  /** Inferred input type of the value (type only). */
+  readonly Input: In;
+  /** Inferred output type of the value (type only). */
+  readonly Output: T;
+  /** Marks the value as asynchronous. */
+  readonly async: true;
+};
+
+/**
+ * The input, output and error types of a sync or async rule.
+ *
+ * @typeParam R - The rule type.
+ *
+ * @internal
+ */
+type RuleTypes<R> =
+  R extends Rule<infer T, infer E, infer In>
+    ? { input: In; output: T; error: E }
+    : R extends AsyncRule<infer T, infer E, infer In>
+      ? { input: In; output: T; error: E }
+      : never;
+
+/**
+ * The output type of a list of rules: the output of the last rule, branded by the brand rules that
+ * follow it.
+ *
+ * @typeParam R - The rules type.
+ *
+ * @internal
+ */
+type RulesOutput<R> = R extends [...infer Init, infer L]
+  ? L extends BrandRule<infer B>
+    ? Branded<RulesOutput<Init>, B>
+    : RuleTypes<L>['output']
+  : never;
 
 /**
  * Create a value rule for validation.
  *
- * @typeParam T - The type of the value to validate.
+ * @remarks
+ * In the `'all'` error mode, the rules after a failed rule receive the last valid value. Place the
+ * rules that convert the input type first, so the next rules are not applied to an unconverted
+ * input of a valid value.
+ *
+ * @typeParam T - The type of the validated value.
  * @typeParam E - The type of the error.
+ * @typeParam In - The type of the input.
  * @param rule - The validation function to create.
  * @returns A new value rule.
  *
  * @public
  */
-const rule = <T, E>(rule: ValueFunction<T, E>) => component('Rule', rule) as Rule<T, E>;
+const rule = <T, E, In = T>(rule: ValueFunction<T, E, In>) =>
+  component('Rule', rule) as Rule<T, E, In>;
+
+/**
+ * Create a rule that transforms the value and never fails (e.g. trim or lowercase a string).
+ * The rule is a transformation, so it can also change the type of the value.
+ *
+ * @typeParam In - The type of the input.
+ * @typeParam T - The type of the transformed value.
+ * @param fn - The transformation to apply.
+ * @returns A new transformation rule.
+ *
+ * @public
+ */
+const transform = <In, T>(fn: (value: In) => T) =>
+  component('Rule', (value: In) => ok(fn(value))).subType('transform') as Any as Rule<T, never, In>;
+
+/**
+ * Create a rule that brands the validated value, so its type can only be obtained from a successful
+ * validation. The rule does not change the value at runtime.
+ *
+ * @remarks
+ * Add the brand as the last rule of the value. The output of the value (and of the schemas that
+ * use it) is branded, while its input stays the raw type. See {@link unbrand}.
+ *
+ * @typeParam B - The name of the brand.
+ * @param name - The name of the brand (e.g. `'Email'`).
+ * @returns A new brand rule.
+ *
+ * @public
+ */
+const brand = <const B extends string>(name: B) =>
+  Object.defineProperty(
+    component('Rule', (value: unknown) => ok(value), { brand: name }).subType('brand'),
+    'brand',
+    { value: name, writable: false, enumerable: false },
+  ) as Any as BrandRule<B>;
+
+/**
+ * Gets the raw value of a branded value (e.g. to pass a validated email to a library).
+ *
+ * @typeParam T - The branded type.
+ * @param value - The branded value.
+ * @returns The same value, typed without its brands.
+ *
+ * @public
+ */
+const unbrand = <T>(value: T) => value as Unbranded<T>;
+
+/**
+ * Marks a component as asynchronous.
+ *
+ * @param target - The component to mark.
+ * @returns The same component.
+ *
+ * @internal
+ */
+const markAsync = <T>(target: T): T =>
+  Object.defineProperty(target, 'async', { value: true, writable: false, enumerable: false });
+
+/**
+ * Create an async rule for validation (e.g. check that an email is not already registered).
+ * The dependencies of the rule can be resolved from a container on every validation.
+ *
+ * @remarks
+ * The returned promise must not reject. Capture the rejections as typed errors, see
+ * {@link fromPromise}.
+ *
+ * @typeParam T - The type of the validated value.
+ * @typeParam E - The type of the error.
+ * @typeParam In - The type of the input.
+ * @typeParam D - The services, adapters or ports required by the rule.
+ * @param args - The validation function, or the container, the dependencies and the validation
+ * function that receives the resolved dependencies.
+ * @returns A new async rule.
+ *
+ * @public
+ */
+function asyncRule<T, E, In = T>(
+  rule: (value: In) => PromiseLike<Result<T, E>>,
+): AsyncRule<T, E, In>;
+function asyncRule<T, E, In, D extends RuleDependencies>(
+  container: Container,
+  requires: D,
+  rule: (value: In, deps: { [K in keyof D]: ElementType<D[K]> }) => PromiseLike<Result<T, E>>,
+): AsyncRule<T, E, In>;
+function asyncRule(...args: Any[]): AsyncRule<Any, Any, Any> {
+  const [container, requires, rule] = args.length === 1 ? [null, {}, args[0]] : args;
+
+  // Resolve the dependencies on every call, so the container bindings can be overridden.
+  const resolve = () =>
+    Object.fromEntries(
+      Object.entries(requires as RuleDependencies).map(([key, dep]) => [key, container.get(dep)]),
+    );
+
+  return markAsync(component('Rule', async (value: Any) => rule(value, resolve()))) as Any;
+}
 
 /**
  * Creates a value that combines multiple rules for field validation.
@@ -78,25 +313,57 @@ const rule = <T, E>(rule: ValueFunction<T, E>) => component('Rule', rule) as Rul
  *
  * @remarks
  * The value automatically adds the rules as children to the value component.
+ * The input type is the input of the first rule and the output type is the output of the last one,
+ * branded by a final {@link brand} rule.
+ * With an async rule, the value is an {@link AsyncValue} that runs the rules in order.
  *
  * @param rules - The validation rules to apply to the value.
  * @returns A new value validator.
  *
  * @public
  */
-const value = <R extends Rule<Any, Any>[]>(...rules: R) => {
-  type T = R extends Rule<infer TT, Any>[] ? TT : never;
-  type E = R extends Rule<Any, infer EE>[] ? EE : never;
+const value = <R extends (Rule<Any, Any, Any> | AsyncRule<Any, Any, Any>)[]>(...rules: R) => {
+  type In = R extends [infer F, ...Any[]] ? RuleTypes<F>['input'] : never;
+  type T = RulesOutput<R>;
+  type E = RuleTypes<R[number]>['error'];
+  type V = [Extract<R[number], { readonly async: true }>] extends [never]
+    ? Value<T, E, In>
+    : AsyncValue<T, E, In>;
 
   // Defensive assertion (should never happen).
   assert(rules.every(isRule), 'Invalid rules');
 
-  return component(
-    'Value',
-    (value: T, mode: ErrorMode = config.defaultErrorMode) =>
-      pipe(mode, ...(rules as unknown as [Any]))(value),
-    rules,
-  ).addChildren(...rules) as Value<T, E>;
+  // Sync values compose the rules in a result pipeline.
+  if (!rules.some(isAsync)) {
+    return component(
+      'Value',
+      (value: In, mode: ErrorMode = config.defaultErrorMode) =>
+        pipe(mode, ...(rules as unknown as [Any]))(value),
+      rules,
+    ).addChildren(...rules) as Any as V;
+  }
+
+  // Async values await every rule, following the same error mode semantics as the pipeline.
+  const validator = async (value: In, mode: ErrorMode = config.defaultErrorMode) => {
+    const errors: Any[] = [];
+    let input: Any = value;
+
+    for (const rule of rules as Any[]) {
+      const result: Result<Any, Any> = await rule(input);
+
+      if (isOk(result)) {
+        input = result.value;
+      } else if (mode === 'strict') {
+        return result;
+      } else {
+        errors.push(result.error);
+      }
+    }
+
+    return errors.length > 0 ? err(errors) : ok(input);
+  };
+
+  return markAsync(component('Value', validator, rules).addChildren(...rules)) as Any as V;
 };
 
 /**
@@ -107,7 +374,7 @@ const value = <R extends Rule<Any, Any>[]>(...rules: R) => {
  *
  * @public
  */
-const isValue = (maybeValue: Any): maybeValue is Value<Any, Any> =>
+const isValue = (maybeValue: Any): maybeValue is Value<Any, Any, Any> =>
   isComponent(maybeValue, 'Value');
 
 /**
@@ -118,7 +385,18 @@ const isValue = (maybeValue: Any): maybeValue is Value<Any, Any> =>
  *
  * @public
  */
-const isRule = (maybeRule: Any): maybeRule is Rule<Any, Any> => isComponent(maybeRule, 'Rule');
+const isRule = (maybeRule: Any): maybeRule is Rule<Any, Any, Any> => isComponent(maybeRule, 'Rule');
+
+/**
+ * Guard check to determine if the given rule, value or schema is asynchronous.
+ *
+ * @param maybeAsync - The component to check.
+ * @returns True if the component returns a promise of the result, false otherwise.
+ *
+ * @public
+ */
+const isAsync = (maybeAsync: Any): boolean =>
+  typeof maybeAsync === 'function' && maybeAsync.async === true;
 
-export type { Value, Rule };
-export { isValue, isRule, rule, value };
+export type { AsyncRule, AsyncValue, BrandRule, Branded, Unbranded, Value, Rule };
+export { asyncRule, brand, isAsync, isValue, isRule, rule, transform, unbrand, value };
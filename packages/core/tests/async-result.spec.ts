@@ -0,0 +1,189 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+
+import {
+  type AsyncResult,
+  allAsync,
+  allSettledAsync,
+  anyAsync,
+  asyncResult,
+  fromPromise,
+  isAsyncResult,
+  partitionAsync,
+} from '../src/async-result';
+import { flow } from '../src/flow';
+import { type Result, err, isErr, isOk, ok, unwrap } from '../src/result';
+
+// Shared test utilities.
+const findUser = async (id: string): Promise<Result<{ id: string; age: number }, 'NOT_FOUND'>> => {
+  await sleep(1);
+  return id === 'u1' ? ok({ id, age: 30 }) : err('NOT_FOUND');
+};
+
+const checkAdult = (user: { id: string; age: number }): Result<string, 'UNDERAGE'> =>
+  user.age >= 18 ? ok(user.id) : err('UNDERAGE');
+
+describe('AsyncResult', () => {
+  describe('Public API', () => {
+    it('should lift a promise of a result into an async result', async () => {
+      const result = asyncResult(findUser('u1'));
+
+      expect(isAsyncResult(result)).toBe(true);
+      expect(unwrap(await result)).toEqual({ id: 'u1', age: 30 });
+    });
+
+    it('should lift a sync result into an async result', async () => {
+      const result = asyncResult(ok(1));
+      expect(unwrap(await result.toPromise())).toBe(1);
+    });
+
+    it('should map sync and async functions over the success value', async () => {
+      const result = asyncResult(findUser('u1'))
+        .map((user) => user.age)
+        .map(async (age) => {
+          await sleep(1);
+          return age * 2;
+        });
+
+      expect(unwrap(await result)).toBe(60);
+    });
+
+    it('should chain functions returning results, promises and async results', async () => {
+      const result = asyncResult(findUser('u1'))
+        .andThen(checkAdult)
+        .andThen(async (id) => ok(`user:${id}`))
+        .andThen((label) => asyncResult(ok(label.toUpperCase())));
+
+      expect(unwrap(await result)).toBe('USER:U1');
+    });
+
+    it('should map and recover errors', async () => {
+      const mapped = asyncResult(findUser('u2')).mapErr((e) => ({ code: e }));
+      expect(unwrap(await mapped)).toEqual({ code: 'NOT_FOUND' });
+
+      const recovered = asyncResult(findUser('u2')).orElse(async () => ok({ id: 'guest', age: 0 }));
+      expect(unwrap(await recovered)).toEqual({ id: 'guest', age: 0 });
+    });
+
+    it('should fold the result with match', async () => {
+      const cases = { onOk: () => 'found', onErr: (e: string) => `missing: ${e}` };
+
+      expect(await asyncResult(findUser('u1')).match(cases)).toBe('found');
+      expect(await asyncResult(findUser('u2')).match(cases)).toBe('missing: NOT_FOUND');
+    });
+
+    it('should capture rejections as typed errors with fromPromise', async () => {
+      const rejected = fromPromise(Promise.reject(new Error('boom')), (cause) => ({
+        code: 'FETCH_FAILED' as const,
+        message: (cause as Error).message,
+      }));
+      const resolved = fromPromise(Promise.resolve(42), () => 'FETCH_FAILED' as const);
+
+      const rejectedResult = await rejected;
+      expect(isErr(rejectedResult)).toBe(true);
+      expect(unwrap(rejectedResult)).toEqual({ code: 'FETCH_FAILED', message: 'boom' });
+
+      const resolvedResult = await resolved;
+      expect(isOk(resolvedResult)).toBe(true);
+      expect(unwrap(resolvedResult)).toBe(42);
+    });
+
+    it('should be usable as an async flow step', async () => {
+      const fn = flow<string>()
+        .map((id) => asyncResult(findUser(id)).andThen(checkAdult).toPromise())
+        .build();
+
+      expect(unwrap(await fn('u1'))).toBe('u1');
+      expect(unwrap(await fn('u2'))).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('Collection combinators', () => {
+    it('should collapse mixed sync and async results with allAsync', async () => {
+      const result = allAsync([findUser('u1'), ok(1), asyncResult(ok('x'))]);
+      expect(unwrap(await result)).toEqual([{ id: 'u1', age: 30 }, 1, 'x']);
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<
+        AsyncResult<[{ id: string; age: number }, number, string], 'NOT_FOUND'>
+      >();
+    });
+
+    it('should return the first error in collection order with allAsync', async () => {
+      const result = await allAsync({ user: findUser('u2'), other: err('OTHER') });
+      expect(unwrap(result)).toBe('NOT_FOUND');
+    });
+
+    it('should accumulate every error with allSettledAsync', async () => {
+      const result = await allSettledAsync({ a: findUser('u2'), b: findUser('u3'), c: ok(1) });
+      expect(unwrap(result)).toEqual({ a: 'NOT_FOUND', b: 'NOT_FOUND' });
+    });
+
+    it('should return the first success with anyAsync', async () => {
+      const result = await anyAsync([findUser('u2'), findUser('u1')]);
+      expect(unwrap(result)).toEqual({ id: 'u1', age: 30 });
+    });
+
+    it('should split the results with partitionAsync', async () => {
+      const result = await partitionAsync([findUser('u1'), findUser('u2')]);
+      expect(result).toEqual({ oks: [{ id: 'u1', age: 30 }], errs: ['NOT_FOUND'] });
+    });
+
+    it('should resolve the results concurrently', async () => {
+      const start = Date.now();
+      const delayed = async () => (await sleep(50), ok(1));
+      await allAsync([delayed(), delayed(), delayed()]);
+      expect(Date.now() - start).toBeLessThan(140);
+    });
+  });
+
+  describe('Edge Cases & Error Handling', () => {
+    it('should skip success steps after an error', async () => {
+      const fn = vi.fn((n: number) => n);
+      const result = asyncResult(err('FAILED'))
+        .map(fn)
+        .andThen(fn as never);
+
+      expect(unwrap(await result)).toBe('FAILED');
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should skip error steps after a success', async () => {
+      const fn = vi.fn();
+      const result = asyncResult(ok(1)).mapErr(fn).orElse(fn);
+
+      expect(unwrap(await result)).toBe(1);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should not consider promises or results as async results', () => {
+      expect(isAsyncResult(Promise.resolve(ok(1)))).toBe(false);
+      expect(isAsyncResult(ok(1))).toBe(false);
+      expect(isAsyncResult(null)).toBe(false);
+    });
+  });
+
+  describe('Type Safety', () => {
+    it('should provide correct type inference for all public elements', () => {
+      expectTypeOf(asyncResult).toBeFunction();
+      expectTypeOf(fromPromise).toBeFunction();
+      expectTypeOf(isAsyncResult).toBeFunction();
+    });
+
+    it('should infer the value and error types through the chain', () => {
+      const result = asyncResult(findUser('u1'))
+        .andThen(checkAdult)
+        .map(async (id) => id.length);
+
+      expectTypeOf(result).toEqualTypeOf<AsyncResult<number, 'NOT_FOUND' | 'UNDERAGE'>>();
+      expectTypeOf(result.toPromise()).toEqualTypeOf<
+        Promise<Result<number, 'NOT_FOUND' | 'UNDERAGE'>>
+      >();
+    });
+
+    it('should infer the error type of fromPromise', () => {
+      const result = fromPromise(Promise.resolve('data'), () => 'FAILED' as const);
+      expectTypeOf(result).toEqualTypeOf<AsyncResult<string, 'FAILED'>>();
+    });
+  });
+});
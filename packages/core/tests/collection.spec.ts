@@ -0,0 +1,267 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import {
+  type DuplicateItem,
+  type InvalidItem,
+  type InvalidKey,
+  type InvalidTupleLength,
+  type TooFewItems,
+  type TooManyItems,
+  array,
+  CollectionError,
+  record,
+  tuple,
+} from '../src/collection';
+import { type Result, err, isErr, isOk, ok, unwrap } from '../src/result';
+import { schema } from '../src/schema';
+import { type Value, asyncRule, isValue, rule, value } from '../src/value';
+
+const Name = value(rule((name: string) => (name.length > 0 ? ok(name) : err('EMPTY_NAME'))));
+const Age = value(rule((age: number) => (age >= 0 ? ok(age) : err('INVALID_AGE'))));
+const Key = value(rule((key: string) => (/^[a-z]+$/.test(key) ? ok(key) : err('INVALID_KEY'))));
+
+describe('collection', () => {
+  describe('Public API', () => {
+    it('should validate every item of an array', () => {
+      const Names = array(Name);
+
+      expect(isValue(Names)).toBe(true);
+      expect(Names.info().subType).toBe('array');
+      expect(unwrap(Names(['John', 'Jane']))).toEqual(['John', 'Jane']);
+    });
+
+    it('should report the index of the failing items of an array', () => {
+      const result = array(Name)(['John', '', 'Jane', '']);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toHaveLength(2);
+        expect(result.error[0].code).toBe('InvalidItemError');
+        expect(result.error[0].details).toEqual({ key: 1, errors: ['EMPTY_NAME'] });
+        expect(result.error[1].details).toEqual({ key: 3, errors: ['EMPTY_NAME'] });
+      }
+    });
+
+    it('should stop at the first failing item in strict mode', () => {
+      const result = array(Name)(['John', '', ''], 'strict');
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.details).toEqual({ key: 1, errors: ['EMPTY_NAME'] });
+      }
+    });
+
+    it('should check the min, max and unique constraints of an array', () => {
+      const Names = array(Name, { min: 2, max: 3, unique: true });
+
+      expect(isOk(Names(['John', 'Jane']))).toBe(true);
+
+      const tooFew = Names(['John']);
+      const tooMany = Names(['a', 'b', 'c', 'd']);
+      const duplicated = Names(['John', 'Jane', 'John']);
+
+      expect(unwrap(tooFew)).toMatchObject([
+        { code: 'TooFewItemsError', details: { min: 2, actual: 1 } },
+      ]);
+      expect(unwrap(tooMany)).toMatchObject([
+        { code: 'TooManyItemsError', details: { max: 3, actual: 4 } },
+      ]);
+      expect(unwrap(duplicated)).toMatchObject([
+        { code: 'DuplicateItemError', details: { key: 2 } },
+      ]);
+    });
+
+    it('should validate every position of a tuple', () => {
+      const Person = tuple(Name, Age);
+
+      expect(Person.info().subType).toBe('tuple');
+      expect(unwrap(Person(['John', 30]))).toEqual(['John', 30]);
+
+      const result = Person(['', -1]);
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.map((e) => e.details)).toEqual([
+          { key: 0, errors: ['EMPTY_NAME'] },
+          { key: 1, errors: ['INVALID_AGE'] },
+        ]);
+      }
+    });
+
+    it('should validate every key and item of a record', () => {
+      const Ages = record(Key, Age);
+
+      expect(Ages.info().subType).toBe('record');
+      expect(unwrap(Ages({ john: 30, jane: 25 }))).toEqual({ john: 30, jane: 25 });
+
+      const result = Ages({ John: 30, jane: -1 });
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toMatchObject([
+          { code: 'InvalidKeyError', details: { key: 'John', errors: ['INVALID_KEY'] } },
+          { code: 'InvalidItemError', details: { key: 'jane', errors: ['INVALID_AGE'] } },
+        ]);
+      }
+    });
+
+    it('should validate items with schemas', () => {
+      const People = array(schema({ name: Name, age: Age }));
+
+      expect(unwrap(People([{ name: 'John', age: 30 }]))).toEqual([{ name: 'John', age: 30 }]);
+
+      const result = People([
+        { name: 'John', age: 30 },
+        { name: '', age: -1 },
+      ]);
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error[0].details).toEqual({
+          key: 1,
+          errors: [{ name: ['EMPTY_NAME'], age: ['INVALID_AGE'] }],
+        });
+      }
+    });
+
+    it('should be used as a schema field', () => {
+      const Team = schema({ name: Name, members: array(Name, { min: 1 }) });
+
+      expect(unwrap(Team({ name: 'Core', members: ['John'] }))).toEqual({
+        name: 'Core',
+        members: ['John'],
+      });
+      expect(unwrap(Team({ name: 'Core', members: [] }))).toMatchObject({
+        members: [{ code: 'TooFewItemsError' }],
+      });
+    });
+
+    it('should register the items as children', () => {
+      const Names = array(Name);
+      const Ages = record(Key, Age);
+
+      expect(Names.tree().children[0].info.id).toBe(Name.info().id);
+      expect(tuple(Name, Age).tree().children).toHaveLength(2);
+      expect(Ages.tree().children.map((c) => c.info.id)).toEqual([Key.info().id, Age.info().id]);
+    });
+  });
+
+  describe('Edge Cases & Error Handling', () => {
+    it('should reject async items, as the collections validate them synchronously', () => {
+      const Email = value(asyncRule(async (email: string) => ok(email)));
+
+      expect(() => array(Email as never)).toThrow(CollectionError);
+      expect(() => tuple(Name, Email as never)).toThrow(
+        'The items of a collection must be sync values or schemas.',
+      );
+      expect(() => record(Key, schema({ email: Email }) as never)).toThrow(CollectionError);
+    });
+
+    it('should accept empty collections', () => {
+      expect(unwrap(array(Name)([]))).toEqual([]);
+      expect(unwrap(tuple()([]))).toEqual([]);
+      expect(unwrap(record(Key, Age)({}))).toEqual({});
+    });
+
+    it('should keep a __proto__ key as an own key of a record', () => {
+      const AnyKey = value(rule((key: string) => ok(key)));
+      const output = unwrap(record(AnyKey, Age)(JSON.parse('{"__proto__": 1, "age": 2}')));
+
+      expect(Object.getPrototypeOf(output)).toBe(Object.prototype);
+      expect(Object.keys(output)).toEqual(['__proto__', 'age']);
+      expect(Object.getOwnPropertyDescriptor(output, '__proto__')?.value).toBe(1);
+    });
+
+    it('should report a tuple with an unexpected length', () => {
+      const result = tuple(Name, Age)(['John'] as unknown as [string, number]);
+
+      expect(unwrap(result)).toMatchObject([
+        { code: 'InvalidTupleLengthError', details: { expected: 2, actual: 1 } },
+      ]);
+    });
+
+    it('should report every constraint error in all mode and only the first in strict mode', () => {
+      const Names = array(Name, { max: 1, unique: true });
+
+      expect(unwrap(Names(['', '']))).toMatchObject([
+        { code: 'TooManyItemsError' },
+        { code: 'DuplicateItemError' },
+        { code: 'InvalidItemError', details: { key: 0 } },
+        { code: 'InvalidItemError', details: { key: 1 } },
+      ]);
+      expect(unwrap(Names(['', ''], 'strict'))).toMatchObject({ code: 'TooManyItemsError' });
+    });
+
+    it('should compare unique items with SameValueZero', () => {
+      const Numbers = array(value(rule((n: number) => ok(n))), { unique: true });
+
+      expect(isOk(Numbers([0, -0, 1]))).toBe(false);
+      expect(unwrap(Numbers([1, NaN, NaN]))).toMatchObject([{ details: { key: 2 } }]);
+      expect(isOk(Numbers([1, 2, 3]))).toBe(true);
+    });
+
+    it('should validate nested collections', () => {
+      const Matrix = array(array(Age));
+      const result = Matrix([
+        [1, 2],
+        [3, -1],
+      ]);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error[0]).toMatchObject({
+          details: {
+            key: 1,
+            errors: [{ code: 'InvalidItemError', details: { key: 1, errors: ['INVALID_AGE'] } }],
+          },
+        });
+      }
+    });
+  });
+
+  describe('Type Safety', () => {
+    it('should infer the values and errors of an array', () => {
+      const Names = array(Name);
+
+      expectTypeOf(Names).toEqualTypeOf<
+        Value<
+          string[],
+          InvalidItem<number, 'EMPTY_NAME'> | TooFewItems | TooManyItems | DuplicateItem
+        >
+      >();
+    });
+
+    it('should infer the values and errors of a tuple', () => {
+      const Person = tuple(Name, Age);
+
+      expectTypeOf(Person(['John', 30])).toEqualTypeOf<
+        Result<
+          [string, number],
+          (InvalidItem<number, 'EMPTY_NAME' | 'INVALID_AGE'> | InvalidTupleLength)[]
+        >
+      >();
+    });
+
+    it('should infer the values and errors of a record', () => {
+      const Ages = record(Key, Age);
+
+      expectTypeOf(Ages({ john: 30 }, 'strict')).toEqualTypeOf<
+        Result<
+          Record<string, number>,
+          InvalidKey<'INVALID_KEY'> | InvalidItem<string, 'INVALID_AGE'>
+        >
+      >();
+    });
+
+    it('should carry the collection values through the schema values', () => {
+      const Team = schema({
+        name: Name,
+        members: array(schema({ name: Name, age: Age })),
+        scores: record(Key, Age),
+      });
+
+      expectTypeOf(Team).parameter(0).toEqualTypeOf<{
+        name: string;
+        members: { name: string; age: number }[];
+        scores: Record<string, number>;
+      }>();
+    });
+  });
+});
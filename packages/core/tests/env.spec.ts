@@ -1,6 +1,7 @@
 import { describe, expect, expectTypeOf, it } from 'vitest';
 
 import { EnvError, env } from '../src/env';
+import { optional, withDefault } from '../src/modifier';
 import { type Result, err, isOk, ok, unwrap } from '../src/result';
 import { schema } from '../src/schema';
 import { rule, value } from '../src/value';
@@ -148,6 +149,51 @@ describe('env', () => {
         cleanup();
       }
     });
+
+    it('should allow missing optional variables and variables with a default', () => {
+      const cleanup = helpers.mockEnv({ REDIS_HOST: 'localhost' });
+
+      try {
+        const { REDIS_HOST, REDIS_PORT } = helpers.createRedisSchema();
+        const redisConfig = env(
+          schema({
+            REDIS_HOST,
+            REDIS_PORT: withDefault(REDIS_PORT, 6379),
+            REDIS_PASSWORD: optional(REDIS_HOST),
+          }),
+        );
+
+        expect(unwrap(redisConfig())).toEqual({ REDIS_HOST: 'localhost', REDIS_PORT: 6379 });
+        expect(unwrap(redisConfig())).not.toHaveProperty('REDIS_PASSWORD');
+      } finally {
+        cleanup();
+      }
+    });
+
+    it('should apply the unknown keys policy of the schema', () => {
+      const cleanup = helpers.mockEnv({
+        REDIS_HOST: 'localhost',
+        REDIS_PORT: '6379',
+        UNRELATED_VAR: 'value',
+      });
+
+      try {
+        const { REDIS_HOST, REDIS_PORT } = helpers.createRedisSchema();
+        const stripConfig = env(schema({ REDIS_HOST, REDIS_PORT }, { unknownKeys: 'strip' }));
+        const passthroughConfig = env(
+          schema({ REDIS_HOST, REDIS_PORT }, { unknownKeys: 'passthrough' }),
+        );
+
+        expect(unwrap(stripConfig())).toEqual({ REDIS_HOST: 'localhost', REDIS_PORT: 6379 });
+        expect(unwrap(passthroughConfig())).toMatchObject({
+          REDIS_HOST: 'localhost',
+          REDIS_PORT: 6379,
+          UNRELATED_VAR: 'value',
+        });
+      } finally {
+        cleanup();
+      }
+    });
   });
 
   describe('Edge Cases & Error Handling', () => {
@@ -166,6 +212,14 @@ describe('env', () => {
       }
     });
 
+    it('should throw error for schemas with the strict unknown keys policy', () => {
+      const { REDIS_HOST, REDIS_PORT } = helpers.createRedisSchema();
+      const StrictSchema = schema({ REDIS_HOST, REDIS_PORT }, { unknownKeys: 'strict' });
+
+      expect(() => env(StrictSchema)).toThrow(EnvError);
+      expect(() => env(StrictSchema)).toThrow("Unsupported 'strict' unknown keys policy");
+    });
+
     it('should throw error for missing environment variables', () => {
       const cleanup = helpers.mockEnv({});
 
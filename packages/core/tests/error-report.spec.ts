@@ -0,0 +1,172 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import { array, record } from '../src/collection';
+import { defineError } from '../src/error';
+import {
+  type FlatError,
+  type MessageCatalogue,
+  flattenErrors,
+  formatErrors,
+} from '../src/error-report';
+import { parse } from '../src/parse';
+import { err, ok, unwrap } from '../src/result';
+import { schema } from '../src/schema';
+import { discriminatedUnion, union } from '../src/union';
+import { rule, value } from '../src/value';
+
+const TooShort = defineError('TooShortError', {
+  context: 'User',
+  origin: 'name',
+  message: (details: { min: number; actual: number }) =>
+    `Name must have at least ${details.min} characters`,
+});
+
+const Name = value(
+  rule((name: string) =>
+    name.length >= 3 ? ok(name) : err(TooShort({ min: 3, actual: name.length })),
+  ),
+);
+const Age = value(rule((age: number) => (age >= 0 ? ok(age) : err('INVALID_AGE'))));
+const Tag = value(rule((tag: string) => (tag.length > 0 ? ok(tag) : err('EMPTY_TAG'))));
+
+const UserSchema = schema({
+  name: Name,
+  age: Age,
+  address: schema({ street: Name }),
+  tags: array(Tag),
+});
+
+const invalidUser = { name: 'Jo', age: -1, address: { street: 'A' }, tags: ['admin', ''] };
+
+describe('error-report', () => {
+  describe('Public API', () => {
+    it('should flatten the errors of a schema with their paths', () => {
+      expect(flattenErrors(unwrap(UserSchema(invalidUser)))).toEqual([
+        {
+          path: ['name'],
+          code: 'TooShortError',
+          message: 'Name must have at least 3 characters',
+          details: { min: 3, actual: 2 },
+        },
+        { path: ['age'], code: 'INVALID_AGE', message: 'INVALID_AGE' },
+        {
+          path: ['address', 'street'],
+          code: 'TooShortError',
+          message: 'Name must have at least 3 characters',
+          details: { min: 3, actual: 1 },
+        },
+        { path: ['tags', '1'], code: 'EMPTY_TAG', message: 'EMPTY_TAG' },
+      ]);
+    });
+
+    it('should flatten the errors of the strict mode and of values', () => {
+      expect(flattenErrors(unwrap(UserSchema(invalidUser, 'strict')))).toEqual([
+        expect.objectContaining({ path: ['name'], code: 'TooShortError' }),
+      ]);
+      expect(flattenErrors(unwrap(Age(-1)))).toEqual([
+        { path: [], code: 'INVALID_AGE', message: 'INVALID_AGE' },
+      ]);
+    });
+
+    it('should translate the messages with a catalogue', () => {
+      const messages: MessageCatalogue = {
+        TooShortError: 'Debe tener al menos {min} caracteres ({actual})',
+        INVALID_AGE: 'La edad no es válida',
+        EMPTY_TAG: (_, error) => `Etiqueta vacía [${error.code}]`,
+      };
+
+      expect(
+        flattenErrors(unwrap(UserSchema(invalidUser)), { messages }).map((e) => e.message),
+      ).toEqual([
+        'Debe tener al menos 3 caracteres (2)',
+        'La edad no es válida',
+        'Debe tener al menos 3 caracteres (1)',
+        'Etiqueta vacía [EMPTY_TAG]',
+      ]);
+    });
+
+    it('should format the errors as human readable lines', () => {
+      expect(formatErrors(unwrap(UserSchema(invalidUser)))).toBe(
+        [
+          'name: Name must have at least 3 characters (TooShortError)',
+          'age: INVALID_AGE',
+          'address.street: Name must have at least 3 characters (TooShortError)',
+          'tags.1: EMPTY_TAG',
+        ].join('\n'),
+      );
+      expect(formatErrors(unwrap(Age(-1)), { messages: { INVALID_AGE: 'Invalid age' } })).toBe(
+        'Invalid age (INVALID_AGE)',
+      );
+    });
+  });
+
+  describe('Edge Cases & Error Handling', () => {
+    it('should report the shape errors of parse at their paths', () => {
+      expect(
+        flattenErrors(unwrap(parse(UserSchema, { age: 30, address: 'Main St', tags: [] }))),
+      ).toEqual([
+        expect.objectContaining({ path: ['name'], code: 'MissingKeyError' }),
+        expect.objectContaining({ path: ['address'], code: 'InvalidTypeError' }),
+      ]);
+      expect(
+        flattenErrors(unwrap(parse(UserSchema, { name: 'John', age: 30, address: {}, tags: [] }))),
+      ).toEqual([
+        expect.objectContaining({ path: ['address', 'street'], code: 'MissingKeyError' }),
+      ]);
+    });
+
+    it('should report the errors of the record keys at their keys', () => {
+      const Scores = record(Tag, Age);
+
+      expect(flattenErrors(unwrap(Scores({ '': 1, math: -1 })))).toEqual([
+        { path: [''], code: 'EMPTY_TAG', message: 'EMPTY_TAG' },
+        { path: ['math'], code: 'INVALID_AGE', message: 'INVALID_AGE' },
+      ]);
+    });
+
+    it('should report the errors of the union branches at their branch', () => {
+      const Contact = schema({ owner: union(schema({ name: Name }), schema({ age: Age })) });
+      const Shape = discriminatedUnion('kind', { circle: schema({ radius: Age }) });
+
+      expect(flattenErrors(unwrap(Contact({ owner: { name: 'Jo', age: -1 } as never })))).toEqual([
+        expect.objectContaining({ path: ['owner', '0', 'name'], code: 'TooShortError' }),
+        expect.objectContaining({ path: ['owner', '1', 'age'], code: 'INVALID_AGE' }),
+      ]);
+      expect(flattenErrors(unwrap(Shape({ kind: 'circle', radius: -1 })))).toEqual([
+        { path: ['circle', 'radius'], code: 'INVALID_AGE', message: 'INVALID_AGE' },
+      ]);
+    });
+
+    it('should not take a schema field named code as an error', () => {
+      const Code = value(rule((code: string) => (code.length > 0 ? ok(code) : err('EMPTY_CODE'))));
+      const CouponSchema = schema({ code: Code, amount: Age });
+
+      expect(flattenErrors(unwrap(CouponSchema({ code: '', amount: -1 }, 'strict')))).toEqual([
+        { path: ['code'], code: 'EMPTY_CODE', message: 'EMPTY_CODE' },
+      ]);
+      expect(flattenErrors(unwrap(CouponSchema({ code: '', amount: -1 })))).toEqual([
+        { path: ['code'], code: 'EMPTY_CODE', message: 'EMPTY_CODE' },
+        { path: ['amount'], code: 'INVALID_AGE', message: 'INVALID_AGE' },
+      ]);
+    });
+
+    it('should keep the placeholders without details', () => {
+      expect(
+        flattenErrors(['INVALID_AGE'], { messages: { INVALID_AGE: 'Invalid {field}' } }),
+      ).toEqual([{ path: [], code: 'INVALID_AGE', message: 'Invalid {field}' }]);
+    });
+
+    it('should return no errors for empty errors', () => {
+      expect(flattenErrors({})).toEqual([]);
+      expect(flattenErrors([])).toEqual([]);
+      expect(formatErrors([])).toBe('');
+    });
+  });
+
+  describe('Type Safety', () => {
+    it('should provide correct type inference for all public elements', () => {
+      expectTypeOf(flattenErrors({})).toEqualTypeOf<FlatError[]>();
+      expectTypeOf(formatErrors({})).toEqualTypeOf<string>();
+    });
+  });
+});
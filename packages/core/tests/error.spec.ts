@@ -0,0 +1,173 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import { type DefinedError, defineError } from '../src/error';
+import { type YieldableResult, err, ok, unwrap } from '../src/result';
+
+// Shared test utilities.
+const TooShort = defineError('TooShortError', {
+  context: 'StringValue',
+  origin: 'minLength',
+  message: (details: { min: number; actual: number }) =>
+    `String length ${details.actual} is less than minimum ${details.min}`,
+});
+
+const NotString = defineError('NotStringError', {
+  context: 'StringValue',
+  origin: 'isString',
+  message: 'Value is not a string',
+});
+
+const InvalidUsername = defineError('InvalidUsernameError', {
+  context: 'User',
+  origin: 'username',
+  message: 'Username is not valid',
+});
+
+describe('Error', () => {
+  describe('Public API', () => {
+    it('should create errors with parameterised messages and details', () => {
+      const error = TooShort({ min: 3, actual: 1 });
+
+      expect(error).toEqual({
+        code: 'TooShortError',
+        context: 'StringValue',
+        origin: 'minLength',
+        message: 'String length 1 is less than minimum 3',
+        details: { min: 3, actual: 1 },
+      });
+    });
+
+    it('should create errors without details', () => {
+      expect(NotString()).toEqual({
+        code: 'NotStringError',
+        context: 'StringValue',
+        origin: 'isString',
+        message: 'Value is not a string',
+      });
+    });
+
+    it('should link the error to its cause', () => {
+      const cause = TooShort({ min: 3, actual: 1 });
+      const error = InvalidUsername(undefined, { cause });
+
+      expect(error.cause).toBe(cause);
+    });
+
+    it('should be usable as the error of a result', () => {
+      const minLength = (value: string) =>
+        value.length >= 3 ? ok(value) : err(TooShort({ min: 3, actual: value.length }));
+
+      expect(unwrap(minLength('john'))).toBe('john');
+      expect(unwrap(minLength('jo'))).toEqual(TooShort({ min: 3, actual: 2 }));
+    });
+
+    it('should expose the code of the factory and a guard', () => {
+      expect(TooShort.code).toBe('TooShortError');
+      expect(TooShort.is(TooShort({ min: 1, actual: 0 }))).toBe(true);
+      expect(TooShort.is(NotString())).toBe(false);
+      expect(TooShort.is({ code: 'TooShortError' })).toBe(false);
+      expect(TooShort.is(null)).toBe(false);
+    });
+
+    it('should recognise the errors revived from JSON', () => {
+      const revived: unknown = JSON.parse(JSON.stringify(TooShort({ min: 3, actual: 1 })));
+
+      expect(TooShort.is(revived)).toBe(true);
+      expect(TooShort.is({ ...(revived as object), context: 'Other' })).toBe(false);
+      if (TooShort.is(revived)) {
+        expect(revived.details).toEqual({ min: 3, actual: 1 });
+      }
+    });
+
+    it('should serialize the error and the cause chain to JSON', () => {
+      const error = InvalidUsername(undefined, { cause: TooShort({ min: 3, actual: 1 }) });
+
+      expect(JSON.parse(JSON.stringify(error))).toEqual({
+        code: 'InvalidUsernameError',
+        context: 'User',
+        origin: 'username',
+        message: 'Username is not valid',
+        cause: {
+          code: 'TooShortError',
+          context: 'StringValue',
+          origin: 'minLength',
+          message: 'String length 1 is less than minimum 3',
+          details: { min: 3, actual: 1 },
+        },
+      });
+    });
+
+    it('should format the error and the cause chain', () => {
+      const error = InvalidUsername(undefined, {
+        cause: TooShort({ min: 3, actual: 1 }, { cause: new TypeError('Boom') }),
+      });
+
+      expect(error.format()).toBe(
+        [
+          '[User.username] InvalidUsernameError: Username is not valid',
+          '  Caused by: [StringValue.minLength] TooShortError: String length 1 is less than minimum 3 {"min":3,"actual":1}',
+          '    Caused by: TypeError: Boom',
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('Edge Cases & Error Handling', () => {
+    it('should serialize native errors causes', () => {
+      const error = NotString(undefined, { cause: new Error('Unexpected') });
+      expect(error.toJSON().cause).toEqual({ name: 'Error', message: 'Unexpected' });
+    });
+
+    it('should format plain result errors and primitive causes', () => {
+      const plain = { code: 'PlainError', message: 'Plain message' };
+
+      expect(NotString(undefined, { cause: plain }).format()).toContain(
+        'Caused by: PlainError: Plain message',
+      );
+      expect(NotString(undefined, { cause: 'NOT_FOUND' }).format()).toContain(
+        'Caused by: NOT_FOUND',
+      );
+    });
+
+    it('should format the bigint details and causes', () => {
+      const TooLarge = defineError('TooLargeError', {
+        context: 'BigIntValue',
+        origin: 'max',
+        message: (details: { max: bigint }) => `Value is greater than ${details.max}`,
+      });
+
+      expect(TooLarge({ max: 10n }).format()).toBe(
+        '[BigIntValue.max] TooLargeError: Value is greater than 10 {"max":"10n"}',
+      );
+      expect(NotString(undefined, { cause: { limit: 10n } }).format()).toContain(
+        'Caused by: {"limit":"10n"}',
+      );
+    });
+
+    it('should not expose the methods as own properties', () => {
+      const error = TooShort({ min: 3, actual: 1 });
+      expect(Object.keys(error)).toEqual(['code', 'context', 'origin', 'message', 'details']);
+    });
+  });
+
+  describe('Type Safety', () => {
+    it('should provide correct type inference for all public elements', () => {
+      expectTypeOf(defineError).toBeFunction();
+      expectTypeOf(TooShort.code).toEqualTypeOf<'TooShortError'>();
+    });
+
+    it('should infer the details from the message function', () => {
+      expectTypeOf(TooShort).parameter(0).toEqualTypeOf<{ min: number; actual: number }>();
+      expectTypeOf(TooShort({ min: 3, actual: 1 })).toEqualTypeOf<
+        DefinedError<'TooShortError', 'StringValue', 'minLength', { min: number; actual: number }>
+      >();
+      expectTypeOf(NotString).toBeCallableWith();
+    });
+
+    it('should infer the error type of a result', () => {
+      expectTypeOf(err(NotString())).toEqualTypeOf<
+        YieldableResult<never, DefinedError<'NotStringError', 'StringValue', 'isString', void>>
+      >();
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+
+import { array } from '../src/collection';
+import { type CircularInput, type LazyValue, LazyError, lazy } from '../src/lazy';
+import { optional } from '../src/modifier';
+import { type Result, err, isOk, ok, unwrap } from '../src/result';
+import { type AnySchema, schema } from '../src/schema';
+import { asyncRule, isValue, rule, value } from '../src/value';
+
+type Category = { name: string; children: Category[] };
+
+const Name = value(rule((name: string) => (name.length > 0 ? ok(name) : err('EMPTY_NAME'))));
+
+const CategorySchema = schema({
+  name: Name,
+  children: array(lazy<Category>((): AnySchema => CategorySchema)),
+});
+
+describe('lazy', () => {
+  describe('Public API', () => {
+    it('should validate recursive schemas', () => {
+      const tree = {
+        name: 'Books',
+        children: [
+          { name: 'Fiction', children: [{ name: 'Fantasy', children: [] }] },
+          { name: 'History', children: [] },
+        ],
+      };
+
+      expect(unwrap(CategorySchema(tree))).toEqual(tree);
+      expect(
+        isOk(
+          CategorySchema({
+            name: 'Books',
+            children: [{ name: 'Fiction', children: [{ name: '', children: [] }] }],
+          }),
+        ),
+      ).toBe(false);
+    });
+
+    it('should defer the getter until the first validation', () => {
+      const getter = vi.fn((): AnySchema => schema({ name: Name }));
+      const Lazy = lazy<{ name: string }>(getter);
+
+      expect(isValue(Lazy)).toBe(true);
+      expect(Lazy.info().subType).toBe('lazy');
+      expect(getter).not.toHaveBeenCalled();
+      expect(unwrap(Lazy({ name: 'John' }))).toEqual({ name: 'John' });
+      expect(unwrap(Lazy({ name: '' }, 'strict'))).toEqual({ name: 'EMPTY_NAME' });
+      expect(getter).toHaveBeenCalledTimes(1);
+      expect(Lazy.resolve()).toBe(getter.mock.results[0].value);
+    });
+
+    it('should be accepted by schemas and modifiers before the target exists', () => {
+      type Comment = { text: string; reply?: Comment | undefined };
+
+      const CommentSchema = schema({
+        text: Name,
+        reply: optional(lazy<Comment>((): AnySchema => CommentSchema)),
+      });
+
+      expect(unwrap(CommentSchema({ text: 'Hi', reply: { text: 'Hello' } }))).toEqual({
+        text: 'Hi',
+        reply: { text: 'Hello' },
+      });
+      expect(unwrap(CommentSchema({ text: 'Hi', reply: { text: '' } }))).toEqual({
+        reply: [{ text: ['EMPTY_NAME'] }],
+      });
+    });
+  });
+
+  describe('Edge Cases & Error Handling', () => {
+    it('should reject the inputs that refer to themselves', () => {
+      const root: Category = { name: 'Books', children: [] };
+      root.children.push(root);
+
+      // The root is first validated by the schema, then twice by the lazy items.
+      expect(unwrap(CategorySchema(root, 'strict'))).toMatchObject({
+        children: {
+          code: 'InvalidItemError',
+          details: {
+            key: 0,
+            errors: [
+              {
+                children: {
+                  details: { key: 0, errors: [{ code: 'CircularInputError', context: 'Lazy' }] },
+                },
+              },
+            ],
+          },
+        },
+      });
+    });
+
+    it('should accept the same input twice when it is not its own child', () => {
+      const leaf = { name: 'Fantasy', children: [] };
+
+      expect(unwrap(CategorySchema({ name: 'Books', children: [leaf, leaf] }))).toEqual({
+        name: 'Books',
+        children: [leaf, leaf],
+      });
+    });
+
+    it('should throw when the getter does not return a sync value or schema', () => {
+      const Async = value(asyncRule(async (name: string) => ok(name)));
+
+      expect(() => lazy<string>(() => ({}) as never)('John')).toThrow(LazyError);
+      expect(() => lazy<string>(() => Async as never)('John')).toThrow(
+        'The lazy target must be a sync value or schema.',
+      );
+    });
+
+    it('should build the tree of a recursive schema without duplicated children', () => {
+      const log = vi.spyOn(console, 'log');
+      const tree = CategorySchema.tree();
+
+      expect(log).not.toHaveBeenCalled();
+      expect(tree.children.map((child) => child.info.tag)).toEqual(['Value', 'Value']);
+      expect(tree.children[1].children[0].info.subType).toBe('lazy');
+      expect(tree.children[1].children[0].children).toEqual([]);
+      log.mockRestore();
+    });
+  });
+
+  describe('Type Safety', () => {
+    it('should infer the types of recursive schemas', () => {
+      expectTypeOf(CategorySchema.Output).toEqualTypeOf<{ name: string; children: Category[] }>();
+      expectTypeOf(CategorySchema.Input).toEqualTypeOf<{ name: string; children: Category[] }>();
+
+      const Count = lazy<number, 'INVALID'>(() =>
+        value(rule((count: number) => (count >= 0 ? ok(count) : err('INVALID')))),
+      );
+
+      expectTypeOf(Count).toEqualTypeOf<LazyValue<number, 'INVALID'>>();
+      expectTypeOf(Count(1)).toEqualTypeOf<Result<number, ('INVALID' | CircularInput)[]>>();
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import { defineError } from '../src/error';
+import { matchError } from '../src/match-error';
+import { err, isErr, ok } from '../src/result';
+import { schema } from '../src/schema';
+import { rule, value } from '../src/value';
+
+// Shared test utilities.
+const TooShort = defineError('TooShortError', {
+  context: 'StringValue',
+  origin: 'minLength',
+  message: (details: { min: number }) => `String length is less than ${details.min}`,
+});
+
+const InvalidEmail = defineError('InvalidEmail', {
+  context: 'StringValue',
+  origin: 'email',
+  message: 'Value is not a valid email',
+});
+
+type SignUpError =
+  ReturnType<typeof TooShort> | ReturnType<typeof InvalidEmail> | 'INVALID_ENUM_VALUE';
+
+const errors: SignUpError[] = [TooShort({ min: 3 }), InvalidEmail(), 'INVALID_ENUM_VALUE'];
+
+describe('Match error', () => {
+  describe('Public API', () => {
+    it('should match every code of an error union', () => {
+      const describe = (error: SignUpError) =>
+        matchError(error, {
+          TooShortError: (e) => `min ${e.details.min}`,
+          InvalidEmail: (e) => e.message,
+          INVALID_ENUM_VALUE: (e) => e.toLowerCase(),
+        });
+
+      expect(errors.map(describe)).toEqual([
+        'min 3',
+        'Value is not a valid email',
+        'invalid_enum_value',
+      ]);
+    });
+
+    it('should use the fallback handler for the missing codes', () => {
+      const isTooShort = (error: SignUpError) =>
+        matchError(error, {
+          TooShortError: () => true,
+          _: () => false,
+        });
+
+      expect(errors.map(isTooShort)).toEqual([true, false, false]);
+    });
+
+    it('should match every error of a schema error record keyed by field', () => {
+      const UserSchema = schema({
+        name: value(
+          rule((name: string) => (name.length > 2 ? ok(name) : err(TooShort({ min: 3 })))),
+        ),
+        email: value(
+          rule((email: string) => (email.includes('@') ? ok(email) : err(InvalidEmail()))),
+        ),
+      });
+
+      const result = UserSchema({ name: 'Jo', email: 'john' });
+      expect(isErr(result)).toBe(true);
+
+      if (isErr(result)) {
+        const messages = matchError(result.error, {
+          TooShortError: (e) => `Use at least ${e.details.min} characters`,
+          InvalidEmail: () => 'Use a valid email',
+        });
+
+        expect(messages).toEqual({
+          name: ['Use at least 3 characters'],
+          email: ['Use a valid email'],
+        });
+      }
+    });
+
+    it('should match the error records of nested schemas', () => {
+      const UserSchema = schema({
+        email: value(
+          rule((email: string) => (email.includes('@') ? ok(email) : err(InvalidEmail()))),
+        ),
+        address: schema({
+          street: value(
+            rule((street: string) => (street.length > 2 ? ok(street) : err(TooShort({ min: 3 })))),
+          ),
+        }),
+      });
+
+      const result = UserSchema({ email: 'john', address: { street: 'A' } });
+      expect(isErr(result)).toBe(true);
+
+      if (isErr(result)) {
+        const messages = matchError(result.error, {
+          TooShortError: (e) => `Use at least ${e.details.min} characters`,
+          InvalidEmail: () => 'Use a valid email',
+        });
+
+        expect(messages).toEqual({
+          email: ['Use a valid email'],
+          address: { street: ['Use at least 3 characters'] },
+        });
+        expectTypeOf(messages.address).toEqualTypeOf<{ street: string[] }>();
+      }
+    });
+
+    it('should match strict mode error records', () => {
+      const result = matchError(
+        { role: 'INVALID_ENUM_VALUE' as const },
+        {
+          INVALID_ENUM_VALUE: () => 'Unknown role',
+        },
+      );
+
+      expect(result).toEqual({ role: 'Unknown role' });
+    });
+  });
+
+  describe('Edge Cases & Error Handling', () => {
+    it('should not mistake an error record with a code field for an error', () => {
+      const result = matchError(
+        { code: 'INVALID_ENUM_VALUE' as const, email: InvalidEmail() },
+        {
+          INVALID_ENUM_VALUE: () => 'Unknown code',
+          InvalidEmail: () => 'Invalid email',
+          _: () => 'Invalid value',
+        },
+      );
+
+      expect(result).toEqual({ code: 'Unknown code', email: 'Invalid email' });
+    });
+
+    it('should not match inherited properties of the cases', () => {
+      const result = matchError('toString' as string, { _: () => 'fallback' });
+      expect(result).toBe('fallback');
+    });
+  });
+
+  describe('Type Safety', () => {
+    it('should provide correct type inference for all public elements', () => {
+      expectTypeOf(matchError).toBeFunction();
+    });
+
+    it('should narrow the error and infer the returned union', () => {
+      const result = matchError(errors[0], {
+        TooShortError: (e) => {
+          expectTypeOf(e).toEqualTypeOf<ReturnType<typeof TooShort>>();
+          return e.details.min;
+        },
+        _: (e) => {
+          expectTypeOf(e).toEqualTypeOf<SignUpError>();
+          return null;
+        },
+      });
+
+      expectTypeOf(result).toEqualTypeOf<number | null>();
+    });
+
+    it('should fail to type-check when a case is missing', () => {
+      // @ts-expect-error - The INVALID_ENUM_VALUE case is missing.
+      matchError(errors[0], {
+        TooShortError: () => 1,
+        InvalidEmail: () => 2,
+      });
+    });
+  });
+});
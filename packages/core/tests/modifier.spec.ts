@@ -0,0 +1,161 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import {
+  type DefaultValue,
+  type NullableValue,
+  type OptionalValue,
+  modifierOf,
+  nullable,
+  optional,
+  withDefault,
+} from '../src/modifier';
+import { type Result, err, isOk, ok, unwrap } from '../src/result';
+import { schema } from '../src/schema';
+import { asyncRule, isAsync, isValue, rule, value } from '../src/value';
+
+const Name = value(rule((name: string) => (name.length > 0 ? ok(name) : err('EMPTY_NAME'))));
+const Age = value(rule((age: number) => (age >= 0 ? ok(age) : err('INVALID_AGE'))));
+
+describe('modifier', () => {
+  describe('Public API', () => {
+    it('should accept undefined with an optional value', () => {
+      const OptionalName = optional(Name);
+
+      expect(isValue(OptionalName)).toBe(true);
+      expect(OptionalName.info().subType).toBe('optional');
+      expect(unwrap(OptionalName(undefined))).toBeUndefined();
+      expect(unwrap(OptionalName('John'))).toBe('John');
+      expect(unwrap(OptionalName(''))).toEqual(['EMPTY_NAME']);
+    });
+
+    it('should accept null with a nullable value', () => {
+      const NullableName = nullable(Name);
+
+      expect(NullableName.info().subType).toBe('nullable');
+      expect(unwrap(NullableName(null))).toBeNull();
+      expect(unwrap(NullableName('John'))).toBe('John');
+      expect(unwrap(NullableName('', 'strict'))).toBe('EMPTY_NAME');
+    });
+
+    it('should use the fallback of a value with a default', () => {
+      const DefaultAge = withDefault(Age, 18);
+
+      expect(DefaultAge.info().subType).toBe('default');
+      expect(DefaultAge.fallback).toBe(18);
+      expect(unwrap(DefaultAge(undefined))).toBe(18);
+      expect(unwrap(DefaultAge(30))).toBe(30);
+      expect(unwrap(DefaultAge(-1))).toEqual(['INVALID_AGE']);
+    });
+
+    it('should honour the modifiers as schema fields', () => {
+      const Profile = schema({
+        name: Name,
+        nickname: optional(Name),
+        bio: nullable(Name),
+        age: withDefault(Age, 18),
+      });
+
+      expect(unwrap(Profile({ name: 'John', bio: null }))).toEqual({
+        name: 'John',
+        bio: null,
+        age: 18,
+      });
+      expect(unwrap(Profile({ name: 'John', nickname: 'Johnny', bio: 'Hi', age: 30 }))).toEqual({
+        name: 'John',
+        nickname: 'Johnny',
+        bio: 'Hi',
+        age: 30,
+      });
+      expect(unwrap(Profile({ name: 'John', nickname: '', bio: null }))).toEqual({
+        nickname: ['EMPTY_NAME'],
+      });
+    });
+
+    it('should get the modifier of a value', () => {
+      expect(modifierOf(optional(Name))).toBe('optional');
+      expect(modifierOf(nullable(Name))).toBe('nullable');
+      expect(modifierOf(withDefault(Age, 18))).toBe('default');
+      expect(modifierOf(Name)).toBeNull();
+    });
+  });
+
+  describe('Edge Cases & Error Handling', () => {
+    it('should await an async value', async () => {
+      const Email = value(
+        asyncRule(async (email: string) =>
+          email.includes('@') ? ok(email) : err('INVALID_EMAIL'),
+        ),
+      );
+      const OptionalEmail = optional(Email);
+
+      expect(isAsync(OptionalEmail)).toBe(true);
+      expect(unwrap(await OptionalEmail(undefined))).toBeUndefined();
+      expect(unwrap(await OptionalEmail('john@mail.com'))).toBe('john@mail.com');
+      expect(unwrap(await OptionalEmail('john', 'strict'))).toBe('INVALID_EMAIL');
+      expect(isAsync(optional(Name))).toBe(false);
+    });
+
+    it('should not add missing optional keys to the schema output', () => {
+      const Patch = schema({ name: optional(Name), age: optional(Age) });
+
+      const result = Patch({ age: 30 });
+      expect(isOk(result)).toBe(true);
+      expect(unwrap(result)).toEqual({ age: 30 });
+      expect(unwrap(result)).not.toHaveProperty('name');
+      expect(unwrap(Patch({ name: undefined }))).toHaveProperty('name', undefined);
+    });
+
+    it('should combine modifiers', () => {
+      const Nickname = optional(nullable(Name));
+
+      expect(unwrap(Nickname(undefined))).toBeUndefined();
+      expect(unwrap(Nickname(null))).toBeNull();
+      expect(unwrap(Nickname('Johnny'))).toBe('Johnny');
+      expect(Nickname.tree().children[0].info.subType).toBe('nullable');
+    });
+
+    it('should register the wrapped value as a child', () => {
+      const OptionalName = optional(Name);
+
+      expect(OptionalName.tree().children[0].info.id).toBe(Name.info().id);
+    });
+  });
+
+  describe('Type Safety', () => {
+    it('should infer the types of the modified values', () => {
+      expectTypeOf(optional(Name)).toEqualTypeOf<OptionalValue<string, 'EMPTY_NAME'>>();
+      expectTypeOf(nullable(Name)).toEqualTypeOf<NullableValue<string, 'EMPTY_NAME'>>();
+      expectTypeOf(withDefault(Age, 18)).toEqualTypeOf<DefaultValue<number, 'INVALID_AGE'>>();
+      expectTypeOf(withDefault(Age, 18)(undefined)).toEqualTypeOf<
+        Result<number, 'INVALID_AGE'[]>
+      >();
+    });
+
+    it('should infer optional keys and nullable values in the schema type', () => {
+      const Profile = schema({
+        name: Name,
+        nickname: optional(Name),
+        bio: nullable(Name),
+        age: withDefault(Age, 18),
+      });
+
+      expectTypeOf(Profile.Type).toEqualTypeOf<{
+        name: string;
+        bio: string | null;
+        nickname?: string | undefined;
+        age?: number | undefined;
+      }>();
+      expectTypeOf(Profile({ name: 'John', bio: null })).toEqualTypeOf<
+        Result<
+          { name: string; bio: string | null; age: number; nickname?: string | undefined },
+          {
+            name: 'EMPTY_NAME'[];
+            nickname: 'EMPTY_NAME'[];
+            bio: 'EMPTY_NAME'[];
+            age: 'INVALID_AGE'[];
+          }
+        >
+      >();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import { flow } from '../src/flow';
+import {
+  type Option,
+  NoneError,
+  fromNullable,
+  fromResult,
+  isNone,
+  isOption,
+  isSome,
+  none,
+  some,
+  toResult,
+} from '../src/option';
+import { type Result, err, ok, unwrap } from '../src/result';
+
+// Shared test utilities.
+type User = { id: number; name: string };
+
+const users: User[] = [{ id: 1, name: 'John' }];
+
+const findUser = (id: number): Option<User> => fromNullable(users.find((u) => u.id === id));
+
+describe('Option', () => {
+  describe('Public API', () => {
+    it('should create present and absent options', () => {
+      expect(some(1)).toEqual({ _id: 'Option', _tag: 'Some', value: 1 });
+      expect(none()).toEqual({ _id: 'Option', _tag: 'None' });
+    });
+
+    it('should check the state of an option', () => {
+      expect(isSome(some(1))).toBe(true);
+      expect(isSome(none())).toBe(false);
+      expect(isNone(none())).toBe(true);
+      expect(isNone(some(1))).toBe(false);
+    });
+
+    it('should check if a value is an option', () => {
+      expect(isOption(some(undefined))).toBe(true);
+      expect(isOption(none())).toBe(true);
+      expect(isOption(ok(1))).toBe(false);
+      expect(isOption({ _id: 'Option', _tag: 'Some' })).toBe(false);
+      expect(isOption(null)).toBe(false);
+      expect(isOption('Option')).toBe(false);
+    });
+
+    it('should create options from nullable values', () => {
+      expect(findUser(1)).toEqual(some({ id: 1, name: 'John' }));
+      expect(findUser(2)).toEqual(none());
+      expect(fromNullable(null)).toEqual(none());
+      expect(fromNullable(0)).toEqual(some(0));
+      expect(fromNullable('')).toEqual(some(''));
+    });
+
+    it('should convert options into results', () => {
+      expect(unwrap(toResult(findUser(1), 'USER_NOT_FOUND'))).toEqual({ id: 1, name: 'John' });
+      expect(unwrap(toResult(findUser(2), 'USER_NOT_FOUND'))).toBe('USER_NOT_FOUND');
+    });
+
+    it('should convert results into options', () => {
+      expect(fromResult(ok(1))).toEqual(some(1));
+      expect(fromResult(err('NOT_FOUND'))).toEqual(none());
+    });
+  });
+
+  describe('Flow integration', () => {
+    it('should accept option steps in map', () => {
+      const fn = flow<number>()
+        .map((id) => findUser(id))
+        .build();
+
+      expect(unwrap(fn(1))).toEqual({ id: 1, name: 'John' });
+      expect(unwrap(fn(2))).toEqual(NoneError());
+    });
+
+    it('should accept option steps in bind', () => {
+      const fn = flow<{ id: number }>()
+        .bind('user', ({ id }) => findUser(id))
+        .map(({ user }) => ok(user.name))
+        .build();
+
+      expect(unwrap(fn({ id: 1 }))).toBe('John');
+      expect(unwrap(fn({ id: 2 }))).toEqual(NoneError());
+    });
+
+    it('should accept async option steps', async () => {
+      const fn = flow<number>()
+        .map(async (id) => findUser(id))
+        .mapErr(() => err('USER_NOT_FOUND'))
+        .build();
+
+      expect(unwrap(await fn(1))).toEqual({ id: 1, name: 'John' });
+      expect(unwrap(await fn(2))).toBe('USER_NOT_FOUND');
+    });
+  });
+
+  describe('Type Safety', () => {
+    it('should provide correct type inference for all public elements', () => {
+      expectTypeOf(some(1)).toEqualTypeOf<Option<number>>();
+      expectTypeOf(none()).toEqualTypeOf<Option<never>>();
+      expectTypeOf(fromNullable(users.find(() => true))).toEqualTypeOf<Option<User>>();
+      expectTypeOf(toResult(some(1), 'EMPTY' as const)).toEqualTypeOf<Result<number, 'EMPTY'>>();
+      expectTypeOf(fromResult(ok('a'))).toEqualTypeOf<Option<string>>();
+    });
+
+    it('should narrow options with the guards', () => {
+      const option = findUser(1);
+      if (isSome(option)) {
+        expectTypeOf(option.value).toEqualTypeOf<User>();
+      }
+    });
+
+    it('should add the none error to the flow errors', () => {
+      const fn = flow<number>()
+        .bind('user', (id) => findUser(id))
+        .build();
+
+      expectTypeOf(fn).returns.toEqualTypeOf<Result<{ user: User }, NoneError>>();
+    });
+  });
+});
@@ -0,0 +1,298 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import { array, record, tuple } from '../src/collection';
+import { lazy } from '../src/lazy';
+import { nullable, optional, withDefault } from '../src/modifier';
+import { type InvalidType, type MissingKey, type ShapeError, is, parse } from '../src/parse';
+import { type Result, err, isErr, ok, unwrap } from '../src/result';
+import { type AnySchema, schema } from '../src/schema';
+import { discriminatedUnion, union } from '../src/union';
+import { asyncRule, rule, transform, value } from '../src/value';
+
+const Name = value(
+  rule((name: string) => (name.trim().length > 0 ? ok(name) : err('EMPTY_NAME'))),
+).meta({ context: 'User', name: 'Name', description: 'The user name', example: 'John' });
+const Age = value(rule((age: number) => (age >= 0 ? ok(age) : err('INVALID_AGE'))));
+const Street = value(rule((street: string) => (street.length > 0 ? ok(street) : err('EMPTY'))));
+
+const Email = value(
+  asyncRule(async (email: string) => (email.includes('@') ? ok(email) : err('INVALID_EMAIL'))),
+).meta({ context: 'User', name: 'Email', description: 'The user email', example: 'a@b.com' });
+
+const UserSchema = schema({
+  name: Name,
+  age: Age,
+  address: schema({ street: Street }),
+  tags: optional(array(Name)),
+});
+
+describe('parse', () => {
+  describe('Public API', () => {
+    it('should parse a valid unknown input', () => {
+      const body: unknown = { name: 'John', age: 30, address: { street: 'Main St' } };
+
+      expect(unwrap(parse(UserSchema, body))).toEqual({
+        name: 'John',
+        age: 30,
+        address: { street: 'Main St' },
+      });
+      expect(unwrap(parse(Name, 'John'))).toBe('John');
+    });
+
+    it('should report the wrong shapes before running the rules', () => {
+      const result = parse(UserSchema, { name: 42, address: 'Main St', tags: 'admin' });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual([
+          expect.objectContaining({
+            code: 'InvalidTypeError',
+            details: { path: ['name'], expected: 'string', received: 'number' },
+          }),
+          expect.objectContaining({
+            code: 'MissingKeyError',
+            details: { path: [], key: 'age' },
+          }),
+          expect.objectContaining({
+            details: { path: ['address'], expected: 'object', received: 'string' },
+          }),
+          expect.objectContaining({
+            details: { path: ['tags'], expected: 'array', received: 'string' },
+          }),
+        ]);
+      }
+    });
+
+    it('should return the validation errors of a well-shaped input', () => {
+      expect(unwrap(parse(UserSchema, { name: ' ', age: -1, address: { street: '' } }))).toEqual({
+        name: ['EMPTY_NAME'],
+        age: ['INVALID_AGE'],
+        address: { street: ['EMPTY'] },
+      });
+    });
+
+    it('should return the first shape error in strict mode', () => {
+      expect(unwrap(parse(UserSchema, null, 'strict'))).toMatchObject({
+        code: 'InvalidTypeError',
+        context: 'Parse',
+      });
+      expect(unwrap(parse(UserSchema, { name: 1 }, 'strict'))).toMatchObject({
+        details: { path: ['name'], expected: 'string', received: 'number' },
+      });
+    });
+
+    it('should guard an unknown input', () => {
+      const body: unknown = { name: 'John', age: 30, address: { street: 'Main St' } };
+
+      expect(is(UserSchema, body)).toBe(true);
+      expect(is(UserSchema, { ...(body as object), age: -1 })).toBe(false);
+      expect(is(UserSchema, [])).toBe(false);
+      expect(is(Name, 42)).toBe(false);
+    });
+
+    it('should parse and guard an input with async values and schemas', async () => {
+      const ContactSchema = schema({ name: Name, email: Email });
+
+      expect(unwrap(await parse(ContactSchema, { name: 'John', email: 'john@mail.com' }))).toEqual({
+        name: 'John',
+        email: 'john@mail.com',
+      });
+      expect(unwrap(await parse(ContactSchema, { name: 'John', email: 'john' }))).toEqual({
+        email: ['INVALID_EMAIL'],
+      });
+      expect(unwrap(await parse(Email, 'john', 'strict'))).toBe('INVALID_EMAIL');
+      expect(await is(ContactSchema, { name: 'John', email: 'john@mail.com' })).toBe(true);
+      expect(await is(Email, 'john')).toBe(false);
+    });
+
+    it('should return the shape errors of an async validator as a promise', async () => {
+      const result = parse(schema({ email: Email }), { email: 42 }, 'strict');
+
+      expect(result).toBeInstanceOf(Promise);
+      expect(unwrap(await result)).toMatchObject({
+        details: { path: ['email'], expected: 'string', received: 'number' },
+      });
+      expect(await is(Email, null)).toBe(false);
+    });
+  });
+
+  describe('Edge Cases & Error Handling', () => {
+    it('should tell null and arrays apart from objects', () => {
+      expect(unwrap(parse(UserSchema, [], 'strict'))).toMatchObject({
+        details: { expected: 'object', received: 'array' },
+      });
+      expect(unwrap(parse(UserSchema, null, 'strict'))).toMatchObject({
+        details: { expected: 'object', received: 'null' },
+      });
+    });
+
+    it('should honour the field modifiers', () => {
+      const ProfileSchema = schema({
+        nickname: optional(Name),
+        bio: nullable(Name),
+        age: withDefault(Age, 18),
+      });
+
+      expect(unwrap(parse(ProfileSchema, { bio: null }))).toEqual({ bio: null, age: 18 });
+      expect(unwrap(parse(ProfileSchema, { nickname: 1, bio: 1 }))).toEqual([
+        expect.objectContaining({ details: expect.objectContaining({ path: ['nickname'] }) }),
+        expect.objectContaining({ details: expect.objectContaining({ path: ['bio'] }) }),
+      ]);
+      expect(unwrap(parse(ProfileSchema, {}, 'strict'))).toMatchObject({
+        code: 'MissingKeyError',
+        details: { key: 'bio' },
+      });
+    });
+
+    it('should take the kind of a value from its sub-type', () => {
+      const Title = value(
+        rule((title: string) => (title.trim() ? ok(title) : err('EMPTY'))),
+      ).subType('string');
+      const Stock = value(rule((stock: number) => ok(stock))).subType('integer');
+      const Since = value(rule((since: Date) => ok(since))).subType('date');
+      const ProductSchema = schema({ title: Title, stock: Stock, since: Since });
+
+      expect(unwrap(parse(ProductSchema, { title: 5, stock: '1', since: '2025-01-01' }))).toEqual([
+        expect.objectContaining({
+          details: { path: ['title'], expected: 'string', received: 'number' },
+        }),
+        expect.objectContaining({
+          details: { path: ['stock'], expected: 'number', received: 'string' },
+        }),
+        expect.objectContaining({
+          details: { path: ['since'], expected: 'date', received: 'string' },
+        }),
+      ]);
+      expect(is(ProductSchema, { title: 'Book', stock: 1, since: new Date() })).toBe(true);
+    });
+
+    it('should check the items and entries of the collections', () => {
+      const Item = schema({ name: Name });
+
+      expect(unwrap(parse(array(Item), [{ name: 'Pen' }, null]))).toEqual([
+        expect.objectContaining({
+          code: 'InvalidTypeError',
+          details: { path: ['1'], expected: 'object', received: 'null' },
+        }),
+      ]);
+      expect(unwrap(parse(array(Name), ['John', 1], 'strict'))).toMatchObject({
+        details: { path: ['1'], expected: 'string', received: 'number' },
+      });
+      expect(unwrap(parse(tuple(Item, Item), [{ name: 'Pen' }, null], 'strict'))).toMatchObject({
+        details: { path: ['1'], expected: 'object', received: 'null' },
+      });
+      expect(unwrap(parse(record(Name, Item), { pen: null }, 'strict'))).toMatchObject({
+        details: { path: ['pen'], expected: 'object', received: 'null' },
+      });
+      expect(unwrap(parse(schema({ items: array(Item) }), { items: [1] }, 'strict'))).toMatchObject(
+        { details: { path: ['items', '0'], expected: 'object', received: 'number' } },
+      );
+      expect(is(record(Name, array(Item)), { pens: [{ name: 'Pen' }] })).toBe(true);
+    });
+
+    it('should check the branches of the unions', () => {
+      const Item = schema({ name: Name });
+      const Shape = discriminatedUnion('type', {
+        circle: schema({ radius: Age }),
+        square: schema({ side: Age }),
+      });
+
+      expect(unwrap(parse(union(Item, Name), 1))).toEqual([
+        expect.objectContaining({ details: { path: [], expected: 'object', received: 'number' } }),
+        expect.objectContaining({ details: { path: [], expected: 'string', received: 'number' } }),
+      ]);
+      expect(is(union(Item, Name), 'John')).toBe(true);
+      expect(unwrap(parse(Shape, null, 'strict'))).toMatchObject({
+        details: { path: [], expected: 'object', received: 'null' },
+      });
+      expect(unwrap(parse(Shape, { type: 'circle' }, 'strict'))).toMatchObject({
+        code: 'MissingKeyError',
+        details: { path: [], key: 'radius' },
+      });
+    });
+
+    it('should check the inputs of the lazy values', () => {
+      type Category = { name: string; children: Category[] };
+      const CategorySchema = schema({
+        name: Name,
+        children: array(lazy<Category>((): AnySchema => CategorySchema)),
+      });
+      const root: Category = { name: 'Books', children: [] };
+      root.children.push(root);
+
+      expect(
+        unwrap(parse(CategorySchema, { name: 'Books', children: [null] }, 'strict')),
+      ).toMatchObject({
+        details: { path: ['children', '0'], expected: 'object', received: 'null' },
+      });
+      expect(
+        is(CategorySchema, { name: 'Books', children: [{ name: 'Fantasy', children: [] }] }),
+      ).toBe(true);
+      // The circular input is reported by the lazy value itself.
+      expect(is(CategorySchema, root)).toBe(false);
+    });
+
+    it('should not check the kind of a value that transforms its input first', () => {
+      const Page = value(
+        transform((page: unknown) => Number(page)),
+        rule((page: number) => (page > 0 ? ok(page) : err('INVALID_PAGE'))),
+      ).subType('integer');
+
+      expect(unwrap(parse(Page, '2'))).toBe(2);
+      expect(unwrap(parse(Page, '0', 'strict'))).toBe('INVALID_PAGE');
+    });
+
+    it('should not check the kind of a value without a sub-type or an example', () => {
+      expect(unwrap(parse(Age, -1, 'strict'))).toBe('INVALID_AGE');
+      expect(is(Age, 30)).toBe(true);
+    });
+
+    it('should not treat inherited properties as present keys', () => {
+      const input = Object.create({ name: 'John', age: 30, address: { street: 'Main St' } });
+
+      expect(unwrap(parse(UserSchema, input))).toHaveLength(3);
+    });
+  });
+
+  describe('Type Safety', () => {
+    it('should infer the values and errors of the parsed input', () => {
+      expectTypeOf(parse(Name, 'John')).toEqualTypeOf<
+        Result<string, 'EMPTY_NAME'[] | ShapeError[]>
+      >();
+      expectTypeOf(parse(schema({ age: Age }), {}, 'strict')).toEqualTypeOf<
+        Result<{ age: number }, { age: 'INVALID_AGE' } | InvalidType | MissingKey>
+      >();
+    });
+
+    it('should narrow an unknown input with the guard', () => {
+      const body: unknown = { age: 30 };
+
+      if (is(schema({ age: Age }), body)) {
+        expectTypeOf(body).toEqualTypeOf<{ age: number }>();
+      }
+    });
+
+    it('should narrow to the input type, as the guard does not transform the input', () => {
+      const Page = value(
+        transform((page: string) => Number(page)),
+        rule((page: number) => (page > 0 ? ok(page) : err('INVALID_PAGE'))),
+      );
+      const input: unknown = '2';
+
+      if (is(Page, input)) {
+        expectTypeOf(input).toEqualTypeOf<string>();
+      }
+      expect(is(Page, input)).toBe(true);
+    });
+
+    it('should return promises for async values and schemas', () => {
+      expectTypeOf(parse(Email, 'a@b.com', 'strict')).toEqualTypeOf<
+        Promise<Result<string, 'INVALID_EMAIL' | ShapeError>>
+      >();
+      expectTypeOf(parse(schema({ email: Email }), {}, 'strict')).toEqualTypeOf<
+        Promise<Result<{ email: string }, { email: 'INVALID_EMAIL' } | InvalidType | MissingKey>>
+      >();
+      expectTypeOf(is(Email, 'a@b.com')).toEqualTypeOf<Promise<boolean>>();
+    });
+  });
+});
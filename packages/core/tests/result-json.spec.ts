@@ -0,0 +1,177 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import { defineError } from '../src/error';
+import type { Any } from '../src/generics';
+import { type Result, err, gen, isOk, ok, unwrap } from '../src/result';
+import { type ResultJSON, InvalidResultJSON, fromJSON, toJSON } from '../src/result-json';
+
+// Shared test utilities.
+const TooShort = defineError('TooShortError', {
+  context: 'StringValue',
+  origin: 'minLength',
+  message: (details: { min: number }) => `String length is less than ${details.min}`,
+});
+
+const roundTrip = <T, E>(result: Result<T, E>) =>
+  fromJSON<T, E>(JSON.parse(JSON.stringify(toJSON(result))));
+
+const isNumber = (input: unknown): Result<number, 'NOT_A_NUMBER'> =>
+  typeof input === 'number' ? ok(input) : err('NOT_A_NUMBER');
+
+describe('Result JSON', () => {
+  describe('Public API', () => {
+    it('should encode results preserving the id and tag', () => {
+      expect(toJSON(ok(1))).toEqual({ _id: 'Result', _tag: 'Ok', value: 1 });
+      expect(toJSON(err('NOT_FOUND'))).toEqual({ _id: 'Result', _tag: 'Err', error: 'NOT_FOUND' });
+    });
+
+    it('should round-trip results through JSON', () => {
+      const user = { id: 1, name: 'John', tags: ['admin'] };
+
+      expect(unwrap(roundTrip(ok(user)))).toEqual(user);
+      expect(unwrap(roundTrip(err('NOT_FOUND')))).toBe('NOT_FOUND');
+    });
+
+    it('should revive fully functional results', () => {
+      const result = roundTrip(ok(2));
+
+      const doubled = gen(function* ($) {
+        const value = yield* $(result);
+        return value * 2;
+      });
+
+      expect(unwrap(doubled)).toBe(4);
+    });
+
+    it('should round-trip bigint and date values', () => {
+      const createdAt = new Date('2025-01-01T00:00:00.000Z');
+      const result = roundTrip(ok({ balance: 10n ** 20n, createdAt }));
+
+      expect(unwrap(result)).toEqual({ balance: 100000000000000000000n, createdAt });
+    });
+
+    it('should round-trip result errors and nested schema error records', () => {
+      const error = {
+        name: [TooShort({ min: 3 })],
+        address: {
+          street: [{ code: 'EMPTY', context: 'Street', origin: 'notEmpty', message: '' }],
+        },
+      };
+
+      expect(unwrap(roundTrip(err(error as Any)))).toEqual(error);
+    });
+
+    it('should round-trip native errors', () => {
+      const result = roundTrip(err({ cause: new TypeError('Boom') } as Any));
+      const cause = (unwrap(result) as { cause: Error }).cause;
+
+      expect(cause).toBeInstanceOf(Error);
+      expect(cause).toMatchObject({ name: 'TypeError', message: 'Boom' });
+    });
+
+    it('should produce a structured-clone-safe form', () => {
+      const encoded = toJSON(ok({ balance: 1n, at: new Date(0) }));
+      expect(unwrap(fromJSON(structuredClone(encoded)))).toEqual({ balance: 1n, at: new Date(0) });
+    });
+
+    it('should decode structured clones of results', () => {
+      const result = fromJSON<number, never>(structuredClone(ok(1)));
+
+      expect(isOk(result)).toBe(true);
+      expect(unwrap(result)).toBe(1);
+    });
+
+    it('should validate the decoded value with a validator', () => {
+      const valid = fromJSON(toJSON(ok(1)), { value: isNumber });
+      const forged = fromJSON({ _id: 'Result', _tag: 'Ok', value: 'admin' }, { value: isNumber });
+
+      expect(unwrap(valid)).toBe(1);
+      expect(unwrap(forged)).toEqual(
+        InvalidResultJSON({ reason: 'The value is not valid', errors: 'NOT_A_NUMBER' }),
+      );
+    });
+
+    it('should validate the decoded error with a validator', () => {
+      const isCode = (input: unknown): Result<'NOT_FOUND', 'UNKNOWN_CODE'> =>
+        input === 'NOT_FOUND' ? ok(input) : err('UNKNOWN_CODE');
+
+      expect(unwrap(fromJSON(toJSON(err('NOT_FOUND')), { error: isCode }))).toBe('NOT_FOUND');
+      expect(unwrap(fromJSON(toJSON(err('OTHER')), { error: isCode }))).toEqual(
+        InvalidResultJSON({ reason: 'The error is not valid', errors: 'UNKNOWN_CODE' }),
+      );
+    });
+  });
+
+  describe('Edge Cases & Error Handling', () => {
+    it('should return an error for payloads that are not results', () => {
+      const expected = InvalidResultJSON({ reason: 'The payload is not a result' });
+
+      expect(unwrap(fromJSON(null))).toEqual(expected);
+      expect(unwrap(fromJSON('{"_tag":"Ok"}'))).toEqual(expected);
+      expect(unwrap(fromJSON({ _id: 'Result', _tag: 'Ok' }))).toEqual(expected);
+      expect(unwrap(fromJSON({ _id: 'Result', _tag: 'Maybe', value: 1 }))).toEqual(expected);
+    });
+
+    it('should return an error for invalid tagged values', () => {
+      const payload = (value: unknown) => ({ _id: 'Result', _tag: 'Ok', value });
+
+      expect(unwrap(fromJSON(payload({ $type: 'bigint', value: '1.5' })))).toEqual(
+        InvalidResultJSON({ reason: 'The bigint tagged value is not valid' }),
+      );
+      expect(unwrap(fromJSON(payload([{ $type: 'Date', value: 'not a date' }])))).toEqual(
+        InvalidResultJSON({ reason: 'The Date tagged value is not valid' }),
+      );
+      expect(unwrap(fromJSON(payload({ error: { $type: 'Error', message: 1 } })))).toEqual(
+        InvalidResultJSON({ reason: 'The Error tagged value is not valid' }),
+      );
+      expect(unwrap(fromJSON(payload({ $type: 'Object', value: [] })))).toEqual(
+        InvalidResultJSON({ reason: 'The Object tagged value is not valid' }),
+      );
+      expect(unwrap(fromJSON(payload({ $type: 'Map', value: [] })))).toEqual(
+        InvalidResultJSON({ reason: 'The type tag "Map" is not supported' }),
+      );
+    });
+
+    it('should round-trip user objects with a $type key', () => {
+      const value = { $type: 'Date', value: 'x', nested: { $type: 'bigint', value: 1n } };
+
+      expect(toJSON(ok(value))).toEqual({
+        _id: 'Result',
+        _tag: 'Ok',
+        value: {
+          $type: 'Object',
+          value: {
+            $type: 'Date',
+            value: 'x',
+            nested: {
+              $type: 'Object',
+              value: { $type: 'bigint', value: { $type: 'bigint', value: '1' } },
+            },
+          },
+        },
+      });
+      expect(unwrap(roundTrip(ok(value)))).toEqual(value);
+    });
+
+    it('should keep primitive values untouched', () => {
+      expect(toJSON(ok(null))).toEqual({ _id: 'Result', _tag: 'Ok', value: null });
+      expect(unwrap(roundTrip(ok('text')))).toBe('text');
+      expect(unwrap(roundTrip(ok(true)))).toBe(true);
+    });
+  });
+
+  describe('Type Safety', () => {
+    it('should provide correct type inference for all public elements', () => {
+      expectTypeOf(toJSON).toBeFunction();
+      expectTypeOf(fromJSON).toBeFunction();
+      expectTypeOf(toJSON(ok(1))).toEqualTypeOf<ResultJSON>();
+    });
+
+    it('should infer the value type from the validator', () => {
+      expectTypeOf(fromJSON({}, { value: isNumber })).toEqualTypeOf<Result<number, unknown>>();
+      expectTypeOf(fromJSON<string, 'NOT_FOUND'>({})).toEqualTypeOf<
+        Result<string, 'NOT_FOUND' | InvalidResultJSON>
+      >();
+    });
+  });
+});
@@ -1,6 +1,39 @@
-import { describe, expect, expectTypeOf, it } from 'vitest';
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
 
-import { type Result, err, isErr, isOk, isResult, ok } from '../src/result';
+import { pipe } from '../src/pipe';
+import {
+  type Result,
+  type YieldableResult,
+  ResultPanic,
+  all,
+  allSettled,
+  andThen,
+  any,
+  err,
+  expect as expectOk,
+  gen,
+  isErr,
+  isOk,
+  isResult,
+  map,
+  mapErr,
+  match,
+  ok,
+  orElse,
+  partition,
+  tapErr,
+  tapOk,
+  unwrap,
+  unwrapOr,
+  unwrapOrElse,
+} from '../src/result';
+
+// Shared test utilities.
+const parse = (input: string): Result<number, 'NOT_A_NUMBER'> =>
+  isNaN(Number(input)) ? err('NOT_A_NUMBER') : ok(Number(input));
+
+const positive = (n: number): Result<number, 'NOT_POSITIVE'> =>
+  n > 0 ? ok(n) : err('NOT_POSITIVE');
 
 describe('Result', () => {
   describe('isOk', () => {
@@ -9,7 +42,7 @@ describe('Result', () => {
       expect(isOk(result)).toBe(true);
 
       // Typechecking.
-      expectTypeOf(result).toEqualTypeOf<Result<number, never>>();
+      expectTypeOf(result).toEqualTypeOf<YieldableResult<number, never>>();
     });
 
     it('should return false for Err values', () => {
@@ -17,7 +50,7 @@ describe('Result', () => {
       expect(isOk(result)).toBe(false);
 
       // Typechecking.
-      expectTypeOf(result).toEqualTypeOf<Result<never, 'ERROR'>>();
+      expectTypeOf(result).toEqualTypeOf<YieldableResult<never, 'ERROR'>>();
     });
 
     it('should narrow the type when used as a type guard', () => {
@@ -30,7 +63,7 @@ describe('Result', () => {
       }
 
       // Typechecking.
-      expectTypeOf(result).toEqualTypeOf<Result<number, never>>();
+      expectTypeOf(result).toEqualTypeOf<YieldableResult<number, never>>();
     });
   });
 
@@ -55,7 +88,7 @@ describe('Result', () => {
       }
 
       // Typechecking.
-      expectTypeOf(result).toEqualTypeOf<Result<never, 'ERROR'>>();
+      expectTypeOf(result).toEqualTypeOf<YieldableResult<never, 'ERROR'>>();
     });
   });
 
@@ -65,7 +98,7 @@ describe('Result', () => {
       expect(isResult(result)).toBe(true);
 
       // Typechecking.
-      expectTypeOf(result).toEqualTypeOf<Result<number, never>>();
+      expectTypeOf(result).toEqualTypeOf<YieldableResult<number, never>>();
     });
 
     it('should return true for Err values', () => {
@@ -73,7 +106,7 @@ describe('Result', () => {
       expect(isResult(result)).toBe(true);
 
       // Typechecking.
-      expectTypeOf(result).toEqualTypeOf<Result<never, 'ERROR'>>();
+      expectTypeOf(result).toEqualTypeOf<YieldableResult<never, 'ERROR'>>();
     });
 
     it('should return false for other values', () => {
@@ -102,4 +135,429 @@ describe('Result', () => {
       }
     });
   });
+
+  describe('map', () => {
+    it('should transform the value of Ok results', () => {
+      const result = map(parse('21'), (n) => n * 2);
+      expect(unwrap(result)).toBe(42);
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<Result<number, 'NOT_A_NUMBER'>>();
+    });
+
+    it('should preserve Err results', () => {
+      const fn = vi.fn((n: number) => n * 2);
+      const result = map(parse('abc'), fn);
+      expect(unwrap(result)).toBe('NOT_A_NUMBER');
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should work as a pipeable function', () => {
+      const result = map((n: number) => String(n))(parse('42'));
+      expect(unwrap(result)).toBe('42');
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<Result<string, 'NOT_A_NUMBER'>>();
+    });
+  });
+
+  describe('mapErr', () => {
+    it('should transform the error of Err results', () => {
+      const result = mapErr(parse('abc'), (e) => ({ code: e, input: 'abc' }));
+      expect(unwrap(result)).toEqual({ code: 'NOT_A_NUMBER', input: 'abc' });
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<Result<number, { code: 'NOT_A_NUMBER'; input: string }>>();
+    });
+
+    it('should preserve Ok results', () => {
+      const result = mapErr(parse('1'), () => 'OTHER');
+      expect(unwrap(result)).toBe(1);
+    });
+  });
+
+  describe('andThen', () => {
+    it('should chain functions returning results', () => {
+      const result = andThen(parse('5'), positive);
+      expect(unwrap(result)).toBe(5);
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<Result<number, 'NOT_A_NUMBER' | 'NOT_POSITIVE'>>();
+    });
+
+    it('should return the error of the chained function', () => {
+      expect(unwrap(andThen(parse('-5'), positive))).toBe('NOT_POSITIVE');
+    });
+
+    it('should short-circuit on the first error', () => {
+      const fn = vi.fn(positive);
+      expect(unwrap(andThen(parse('abc'), fn))).toBe('NOT_A_NUMBER');
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('orElse', () => {
+    it('should recover from Err results', () => {
+      const result = orElse(parse('abc'), () => ok(0));
+      expect(unwrap(result)).toBe(0);
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<Result<number, never>>();
+    });
+
+    it('should replace the error with the error of the recovery function', () => {
+      const result = orElse(parse('abc'), (e) => err(`RECOVER_${e}` as const));
+      expect(unwrap(result)).toBe('RECOVER_NOT_A_NUMBER');
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<Result<number, 'RECOVER_NOT_A_NUMBER'>>();
+    });
+
+    it('should preserve Ok results', () => {
+      expect(unwrap(orElse(parse('7'), () => ok(0)))).toBe(7);
+    });
+  });
+
+  describe('match', () => {
+    it('should fold Ok and Err results into a single value', () => {
+      const cases = { onOk: (n: number) => `value: ${n}`, onErr: (e: string) => `error: ${e}` };
+      expect(match(parse('1'), cases)).toBe('value: 1');
+      expect(match(parse('abc'), cases)).toBe('error: NOT_A_NUMBER');
+    });
+
+    it('should infer the union of both case return types', () => {
+      const result = match(parse('1'), { onOk: (n) => n, onErr: (e) => e });
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<number | 'NOT_A_NUMBER'>();
+    });
+  });
+
+  describe('tapOk and tapErr', () => {
+    it('should run side effects only for the matching state', () => {
+      const onOk = vi.fn();
+      const onErr = vi.fn();
+
+      const okResult = tapErr(tapOk(parse('1'), onOk), onErr);
+      expect(onOk).toHaveBeenCalledWith(1);
+      expect(onErr).not.toHaveBeenCalled();
+
+      const errResult = tapErr(tapOk(parse('abc'), onOk), onErr);
+      expect(onOk).toHaveBeenCalledTimes(1);
+      expect(onErr).toHaveBeenCalledWith('NOT_A_NUMBER');
+
+      // Typechecking.
+      expectTypeOf(okResult).toEqualTypeOf<Result<number, 'NOT_A_NUMBER'>>();
+      expectTypeOf(errResult).toEqualTypeOf<Result<number, 'NOT_A_NUMBER'>>();
+    });
+
+    it('should return the same result instance', () => {
+      const result = parse('1');
+      expect(tapOk(result, () => undefined)).toBe(result);
+      expect(tapErr(result, () => undefined)).toBe(result);
+    });
+  });
+
+  describe('unwrapOr and unwrapOrElse', () => {
+    it('should return the value of Ok results', () => {
+      expect(unwrapOr(parse('1'), 0)).toBe(1);
+      expect(unwrapOrElse(parse('1'), () => 0)).toBe(1);
+    });
+
+    it('should return the fallback for Err results', () => {
+      const result = unwrapOr(parse('abc'), null);
+      expect(result).toBeNull();
+      expect(unwrapOrElse(parse('abc'), (e) => e.length)).toBe(12);
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<number | null>();
+    });
+  });
+
+  describe('expect', () => {
+    it('should return the value of Ok results', () => {
+      const value = expectOk(parse('1'), 'Should be a number');
+      expect(value).toBe(1);
+
+      // Typechecking.
+      expectTypeOf(value).toEqualTypeOf<number>();
+    });
+
+    it('should throw a panic for Err results', () => {
+      expect(() => expectOk(parse('abc'), 'Should be a number')).toThrow(ResultPanic);
+      expect(() => expectOk(parse('abc'), 'Should be a number')).toThrow(
+        'Should be a number: "NOT_A_NUMBER"',
+      );
+    });
+  });
+
+  describe('Pipeable combinators', () => {
+    it('should compose combinators with pipe', () => {
+      const fn = pipe(
+        parse,
+        andThen(positive),
+        map((n) => n * 2),
+        mapErr((e) => `INVALID_${e}` as const),
+      );
+
+      expect(unwrap(fn('21'))).toBe(42);
+      expect(unwrap(fn('abc'))).toBe('INVALID_NOT_A_NUMBER');
+      expect(unwrap(fn('-1'))).toBe('INVALID_NOT_POSITIVE');
+
+      // Typechecking.
+      expectTypeOf(fn('21')).toEqualTypeOf<
+        Result<number, 'INVALID_NOT_A_NUMBER' | 'INVALID_NOT_POSITIVE'>
+      >();
+    });
+
+    it('should end a pipe with a folding combinator', () => {
+      const fn = pipe(
+        parse,
+        orElse(() => ok(0)),
+        unwrapOr(-1),
+      );
+      expect(fn('abc')).toBe(0);
+
+      const fold = pipe(parse, match({ onOk: (n) => `ok:${n}`, onErr: (e) => `err:${e}` }));
+      expect(fold('1')).toBe('ok:1');
+      expect(fold('x')).toBe('err:NOT_A_NUMBER');
+    });
+
+    it('should throw from a pipeable expect', () => {
+      const fn = pipe(parse, expectOk('Invalid number'));
+      expect(fn('3')).toBe(3);
+      expect(() => fn('x')).toThrow(ResultPanic);
+    });
+  });
+
+  describe('all', () => {
+    it('should collapse a tuple of Ok results into a tuple of values', () => {
+      const result = all([parse('1'), positive(2), ok('three')]);
+      expect(unwrap(result)).toEqual([1, 2, 'three']);
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<
+        Result<[number, number, string], 'NOT_A_NUMBER' | 'NOT_POSITIVE'>
+      >();
+    });
+
+    it('should collapse a record of Ok results into a record of values', () => {
+      const result = all({ age: parse('30'), name: ok('John') });
+      expect(unwrap(result)).toEqual({ age: 30, name: 'John' });
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<Result<{ age: number; name: string }, 'NOT_A_NUMBER'>>();
+    });
+
+    it('should return the first error', () => {
+      expect(unwrap(all([parse('1'), positive(-1), parse('x')]))).toBe('NOT_POSITIVE');
+      expect(unwrap(all({ a: parse('x'), b: positive(-1) }))).toBe('NOT_A_NUMBER');
+    });
+
+    it('should handle empty collections', () => {
+      expect(unwrap(all([]))).toEqual([]);
+      expect(unwrap(all({}))).toEqual({});
+    });
+  });
+
+  describe('allSettled', () => {
+    it('should accumulate every error of an array', () => {
+      const result = allSettled([parse('x'), positive(-1), parse('1')]);
+      expect(unwrap(result)).toEqual(['NOT_A_NUMBER', 'NOT_POSITIVE']);
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<
+        Result<[number, number, number], ('NOT_A_NUMBER' | 'NOT_POSITIVE')[]>
+      >();
+    });
+
+    it('should accumulate every error of a record by key', () => {
+      const result = allSettled({ age: parse('x'), score: positive(-1), id: ok(1) });
+      expect(unwrap(result)).toEqual({ age: 'NOT_A_NUMBER', score: 'NOT_POSITIVE' });
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<
+        Result<
+          { age: number; score: number; id: number },
+          { age?: 'NOT_A_NUMBER'; score?: 'NOT_POSITIVE'; id?: never }
+        >
+      >();
+    });
+
+    it('should return all the values when there are no errors', () => {
+      expect(unwrap(allSettled([parse('1'), positive(2)]))).toEqual([1, 2]);
+    });
+  });
+
+  describe('any', () => {
+    it('should return the first Ok result', () => {
+      const result = any([parse('x'), positive(2), parse('3')]);
+      expect(unwrap(result)).toBe(2);
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<Result<number, ('NOT_A_NUMBER' | 'NOT_POSITIVE')[]>>();
+    });
+
+    it('should return all the errors when every result fails', () => {
+      expect(unwrap(any([parse('x'), positive(-1)]))).toEqual(['NOT_A_NUMBER', 'NOT_POSITIVE']);
+      expect(unwrap(any({ a: parse('x'), b: positive(-1) }))).toEqual({
+        a: 'NOT_A_NUMBER',
+        b: 'NOT_POSITIVE',
+      });
+    });
+  });
+
+  describe('partition', () => {
+    it('should split an array into values and errors', () => {
+      const result = partition([parse('1'), parse('x'), positive(-1), positive(4)]);
+      expect(result).toEqual({ oks: [1, 4], errs: ['NOT_A_NUMBER', 'NOT_POSITIVE'] });
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<{
+        oks: number[];
+        errs: ('NOT_A_NUMBER' | 'NOT_POSITIVE')[];
+      }>();
+    });
+
+    it('should split a record into values and errors keeping the keys', () => {
+      const result = partition({ a: parse('1'), b: parse('x') });
+      expect(result).toEqual({ oks: { a: 1 }, errs: { b: 'NOT_A_NUMBER' } });
+    });
+  });
+
+  describe('gen', () => {
+    it('should unwrap the values of Ok results and wrap the returned value', () => {
+      const result = gen(function* ($) {
+        const a = yield* $(parse('2'));
+        const b = yield* $(positive(a));
+        return { a, b, sum: a + b };
+      });
+
+      expect(unwrap(result)).toEqual({ a: 2, b: 2, sum: 4 });
+
+      // Typechecking.
+      expectTypeOf(result).toEqualTypeOf<
+        Result<{ a: number; b: number; sum: number }, 'NOT_A_NUMBER' | 'NOT_POSITIVE'>
+      >();
+    });
+
+    it('should short-circuit on the first Err', () => {
+      const spy = vi.fn(positive);
+      const result = gen(function* ($) {
+        const a = yield* $(parse('x'));
+        return yield* $(spy(a));
+      });
+
+      expect(unwrap(result)).toBe('NOT_A_NUMBER');
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should allow to narrow and fail explicitly inside branches', () => {
+      const check = (input: string) =>
+        gen(function* ($) {
+          const n = yield* $(parse(input));
+          if (n > 10) {
+            yield* $(err('TOO_BIG'));
+          }
+          return n;
+        });
+
+      expect(unwrap(check('5'))).toBe(5);
+      expect(unwrap(check('50'))).toBe('TOO_BIG');
+      expectTypeOf(check).returns.toEqualTypeOf<Result<number, 'NOT_A_NUMBER' | 'TOO_BIG'>>();
+    });
+
+    it('should run the finally clauses when short-circuiting', () => {
+      const cleanup = vi.fn();
+      gen(function* ($) {
+        try {
+          return yield* $(parse('x'));
+        } finally {
+          cleanup();
+        }
+      });
+
+      expect(cleanup).toHaveBeenCalledOnce();
+    });
+
+    it('should support async generators', async () => {
+      const fetchNumber = async (input: string) => parse(input);
+      const block = (input: string) =>
+        gen(async function* ($) {
+          const a = yield* $(await fetchNumber(input));
+          const b = yield* $(positive(a));
+          return a * b;
+        });
+
+      expect(unwrap(await block('3'))).toBe(9);
+      expect(unwrap(await block('x'))).toBe('NOT_A_NUMBER');
+      expect(unwrap(await block('-3'))).toBe('NOT_POSITIVE');
+
+      // Typechecking.
+      expectTypeOf(block).returns.toEqualTypeOf<
+        Promise<Result<number, 'NOT_A_NUMBER' | 'NOT_POSITIVE'>>
+      >();
+    });
+
+    it('should unwrap the results created by ok and err directly', () => {
+      const half = (n: number) => (n % 2 === 0 ? ok(n / 2) : err('ODD'));
+      const block = (n: number) =>
+        gen(function* () {
+          const a = yield* half(n);
+          const b = yield* half(a);
+          return a + b;
+        });
+
+      expect(unwrap(block(8))).toBe(6);
+      expect(unwrap(block(6))).toBe('ODD');
+
+      // Typechecking.
+      expectTypeOf(block).returns.toEqualTypeOf<Result<number, 'ODD'>>();
+    });
+
+    it('should unwrap awaited results created by ok and err directly', async () => {
+      const fetchNumber = async (input: string) =>
+        Number.isNaN(Number(input)) ? err('NOT_A_NUMBER') : ok(Number(input));
+      const block = (input: string) =>
+        gen(async function* ($) {
+          const a = yield* await fetchNumber(input);
+          const b = yield* $(positive(a));
+          return a * b;
+        });
+
+      expect(unwrap(await block('3'))).toBe(9);
+      expect(unwrap(await block('x'))).toBe('NOT_A_NUMBER');
+      expect(unwrap(await block('-3'))).toBe('NOT_POSITIVE');
+
+      // Typechecking.
+      expectTypeOf(block).returns.toEqualTypeOf<
+        Promise<Result<number, 'NOT_A_NUMBER' | 'NOT_POSITIVE'>>
+      >();
+    });
+
+    it('should unwrap plain and structured-cloned results', () => {
+      const plain: Result<number, 'NOT_A_NUMBER'> = { _id: 'Result', _tag: 'Ok', value: 2 };
+      const cloned = structuredClone(err('NOT_POSITIVE')) as Result<number, 'NOT_POSITIVE'>;
+
+      const doubled = gen(function* ($) {
+        return (yield* $(plain)) * 2;
+      });
+      const sum = gen(function* ($) {
+        return (yield* $(plain)) + (yield* $(cloned));
+      });
+
+      expect(unwrap(doubled)).toBe(4);
+      expect(unwrap(sum)).toBe('NOT_POSITIVE');
+      expect(Object.keys(ok(1))).toEqual(['_id', '_tag', 'value']);
+    });
+
+    it('should infer a never error when nothing can fail', () => {
+      const result = gen(function* () {
+        return 42;
+      });
+
+      expect(unwrap(result)).toBe(42);
+      expectTypeOf(result).toEqualTypeOf<Result<number, never>>();
+    });
+  });
 });
@@ -0,0 +1,245 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import { optional } from '../src/modifier';
+import { type Result, err, ok, unwrap } from '../src/result';
+import { isSchema, schema } from '../src/schema';
+import { extend, merge, omit, partial, pick, required } from '../src/schema-transform';
+import { asyncRule, rule, value } from '../src/value';
+
+const Id = value(rule((id: string) => (id.length === 8 ? ok(id) : err('INVALID_ID'))));
+const Name = value(rule((name: string) => (name.length > 0 ? ok(name) : err('EMPTY_NAME'))));
+const Age = value(rule((age: number) => (age >= 0 ? ok(age) : err('INVALID_AGE'))));
+const Street = value(
+  rule((street: string) => (street.length > 0 ? ok(street) : err('EMPTY_STREET'))),
+);
+
+const AddressSchema = schema({ street: Street });
+const Email = value(
+  asyncRule(async (email: string) => (email.includes('@') ? ok(email) : err('INVALID_EMAIL'))),
+);
+const UserSchema = schema({ id: Id, name: Name, age: Age, address: AddressSchema });
+
+describe('schema-transform', () => {
+  describe('Public API', () => {
+    it('should pick the given fields', () => {
+      const NameSchema = pick(UserSchema, 'name', 'age');
+
+      expect(isSchema(NameSchema)).toBe(true);
+      expect(NameSchema.name).toBe(Name);
+      expect(unwrap(NameSchema({ name: 'John', age: 30 }))).toEqual({ name: 'John', age: 30 });
+    });
+
+    it('should omit the given fields', () => {
+      const CreateUserSchema = omit(UserSchema, 'id');
+
+      expect(
+        Object.keys(
+          unwrap(CreateUserSchema({ name: 'John', age: 30, address: { street: 'Main St' } })),
+        ),
+      ).toEqual(['name', 'age', 'address']);
+      expect(
+        unwrap(CreateUserSchema({ name: '', age: 30, address: { street: 'Main St' } })),
+      ).toEqual({
+        name: ['EMPTY_NAME'],
+      });
+    });
+
+    it('should make every field optional', () => {
+      const UpdateUserSchema = partial(UserSchema);
+
+      expect(unwrap(UpdateUserSchema({}))).toEqual({});
+      expect(unwrap(UpdateUserSchema({ name: 'John', address: { street: 'Main St' } }))).toEqual({
+        name: 'John',
+        address: { street: 'Main St' },
+      });
+      expect(unwrap(UpdateUserSchema({ age: -1, address: { street: '' } }))).toEqual({
+        age: ['INVALID_AGE'],
+        address: [{ street: ['EMPTY_STREET'] }],
+      });
+    });
+
+    it('should make every optional field required', () => {
+      const ReadUserSchema = required(partial(UserSchema));
+
+      expect(ReadUserSchema.name).toBe(Name);
+      expect(ReadUserSchema.address).toBe(AddressSchema);
+      expect(
+        unwrap(
+          ReadUserSchema({ id: 'abcdefgh', name: 'John', address: { street: 'Main St' } } as never),
+        ),
+      ).toEqual({ age: ['INVALID_AGE'] });
+    });
+
+    it('should extend a schema with new fields', () => {
+      const EmployeeSchema = extend(UserSchema, { company: Name, age: optional(Age) });
+
+      expect(
+        unwrap(
+          EmployeeSchema({
+            id: 'abcdefgh',
+            name: 'John',
+            address: { street: 'Main St' },
+            company: 'ACME',
+          }),
+        ),
+      ).toEqual({ id: 'abcdefgh', name: 'John', address: { street: 'Main St' }, company: 'ACME' });
+    });
+
+    it('should merge two schemas', () => {
+      const AuditSchema = schema({ createdBy: Name, id: Name });
+      const AuditedUserSchema = merge(UserSchema, AuditSchema);
+
+      expect(AuditedUserSchema.id).toBe(Name);
+      expect(
+        unwrap(
+          AuditedUserSchema({
+            id: 'short',
+            name: 'John',
+            age: 30,
+            address: { street: 'Main St' },
+            createdBy: 'admin',
+          }),
+        ),
+      ).toEqual({
+        id: 'short',
+        name: 'John',
+        age: 30,
+        address: { street: 'Main St' },
+        createdBy: 'admin',
+      });
+    });
+  });
+
+  describe('Edge Cases & Error Handling', () => {
+    it('should keep the original field values as children', () => {
+      const NameSchema = pick(UserSchema, 'name', 'address');
+      const ids = NameSchema.tree().children.map((child) => child.info.id);
+
+      expect(ids).toEqual([Name.info().id, AddressSchema.info().id]);
+    });
+
+    it('should register new schema components', () => {
+      const CreateUserSchema = omit(UserSchema, 'id');
+
+      expect(CreateUserSchema).not.toBe(UserSchema);
+      expect(CreateUserSchema.info().id).not.toBe(UserSchema.info().id);
+      expect(UserSchema.id).toBe(Id);
+    });
+
+    it('should not wrap fields that are already optional', () => {
+      const NicknameSchema = schema({ nickname: optional(Name) });
+
+      expect(partial(NicknameSchema).nickname).toBe(NicknameSchema.nickname);
+    });
+
+    it('should stop at the first error of a partial nested schema in strict mode', () => {
+      const UpdateUserSchema = partial(UserSchema);
+
+      expect(unwrap(UpdateUserSchema({ address: { street: '' } }, 'strict'))).toEqual({
+        address: { street: 'EMPTY_STREET' },
+      });
+    });
+
+    it('should keep the schemas with async fields async', async () => {
+      const ContactSchema = schema({ name: Name, email: Email });
+      const UpdateContactSchema = partial(ContactSchema);
+
+      expect(UpdateContactSchema.async).toBe(true);
+      expect(unwrap(await UpdateContactSchema({ email: 'john@mail.com' }))).toEqual({
+        email: 'john@mail.com',
+      });
+      expect(unwrap(await UpdateContactSchema({ email: 'john' }))).toEqual({
+        email: ['INVALID_EMAIL'],
+      });
+      expect(unwrap(await UpdateContactSchema({ email: 'john' }, 'strict'))).toEqual({
+        email: 'INVALID_EMAIL',
+      });
+      expect(required(UpdateContactSchema).async).toBe(true);
+      expect(unwrap(await required(UpdateContactSchema)({ name: 'John', email: 'john' }))).toEqual({
+        email: ['INVALID_EMAIL'],
+      });
+    });
+
+    it('should keep the unknown keys policy of the source schema', () => {
+      const StrictUserSchema = schema({ id: Id, name: Name }, { unknownKeys: 'strict' });
+
+      expect(pick(StrictUserSchema, 'name').unknownKeys).toBe('strict');
+      expect(partial(StrictUserSchema).unknownKeys).toBe('strict');
+      expect(merge(StrictUserSchema, AddressSchema).unknownKeys).toBe('strict');
+      expect(
+        unwrap(omit(StrictUserSchema, 'id')({ id: 'abcdefgh', name: 'John' } as never)),
+      ).toMatchObject({
+        code: 'UnknownKeysError',
+        details: { keys: ['id'] },
+      });
+    });
+  });
+
+  describe('Type Safety', () => {
+    it('should infer the values of picked and omitted schemas', () => {
+      expectTypeOf(pick(UserSchema, 'name', 'age').Type).toEqualTypeOf<{
+        name: string;
+        age: number;
+      }>();
+      expectTypeOf(omit(UserSchema, 'id', 'address').Type).toEqualTypeOf<{
+        name: string;
+        age: number;
+      }>();
+    });
+
+    it('should infer optional keys of partial schemas', () => {
+      const UpdateUserSchema = partial(UserSchema);
+
+      expectTypeOf(UpdateUserSchema.Type).toEqualTypeOf<{
+        id?: string | undefined;
+        name?: string | undefined;
+        age?: number | undefined;
+        address?: { street: string } | undefined;
+      }>();
+      expectTypeOf(UpdateUserSchema({}, 'strict')).toEqualTypeOf<
+        Result<
+          {
+            id?: string | undefined;
+            name?: string | undefined;
+            age?: number | undefined;
+            address?: { street: string } | undefined;
+          },
+          {
+            id: 'INVALID_ID';
+            name: 'EMPTY_NAME';
+            age: 'INVALID_AGE';
+            address: { street: 'EMPTY_STREET'[] };
+          }
+        >
+      >();
+    });
+
+    it('should infer the async results of partial schemas with async fields', () => {
+      const UpdateContactSchema = partial(schema({ name: Name, email: Email }));
+
+      expectTypeOf(UpdateContactSchema({}, 'strict')).toEqualTypeOf<
+        Promise<
+          Result<
+            { name?: string | undefined; email?: string | undefined },
+            { name: 'EMPTY_NAME'; email: 'INVALID_EMAIL' }
+          >
+        >
+      >();
+    });
+
+    it('should infer the fields of required, extended and merged schemas', () => {
+      expectTypeOf(required(partial(UserSchema)).Type).toEqualTypeOf<typeof UserSchema.Type>();
+      expectTypeOf(required(partial(UserSchema)).address).toEqualTypeOf<typeof AddressSchema>();
+      expectTypeOf(extend(UserSchema, { age: optional(Age) }).Type).toEqualTypeOf<{
+        id: string;
+        name: string;
+        address: { street: string };
+        age?: number | undefined;
+      }>();
+      expectTypeOf(merge(AddressSchema, schema({ zip: Name })).Type).toEqualTypeOf<{
+        street: string;
+        zip: string;
+      }>();
+    });
+  });
+});
@@ -1,8 +1,8 @@
 import { describe, expect, expectTypeOf, it } from 'vitest';
 
 import { type Result, err, isOk, ok, unwrap } from '../src/result';
-import { SchemaError, isSchema, schema } from '../src/schema';
-import { rule, value } from '../src/value';
+import { SchemaError, type UnknownKeys, isSchema, schema } from '../src/schema';
+import { type Value, asyncRule, isAsync, rule, value } from '../src/value';
 
 describe('schema', () => {
   describe('Public API', () => {
@@ -103,6 +103,199 @@ describe('schema', () => {
       });
       expect(UserSchema.info().traceable).toBe(true);
     });
+
+    it('should validate nested schemas recursively', () => {
+      const AddressSchema = schema({
+        street: value(
+          rule((street: string) => (street.length > 0 ? ok(street) : err('EMPTY_STREET'))),
+        ),
+        zip: value(rule((zip: string) => (/^\d{5}$/.test(zip) ? ok(zip) : err('INVALID_ZIP')))),
+      });
+      const CustomerSchema = schema({
+        name: value(rule((name: string) => (name.length > 0 ? ok(name) : err('EMPTY_NAME')))),
+        address: AddressSchema,
+      });
+
+      const valid = CustomerSchema({ name: 'John', address: { street: 'Main St', zip: '12345' } });
+      expect(unwrap(valid)).toEqual({ name: 'John', address: { street: 'Main St', zip: '12345' } });
+
+      const invalid = CustomerSchema({ name: '', address: { street: '', zip: 'abc' } });
+      expect(unwrap(invalid)).toEqual({
+        name: ['EMPTY_NAME'],
+        address: { street: ['EMPTY_STREET'], zip: ['INVALID_ZIP'] },
+      });
+    });
+
+    it('should stop at the first nested error in strict mode', () => {
+      const AddressSchema = schema({
+        street: value(
+          rule((street: string) => (street.length > 0 ? ok(street) : err('EMPTY_STREET'))),
+        ),
+        zip: value(rule((zip: string) => (/^\d{5}$/.test(zip) ? ok(zip) : err('INVALID_ZIP')))),
+      });
+      const CustomerSchema = schema({
+        address: AddressSchema,
+        name: value(rule((name: string) => (name.length > 0 ? ok(name) : err('EMPTY_NAME')))),
+      });
+
+      const result = CustomerSchema({ name: '', address: { street: '', zip: 'abc' } }, 'strict');
+      expect(unwrap(result)).toEqual({ address: { street: 'EMPTY_STREET' } });
+    });
+
+    it('should register nested schemas as children', () => {
+      const AddressSchema = schema({
+        street: value(
+          rule((street: string) => (street.length > 0 ? ok(street) : err('EMPTY_STREET'))),
+        ),
+      });
+      const CustomerSchema = schema({ address: AddressSchema });
+
+      const tree = CustomerSchema.tree();
+      expect(CustomerSchema.address).toBe(AddressSchema);
+      expect(tree.children).toHaveLength(1);
+      expect(tree.children[0].info.id).toBe(AddressSchema.info().id);
+      expect(tree.children[0].info.tag).toBe('Schema');
+      expect(tree.children[0].children[0].info.tag).toBe('Value');
+    });
+
+    it('should refine the validated values of a schema', () => {
+      const Password = value(rule((pwd: string) => (pwd.length >= 8 ? ok(pwd) : err('TOO_SHORT'))));
+      const SignUpSchema = schema({ password: Password, confirmation: Password }).refine(
+        (values) =>
+          values.password === values.confirmation ? ok(values) : err('PASSWORDS_MISMATCH'),
+        { path: 'confirmation' },
+      );
+
+      expect(isSchema(SignUpSchema)).toBe(true);
+      expect(SignUpSchema.password).toBe(Password);
+      expect(unwrap(SignUpSchema({ password: 'secret123', confirmation: 'secret123' }))).toEqual({
+        password: 'secret123',
+        confirmation: 'secret123',
+      });
+      expect(unwrap(SignUpSchema({ password: 'secret123', confirmation: 'secret456' }))).toEqual({
+        confirmation: ['PASSWORDS_MISMATCH'],
+      });
+      expect(
+        unwrap(SignUpSchema({ password: 'secret123', confirmation: 'secret456' }, 'strict')),
+      ).toEqual({ confirmation: 'PASSWORDS_MISMATCH' });
+    });
+
+    it('should attach the errors of a super refinement to several fields', () => {
+      const Day = value(rule((day: number) => (day > 0 ? ok(day) : err('INVALID_DAY'))));
+      const PeriodSchema = schema({ start: Day, end: Day })
+        .superRefine((period) =>
+          period.end > period.start
+            ? ok(period)
+            : err({ start: 'START_AFTER_END', end: 'END_BEFORE_START' }),
+        )
+        .refine((period) => (period.end - period.start <= 30 ? ok(period) : err('TOO_LONG')), {
+          path: 'end',
+        });
+
+      expect(unwrap(PeriodSchema({ start: 1, end: 10 }))).toEqual({ start: 1, end: 10 });
+      expect(unwrap(PeriodSchema({ start: 10, end: 1 }))).toEqual({
+        start: ['START_AFTER_END'],
+        end: ['END_BEFORE_START'],
+      });
+      expect(unwrap(PeriodSchema({ start: 1, end: 60 }))).toEqual({ end: ['TOO_LONG'] });
+      expect(unwrap(PeriodSchema({ start: 10, end: 1 }, 'strict'))).toEqual({
+        start: 'START_AFTER_END',
+      });
+    });
+
+    it('should strip unknown keys by default', () => {
+      const UserSchema = schema({
+        name: value(rule((name: string) => (name.length > 0 ? ok(name) : err('EMPTY_NAME')))),
+      });
+      const input = { name: 'John', isAdmin: true };
+
+      expect(UserSchema.unknownKeys).toBe('strip');
+      expect(unwrap(UserSchema(input))).toEqual({ name: 'John' });
+    });
+
+    it('should reject unknown keys with the strict policy', () => {
+      const UserSchema = schema(
+        { name: value(rule((name: string) => (name.length > 0 ? ok(name) : err('EMPTY_NAME')))) },
+        { unknownKeys: 'strict' },
+      );
+      const input = { name: '', isAdmin: true, role: 'admin' };
+
+      expect(unwrap(UserSchema({ name: 'John' }))).toEqual({ name: 'John' });
+      expect(unwrap(UserSchema(input))).toMatchObject({
+        code: 'UnknownKeysError',
+        context: 'Schema',
+        details: { keys: ['isAdmin', 'role'] },
+      });
+      expect(unwrap(UserSchema(input, 'strict'))).toMatchObject({ code: 'UnknownKeysError' });
+    });
+
+    it('should keep unknown keys with the passthrough policy', () => {
+      const UserSchema = schema(
+        { name: value(rule((name: string) => (name.length > 0 ? ok(name) : err('EMPTY_NAME')))) },
+        { unknownKeys: 'passthrough' },
+      );
+      const input = { name: 'John', nickname: 'Johnny' };
+
+      expect(unwrap(UserSchema(input))).toEqual({ name: 'John', nickname: 'Johnny' });
+      expect(unwrap(UserSchema({ ...input, name: '' }))).toEqual({ name: ['EMPTY_NAME'] });
+    });
+
+    it('should return a promise with async fields', async () => {
+      const Name = value(rule((name: string) => (name.length > 0 ? ok(name) : err('EMPTY_NAME'))));
+      const Email = value(
+        asyncRule(async (email: string) =>
+          email === 'taken@company.com' ? err('EMAIL_TAKEN') : ok(email),
+        ),
+      );
+      const UserSchema = schema({ name: Name, email: Email });
+
+      expect(isAsync(UserSchema)).toBe(true);
+      expect(isAsync(schema({ name: Name }))).toBe(false);
+      expect(unwrap(await UserSchema({ name: 'John', email: 'john@company.com' }))).toEqual({
+        name: 'John',
+        email: 'john@company.com',
+      });
+      expect(unwrap(await UserSchema({ name: '', email: 'taken@company.com' }))).toEqual({
+        name: ['EMPTY_NAME'],
+        email: ['EMAIL_TAKEN'],
+      });
+      expect(unwrap(await UserSchema({ name: '', email: 'taken@company.com' }, 'strict'))).toEqual({
+        name: 'EMPTY_NAME',
+      });
+    });
+
+    it('should validate the async fields concurrently in all mode', async () => {
+      const started: string[] = [];
+      const pending: (() => void)[] = [];
+      const Slow = (name: string) =>
+        value(
+          asyncRule(
+            (input: string) =>
+              new Promise<Result<string, 'SLOW'>>((resolve) => {
+                started.push(name);
+                pending.push(() => resolve(ok(input)));
+              }),
+          ),
+        );
+      const PairSchema = schema({ first: Slow('first'), second: Slow('second') });
+
+      const all = PairSchema({ first: 'a', second: 'b' });
+      await Promise.resolve();
+      expect(started).toEqual(['first', 'second']);
+      pending.forEach((resolve) => resolve());
+      expect(unwrap(await all)).toEqual({ first: 'a', second: 'b' });
+
+      started.length = 0;
+      pending.length = 0;
+      const strict = PairSchema({ first: 'a', second: 'b' }, 'strict');
+      await Promise.resolve();
+      expect(started).toEqual(['first']);
+      pending[0]();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(started).toEqual(['first', 'second']);
+      pending[1]();
+      expect(unwrap(await strict)).toEqual({ first: 'a', second: 'b' });
+    });
   });
 
   describe('Edge Cases & Error Handling', () => {
@@ -164,6 +357,92 @@ describe('schema', () => {
         age: ['INVALID_AGE'],
       });
     });
+
+    it('should not refine the values when a field is not valid', () => {
+      const Day = value(rule((day: number) => (day > 0 ? ok(day) : err('INVALID_DAY'))));
+      let calls = 0;
+      const PeriodSchema = schema({ start: Day, end: Day }).refine(
+        (period) => (calls++, period.end > period.start ? ok(period) : err('INVALID_PERIOD')),
+        { path: 'end' },
+      );
+
+      expect(unwrap(PeriodSchema({ start: -1, end: -2 }))).toEqual({
+        start: ['INVALID_DAY'],
+        end: ['INVALID_DAY'],
+      });
+      expect(calls).toBe(0);
+    });
+
+    it('should keep the original schema when refined', () => {
+      const Day = value(rule((day: number) => (day > 0 ? ok(day) : err('INVALID_DAY'))));
+      const PeriodSchema = schema({ start: Day, end: Day }, { unknownKeys: 'strict' });
+      const RefinedSchema = PeriodSchema.refine(() => err('ALWAYS'), { path: 'start' });
+
+      expect(RefinedSchema).not.toBe(PeriodSchema);
+      expect(RefinedSchema.unknownKeys).toBe('strict');
+      expect(Object.keys(RefinedSchema)).not.toContain('refine');
+      expect(isOk(PeriodSchema({ start: 1, end: 2 }))).toBe(true);
+      expect(unwrap(RefinedSchema({ start: 1, end: 2 }))).toEqual({ start: ['ALWAYS'] });
+    });
+
+    it('should apply the policy of every nested schema', () => {
+      const AddressSchema = schema(
+        { street: value(rule((street: string) => (street ? ok(street) : err('EMPTY_STREET')))) },
+        { unknownKeys: 'strict' },
+      );
+      const CustomerSchema = schema({ address: AddressSchema }, { unknownKeys: 'passthrough' });
+      const input = { address: { street: 'Main St', zip: '12345' }, vip: true };
+
+      expect(unwrap(CustomerSchema(input))).toMatchObject({
+        address: { code: 'UnknownKeysError', details: { keys: ['zip'] } },
+      });
+      expect(
+        unwrap(CustomerSchema({ address: { street: 'Main St' }, vip: true } as never)),
+      ).toEqual({ address: { street: 'Main St' }, vip: true });
+    });
+
+    it('should not mistake the policy for a field', () => {
+      const UserSchema = schema({}, { unknownKeys: 'passthrough' });
+
+      expect(Object.keys(UserSchema)).not.toContain('unknownKeys');
+      expect(unwrap(UserSchema({ unknownKeys: 'strict' } as never))).toEqual({
+        unknownKeys: 'strict',
+      });
+    });
+
+    it('should keep a __proto__ key as an own key with the passthrough policy', () => {
+      const UserSchema = schema({}, { unknownKeys: 'passthrough' });
+      const output = unwrap(UserSchema(JSON.parse('{"__proto__": { "admin": true }}')));
+
+      expect(Object.getPrototypeOf(output)).toBe(Object.prototype);
+      expect((output as { admin?: boolean }).admin).toBeUndefined();
+      expect(Object.keys(output)).toEqual(['__proto__']);
+    });
+
+    it('should propagate async nested schemas with their policy and refinements', async () => {
+      const Email = value(
+        asyncRule(async (email: string) => (email.includes('@') ? ok(email) : err('INVALID'))),
+      );
+      const ContactSchema = schema({ email: Email }, { unknownKeys: 'strict' });
+      const UserSchema = schema({ contact: ContactSchema }).refine(
+        (user) => (user.contact.email.endsWith('.com') ? ok(true) : err('NOT_COM')),
+        { path: 'contact' },
+      );
+
+      expect(isAsync(UserSchema)).toBe(true);
+      expect(unwrap(await UserSchema({ contact: { email: 'john@company.com' } }))).toEqual({
+        contact: { email: 'john@company.com' },
+      });
+      expect(unwrap(await UserSchema({ contact: { email: 'john' } }))).toEqual({
+        contact: { email: ['INVALID'] },
+      });
+      expect(unwrap(await UserSchema({ contact: { email: 'john@company.org' } }))).toEqual({
+        contact: ['NOT_COM'],
+      });
+      expect(
+        unwrap(await ContactSchema({ email: 'john@company.com', admin: true } as never)),
+      ).toMatchObject({ code: 'UnknownKeysError' });
+    });
   });
 
   describe('Type Safety', () => {
@@ -245,5 +524,98 @@ describe('schema', () => {
       expectTypeOf(UserSchema({ name: 'test', age: 25 }, 'all')).toBeObject();
       expectTypeOf(UserSchema({ name: 'test', age: 25 }, 'strict')).toBeObject();
     });
+
+    it('should infer the values and errors of nested schemas', () => {
+      const CustomerSchema = schema({
+        name: value(rule((name: string) => (name.length > 0 ? ok(name) : err('EMPTY_NAME')))),
+        address: schema({
+          street: value(rule((street: string) => (street ? ok(street) : err('EMPTY_STREET')))),
+        }),
+      });
+
+      expectTypeOf(CustomerSchema({ name: 'John', address: { street: 'Main St' } })).toEqualTypeOf<
+        Result<
+          { name: string; address: { street: string } },
+          { name: 'EMPTY_NAME'[]; address: { street: 'EMPTY_STREET'[] } }
+        >
+      >();
+      expectTypeOf(CustomerSchema.address.street).toEqualTypeOf<Value<string, 'EMPTY_STREET'>>();
+      expectTypeOf(
+        CustomerSchema({ name: 'John', address: { street: 'Main St' } }, 'strict'),
+      ).toEqualTypeOf<
+        Result<
+          { name: string; address: { street: string } },
+          { name: 'EMPTY_NAME'; address: { street: 'EMPTY_STREET' } }
+        >
+      >();
+    });
+
+    it('should add the refinement errors to their fields', () => {
+      const Day = value(rule((day: number) => (day > 0 ? ok(day) : err('INVALID_DAY'))));
+      const PeriodSchema = schema({ start: Day, end: Day, period: schema({ days: Day }) })
+        .refine(() => err('INVALID_PERIOD' as const), { path: 'end' })
+        .superRefine<'TOO_LONG', 'period'>(() => err({ period: 'TOO_LONG' }));
+
+      expectTypeOf(PeriodSchema({ start: 1, end: 2, period: { days: 1 } }, 'strict')).toEqualTypeOf<
+        Result<
+          { start: number; end: number; period: { days: number } },
+          {
+            start: 'INVALID_DAY';
+            end: 'INVALID_DAY' | 'INVALID_PERIOD';
+            period: { days: 'INVALID_DAY' } | 'TOO_LONG';
+          }
+        >
+      >();
+      expectTypeOf(PeriodSchema({ start: 1, end: 2, period: { days: 1 } })).toEqualTypeOf<
+        Result<
+          { start: number; end: number; period: { days: number } },
+          {
+            start: 'INVALID_DAY'[];
+            end: ('INVALID_DAY' | 'INVALID_PERIOD')[];
+            period: { days: 'INVALID_DAY'[] } | 'TOO_LONG'[];
+          }
+        >
+      >();
+    });
+
+    it('should add the unknown keys error only to strict schemas', () => {
+      const Street = value(rule((street: string) => (street ? ok(street) : err('EMPTY_STREET'))));
+      const StrictSchema = schema({ street: Street }, { unknownKeys: 'strict' });
+
+      expectTypeOf(StrictSchema.unknownKeys).toEqualTypeOf<'strict'>();
+      expectTypeOf(StrictSchema({ street: 'Main St' }, 'strict')).toEqualTypeOf<
+        Result<{ street: string }, { street: 'EMPTY_STREET' } | UnknownKeys>
+      >();
+      expectTypeOf(schema({ address: StrictSchema })({ address: { street: '' } })).toEqualTypeOf<
+        Result<
+          { address: { street: string } },
+          { address: { street: 'EMPTY_STREET'[] } | UnknownKeys }
+        >
+      >();
+      expectTypeOf(
+        schema({ street: Street }, { unknownKeys: 'passthrough' })({ street: '' }),
+      ).toEqualTypeOf<Result<{ street: string }, { street: 'EMPTY_STREET'[] }>>();
+    });
+
+    it('should infer promises of schemas with async fields', () => {
+      const Street = value(rule((street: string) => (street ? ok(street) : err('EMPTY_STREET'))));
+      const Email = value(
+        asyncRule(async (email: string) => (email.includes('@') ? ok(email) : err('INVALID'))),
+      );
+      const ContactSchema = schema({ email: Email });
+      const UserSchema = schema({ street: Street, contact: ContactSchema });
+
+      expectTypeOf(ContactSchema.async).toEqualTypeOf<true>();
+      expectTypeOf(UserSchema.async).toEqualTypeOf<true>();
+      expectTypeOf(schema({ street: Street }).async).toEqualTypeOf<false>();
+      expectTypeOf(UserSchema({ street: '', contact: { email: '' } }, 'strict')).toEqualTypeOf<
+        Promise<
+          Result<
+            { street: string; contact: { email: string } },
+            { street: 'EMPTY_STREET'; contact: { email: 'INVALID' } }
+          >
+        >
+      >();
+    });
   });
 });
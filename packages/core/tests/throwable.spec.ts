@@ -0,0 +1,142 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import { type AsyncResult, isAsyncResult } from '../src/async-result';
+import { flow } from '../src/flow';
+import { panic } from '../src/panic';
+import { type Result, isErr, isOk, unwrap } from '../src/result';
+import { fromThrowable, tryCatch } from '../src/throwable';
+
+// Shared test utilities.
+const TestPanic = panic<'Test', 'InvalidState'>('Test');
+
+const parseJson = (input: string): { id: number } => JSON.parse(input);
+
+const fetchUser = async (id: number) => {
+  if (id <= 0) {
+    throw new Error(`User ${id} not found`);
+  }
+  return { id, name: 'John' };
+};
+
+const toError = (cause: unknown) => ({
+  code: 'UNEXPECTED' as const,
+  message: (cause as Error).message,
+});
+
+describe('Throwable', () => {
+  describe('Public API', () => {
+    it('should return an Ok result when the function does not throw', () => {
+      const result = tryCatch(() => parseJson('{"id":1}'), toError);
+
+      expect(isOk(result)).toBe(true);
+      expect(unwrap(result)).toEqual({ id: 1 });
+    });
+
+    it('should return an Err result when the function throws', () => {
+      const result = tryCatch(() => parseJson('{'), toError);
+
+      expect(isErr(result)).toBe(true);
+      expect(unwrap(result)).toEqual({ code: 'UNEXPECTED', message: expect.any(String) });
+    });
+
+    it('should return an async result when the function returns a promise', async () => {
+      const success = tryCatch(() => fetchUser(1), toError);
+      const failure = tryCatch(() => fetchUser(0), toError);
+
+      expect(isAsyncResult(success)).toBe(true);
+      expect(unwrap(await success)).toEqual({ id: 1, name: 'John' });
+      expect(unwrap(await failure)).toEqual({ code: 'UNEXPECTED', message: 'User 0 not found' });
+    });
+
+    it('should wrap a throwing function with fromThrowable', () => {
+      const safeParse = fromThrowable(parseJson, () => 'INVALID_JSON' as const);
+
+      expect(unwrap(safeParse('{"id":2}'))).toEqual({ id: 2 });
+      expect(unwrap(safeParse('not json'))).toBe('INVALID_JSON');
+    });
+
+    it('should wrap an async throwing function with fromThrowable', async () => {
+      const safeFetch = fromThrowable(fetchUser, () => 'USER_NOT_FOUND' as const);
+
+      expect(unwrap(await safeFetch(1))).toEqual({ id: 1, name: 'John' });
+      expect(unwrap(await safeFetch(-1))).toBe('USER_NOT_FOUND');
+    });
+
+    it('should allow wrapped functions to be used as flow steps', async () => {
+      const safeFetch = fromThrowable(fetchUser, () => 'USER_NOT_FOUND' as const);
+      const fn = flow<number>()
+        .map(async (id) => safeFetch(id))
+        .build();
+
+      expect(unwrap(await fn(3))).toEqual({ id: 3, name: 'John' });
+      expect(unwrap(await fn(0))).toBe('USER_NOT_FOUND');
+    });
+  });
+
+  describe('Edge Cases & Error Handling', () => {
+    it('should rethrow panics by default', () => {
+      const fn = () => {
+        throw new TestPanic('InvalidState', 'Invalid state');
+      };
+
+      expect(() => tryCatch(fn, toError)).toThrow(TestPanic);
+      expect(() => fromThrowable(fn, toError)()).toThrow(TestPanic);
+    });
+
+    it('should reject async results with panics by default', async () => {
+      const fn = async () => {
+        throw new TestPanic('InvalidState', 'Invalid state');
+      };
+
+      await expect(tryCatch(fn, toError).toPromise()).rejects.toThrow(TestPanic);
+    });
+
+    it('should convert panics into errors when rethrowPanics is disabled', () => {
+      const result = tryCatch(
+        (): number => {
+          throw new TestPanic('InvalidState', 'Invalid state');
+        },
+        toError,
+        { rethrowPanics: false },
+      );
+
+      expect(unwrap(result)).toEqual({ code: 'UNEXPECTED', message: 'Invalid state' });
+    });
+
+    it('should handle non-error thrown values', () => {
+      const result = tryCatch(
+        (): number => {
+          throw 'plain string';
+        },
+        (cause) => ({ cause }),
+      );
+
+      expect(unwrap(result)).toEqual({ cause: 'plain string' });
+    });
+  });
+
+  describe('Type Safety', () => {
+    it('should provide correct type inference for all public elements', () => {
+      expectTypeOf(tryCatch).toBeFunction();
+      expectTypeOf(fromThrowable).toBeFunction();
+    });
+
+    it('should infer sync and async return types', () => {
+      expectTypeOf(
+        tryCatch(
+          () => parseJson('{}'),
+          () => 'INVALID' as const,
+        ),
+      ).toEqualTypeOf<Result<{ id: number }, 'INVALID'>>();
+      expectTypeOf(
+        tryCatch(
+          () => fetchUser(1),
+          () => 'INVALID' as const,
+        ),
+      ).toEqualTypeOf<AsyncResult<{ id: number; name: string }, 'INVALID'>>();
+      expectTypeOf(fromThrowable(fetchUser, () => 'INVALID' as const)).toEqualTypeOf<
+        (id: number) => AsyncResult<{ id: number; name: string }, 'INVALID'>
+      >();
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import type { InvalidType } from '../src/parse';
+import { type Result, err, isErr, isOk, ok, unwrap } from '../src/result';
+import { schema } from '../src/schema';
+import {
+  type InvalidBranch,
+  type InvalidDiscriminator,
+  type NoMatchingBranch,
+  discriminatedUnion,
+  union,
+  UnionError,
+} from '../src/union';
+import { asyncRule, isValue, rule, value } from '../src/value';
+
+const CardNumber = value(
+  rule((number: string) => (/^\d{16}$/.test(number) ? ok(number) : err('INVALID_CARD_NUMBER'))),
+);
+const Iban = value(
+  rule((iban: string) => (/^[A-Z]{2}\d+$/.test(iban) ? ok(iban) : err('INVALID_IBAN'))),
+);
+const Holder = value(rule((name: string) => (name?.length > 0 ? ok(name) : err('EMPTY_HOLDER'))));
+
+const CardSchema = schema({ number: CardNumber, holder: Holder });
+const IbanSchema = schema({ iban: Iban });
+
+describe('union', () => {
+  describe('Public API', () => {
+    it('should accept the input of the first matching branch', () => {
+      const Payment = union(CardSchema, IbanSchema);
+
+      expect(isValue(Payment)).toBe(true);
+      expect(Payment.info().subType).toBe('union');
+      expect(unwrap(Payment({ number: '1234567812345678', holder: 'John' }))).toEqual({
+        number: '1234567812345678',
+        holder: 'John',
+      });
+      expect(unwrap(Payment({ iban: 'ES9121000418450200051332' }))).toEqual({
+        iban: 'ES9121000418450200051332',
+      });
+    });
+
+    it('should report the errors of every branch when none matches', () => {
+      const Payment = union(CardSchema, IbanSchema);
+      const result = Payment({ iban: 'invalid' } as never);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toHaveLength(1);
+        expect(result.error[0].code).toBe('NoMatchingBranchError');
+        expect(result.error[0].details.branches).toEqual([
+          { branch: 0, errors: [{ number: ['INVALID_CARD_NUMBER'], holder: ['EMPTY_HOLDER'] }] },
+          { branch: 1, errors: [{ iban: ['INVALID_IBAN'] }] },
+        ]);
+      }
+    });
+
+    it('should select the branch by the discriminator', () => {
+      const Payment = discriminatedUnion('kind', { card: CardSchema, iban: IbanSchema });
+
+      expect(Payment.info().subType).toBe('union');
+      expect(unwrap(Payment({ kind: 'card', number: '1234567812345678', holder: 'John' }))).toEqual(
+        { kind: 'card', number: '1234567812345678', holder: 'John' },
+      );
+      expect(unwrap(Payment({ kind: 'iban', iban: 'ES9121000418450200051332' }))).toEqual({
+        kind: 'iban',
+        iban: 'ES9121000418450200051332',
+      });
+    });
+
+    it('should report the failing branch of a discriminated union', () => {
+      const Payment = discriminatedUnion('kind', { card: CardSchema, iban: IbanSchema });
+      const result = Payment({ kind: 'card', number: '1234', holder: 'John' }, 'strict');
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('InvalidBranchError');
+        expect(result.error.details).toEqual({
+          branch: 'card',
+          errors: [{ number: 'INVALID_CARD_NUMBER' }],
+        });
+      }
+    });
+
+    it('should register the branches as children', () => {
+      const Payment = discriminatedUnion('kind', { card: CardSchema, iban: IbanSchema });
+
+      expect(Payment.tree().children.map((c) => c.info.id)).toEqual([
+        CardSchema.info().id,
+        IbanSchema.info().id,
+      ]);
+      expect(union(CardNumber, Iban).tree().children).toHaveLength(2);
+    });
+  });
+
+  describe('Edge Cases & Error Handling', () => {
+    it('should reject async branches, as the unions validate them synchronously', () => {
+      const AsyncIbanSchema = schema({ iban: value(asyncRule(async (iban: string) => ok(iban))) });
+
+      expect(() => union(CardSchema, AsyncIbanSchema as never)).toThrow(UnionError);
+      expect(() =>
+        discriminatedUnion('kind', { card: CardSchema, iban: AsyncIbanSchema as never }),
+      ).toThrow('The branches of a union must be sync values or schemas.');
+    });
+
+    it('should report an unknown or missing discriminator', () => {
+      const Payment = discriminatedUnion('kind', { card: CardSchema, iban: IbanSchema });
+
+      expect(unwrap(Payment({ kind: 'cash' } as never, 'strict'))).toMatchObject({
+        code: 'InvalidDiscriminatorError',
+        details: { key: 'kind', value: 'cash', expected: ['card', 'iban'] },
+      });
+      expect(unwrap(Payment(null as never, 'strict'))).toMatchObject({
+        details: { value: undefined },
+      });
+    });
+
+    it('should fail the branches that do not accept the kind of the input', () => {
+      const Name = value(
+        rule((name: string) => (name.trim().length > 0 ? ok(name) : err('EMPTY_NAME'))),
+      ).subType('string');
+      const Owner = union(IbanSchema, Name);
+
+      expect(unwrap(Owner('John'))).toBe('John');
+      expect(unwrap(Owner({ iban: 'ES9121000418450200051332' }))).toEqual({
+        iban: 'ES9121000418450200051332',
+      });
+      expect(unwrap(Owner(null as never, 'strict'))).toMatchObject({
+        code: 'NoMatchingBranchError',
+        details: {
+          branches: [
+            {
+              branch: 0,
+              errors: [
+                { code: 'InvalidTypeError', details: { expected: 'object', received: 'null' } },
+              ],
+            },
+            {
+              branch: 1,
+              errors: [
+                { code: 'InvalidTypeError', details: { expected: 'string', received: 'null' } },
+              ],
+            },
+          ],
+        },
+      });
+      expect(unwrap(Owner(42 as never))).toMatchObject([
+        { details: { branches: [{ errors: [{ details: { received: 'number' } }] }, {}] } },
+      ]);
+    });
+
+    it('should not select a branch by an inherited property', () => {
+      const Payment = discriminatedUnion('kind', { card: CardSchema });
+
+      expect(isOk(Payment({ kind: 'toString' } as never))).toBe(false);
+    });
+
+    it('should not report the discriminator as an unknown key of a strict branch', () => {
+      const StrictIbanSchema = schema({ iban: Iban }, { unknownKeys: 'strict' });
+      const Payment = discriminatedUnion('kind', { card: CardSchema, iban: StrictIbanSchema });
+
+      expect(unwrap(Payment({ kind: 'iban', iban: 'ES123' }))).toEqual({
+        kind: 'iban',
+        iban: 'ES123',
+      });
+      expect(unwrap(Payment({ kind: 'iban', iban: 'ES123', bic: 'X' } as never, 'strict'))).toEqual(
+        expect.objectContaining({ code: 'InvalidBranchError' }),
+      );
+    });
+
+    it('should keep the discriminator in the input of a branch that declares it', () => {
+      const Kind = value(
+        rule((kind: string) => (kind === 'iban' ? ok(kind) : err('INVALID_KIND'))),
+      );
+      const KindIbanSchema = schema({ kind: Kind, iban: Iban }, { unknownKeys: 'strict' });
+      const Payment = discriminatedUnion('kind', { iban: KindIbanSchema });
+
+      expect(unwrap(Payment({ kind: 'iban', iban: 'ES123' }))).toEqual({
+        kind: 'iban',
+        iban: 'ES123',
+      });
+    });
+
+    it('should support values as branches', () => {
+      const Identifier = union(CardNumber, Iban);
+
+      expect(unwrap(Identifier('1234567812345678'))).toBe('1234567812345678');
+      expect(unwrap(Identifier('ES', 'strict'))).toMatchObject({
+        details: {
+          branches: [
+            { branch: 0, errors: ['INVALID_CARD_NUMBER'] },
+            { branch: 1, errors: ['INVALID_IBAN'] },
+          ],
+        },
+      });
+    });
+
+    it('should be used as a schema field', () => {
+      const Order = schema({
+        payment: discriminatedUnion('kind', { card: CardSchema, iban: IbanSchema }),
+      });
+
+      expect(
+        unwrap(Order({ payment: { kind: 'iban', iban: 'ES9121000418450200051332' } })),
+      ).toEqual({ payment: { kind: 'iban', iban: 'ES9121000418450200051332' } });
+      expect(unwrap(Order({ payment: { kind: 'iban', iban: '' } }))).toMatchObject({
+        payment: [{ code: 'InvalidBranchError', details: { branch: 'iban' } }],
+      });
+    });
+  });
+
+  describe('Type Safety', () => {
+    it('should infer the union of the branch values', () => {
+      const Payment = union(CardSchema, IbanSchema);
+
+      expectTypeOf(Payment({ iban: 'ES91' }, 'strict')).toEqualTypeOf<
+        Result<
+          { number: string; holder: string } | { iban: string },
+          NoMatchingBranch<
+            | { number: 'INVALID_CARD_NUMBER'[]; holder: 'EMPTY_HOLDER'[] }
+            | { iban: 'INVALID_IBAN'[] }
+            | InvalidType
+          >
+        >
+      >();
+    });
+
+    it('should infer a tagged union for a discriminated union', () => {
+      const Payment = discriminatedUnion('kind', { card: CardSchema, iban: IbanSchema });
+
+      expectTypeOf(Payment.Type).toEqualTypeOf<
+        { kind: 'card'; number: string; holder: string } | { kind: 'iban'; iban: string }
+      >();
+      expectTypeOf(Payment({ kind: 'iban', iban: 'ES91' }, 'strict')).toEqualTypeOf<
+        Result<
+          { kind: 'card'; number: string; holder: string } | { kind: 'iban'; iban: string },
+          | InvalidDiscriminator
+          | InvalidBranch<'card', { number: 'INVALID_CARD_NUMBER'[]; holder: 'EMPTY_HOLDER'[] }>
+          | InvalidBranch<'iban', { iban: 'INVALID_IBAN'[] }>
+        >
+      >();
+    });
+  });
+});
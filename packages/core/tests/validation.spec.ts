@@ -0,0 +1,166 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import type { NonEmptyArray } from '../src/generics';
+import { type Result, err, ok, unwrap } from '../src/result';
+import {
+  type Validation,
+  type ValidationIssue,
+  combine,
+  fromValidation,
+  invalid,
+  isInvalid,
+  isValid,
+  isValidation,
+  mapN,
+  toValidation,
+  valid,
+  withPath,
+  zip,
+} from '../src/validation';
+
+// Shared test utilities.
+const name = (input: string): Validation<string, 'EMPTY_NAME'> =>
+  input.length > 0 ? valid(input) : invalid('EMPTY_NAME');
+
+const age = (input: number): Validation<number, 'NEGATIVE_AGE'> =>
+  input >= 0 ? valid(input) : invalid('NEGATIVE_AGE');
+
+describe('Validation', () => {
+  describe('Public API', () => {
+    it('should create valid and invalid validations', () => {
+      expect(valid(1)).toEqual({ _id: 'Validation', _tag: 'Valid', value: 1 });
+      expect(invalid('EMPTY', ['name'])).toEqual({
+        _id: 'Validation',
+        _tag: 'Invalid',
+        issues: [{ path: ['name'], error: 'EMPTY' }],
+      });
+    });
+
+    it('should check the state of a validation', () => {
+      expect(isValid(valid(1))).toBe(true);
+      expect(isValid(invalid('EMPTY'))).toBe(false);
+      expect(isInvalid(invalid('EMPTY'))).toBe(true);
+      expect(isInvalid(valid(1))).toBe(false);
+    });
+
+    it('should check if a value is a validation', () => {
+      expect(isValidation(valid(1))).toBe(true);
+      expect(isValidation(invalid('EMPTY'))).toBe(true);
+      expect(isValidation(ok(1))).toBe(false);
+      expect(isValidation({ _id: 'Validation', _tag: 'Invalid', issues: [] })).toBe(false);
+      expect(isValidation(null)).toBe(false);
+    });
+
+    it('should combine a record accumulating every issue with its path', () => {
+      expect(combine({ name: name('John'), age: age(30) })).toEqual(
+        valid({ name: 'John', age: 30 }),
+      );
+      expect(combine({ name: name(''), age: age(-1) })).toEqual({
+        _id: 'Validation',
+        _tag: 'Invalid',
+        issues: [
+          { path: ['name'], error: 'EMPTY_NAME' },
+          { path: ['age'], error: 'NEGATIVE_AGE' },
+        ],
+      });
+    });
+
+    it('should combine an array using the indexes as paths', () => {
+      expect(combine([age(1), age(2)])).toEqual(valid([1, 2]));
+      expect(combine([age(1), age(-2), age(-3)])).toEqual({
+        _id: 'Validation',
+        _tag: 'Invalid',
+        issues: [
+          { path: [1], error: 'NEGATIVE_AGE' },
+          { path: [2], error: 'NEGATIVE_AGE' },
+        ],
+      });
+    });
+
+    it('should combine nested validations', () => {
+      const address = combine({ street: name(''), city: name('') });
+      const result = combine({ name: name('John'), address });
+
+      expect(isInvalid(result) && result.issues.map((i) => i.path)).toEqual([
+        ['address', 'street'],
+        ['address', 'city'],
+      ]);
+    });
+
+    it('should zip validations of the same value keeping the paths', () => {
+      expect(zip(name('John'), age(30))).toEqual(valid(['John', 30]));
+      expect(zip(name(''), age(-1))).toEqual({
+        _id: 'Validation',
+        _tag: 'Invalid',
+        issues: [
+          { path: [], error: 'EMPTY_NAME' },
+          { path: [], error: 'NEGATIVE_AGE' },
+        ],
+      });
+    });
+
+    it('should map the values of several validations', () => {
+      const user = (n: string, a: number) => mapN([name(n), age(a)], (n, a) => ({ n, a }));
+
+      expect(user('John', 30)).toEqual(valid({ n: 'John', a: 30 }));
+      expect(isInvalid(user('', -1)) && user('', -1)).toMatchObject({
+        issues: [{ error: 'EMPTY_NAME' }, { error: 'NEGATIVE_AGE' }],
+      });
+    });
+
+    it('should prefix the paths of the issues', () => {
+      expect(withPath(invalid('EMPTY', ['street']), ['address'])).toEqual(
+        invalid('EMPTY', ['address', 'street']),
+      );
+      expect(withPath(valid(1), ['address'])).toEqual(valid(1));
+    });
+
+    it('should convert results into validations and back', () => {
+      expect(toValidation(ok(1))).toEqual(valid(1));
+      expect(toValidation(err('EMPTY'), ['name'])).toEqual(invalid('EMPTY', ['name']));
+      expect(unwrap(fromValidation(valid(1)))).toBe(1);
+      expect(unwrap(fromValidation(combine({ name: name('') })))).toEqual([
+        { path: ['name'], error: 'EMPTY_NAME' },
+      ]);
+    });
+  });
+
+  describe('Edge Cases & Error Handling', () => {
+    it('should combine empty collections', () => {
+      expect(combine([])).toEqual(valid([]));
+      expect(combine({})).toEqual(valid({}));
+      expect(zip()).toEqual(valid([]));
+    });
+
+    it('should not call the map function when there are issues', () => {
+      let called = false;
+      mapN([name('')], () => (called = true));
+      expect(called).toBe(false);
+    });
+  });
+
+  describe('Type Safety', () => {
+    it('should provide correct type inference for all public elements', () => {
+      expectTypeOf(valid(1)).toEqualTypeOf<Validation<number, never>>();
+      expectTypeOf(invalid('EMPTY' as const)).toEqualTypeOf<Validation<never, 'EMPTY'>>();
+    });
+
+    it('should keep the same shape regardless of the number of errors', () => {
+      expectTypeOf(combine({ name: name('John'), age: age(30) })).toEqualTypeOf<
+        Validation<{ name: string; age: number }, 'EMPTY_NAME' | 'NEGATIVE_AGE'>
+      >();
+      expectTypeOf(zip(name('John'), age(30))).toEqualTypeOf<
+        Validation<[string, number], 'EMPTY_NAME' | 'NEGATIVE_AGE'>
+      >();
+      expectTypeOf(mapN([name('John'), age(30)], (n, a) => `${n}:${a}`)).toEqualTypeOf<
+        Validation<string, 'EMPTY_NAME' | 'NEGATIVE_AGE'>
+      >();
+    });
+
+    it('should infer the error of the converted result', () => {
+      expectTypeOf(fromValidation(name(''))).toEqualTypeOf<
+        Result<string, NonEmptyArray<ValidationIssue<'EMPTY_NAME'>>>
+      >();
+    });
+  });
+});
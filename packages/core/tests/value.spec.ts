@@ -1,7 +1,25 @@
 import { describe, expect, expectTypeOf, it } from 'vitest';
 
+import { adapter, container, port } from '../src/container';
 import { type Result, err, isErr, isOk, ok, unwrap } from '../src/result';
-import { isRule, isValue, rule, value } from '../src/value';
+import { schema } from '../src/schema';
+import {
+  type AsyncValue,
+  type Branded,
+  type Unbranded,
+  type Value,
+  asyncRule,
+  brand,
+  isAsync,
+  isRule,
+  isValue,
+  rule,
+  transform,
+  unbrand,
+  value,
+} from '../src/value';
+
+const EmailRegistry = port<{ exists: (email: string) => Promise<boolean> }>();
 
 describe('Value', () => {
   // Shared test utilities
@@ -100,9 +118,78 @@ describe('Value', () => {
       const UserEmail = value(EmailNotEmpty);
       expect(isValue(UserEmail)).toBe(true);
     });
+
+    it('should transform the value before the next rules', () => {
+      const Email = value(
+        transform((email: string) => email.trim().toLowerCase()),
+        helpers.createCorporateEmailRule(),
+      );
+
+      expect(unwrap(Email('  John@Company.com '))).toBe('john@company.com');
+      expect(unwrap(Email('john@gmail.com'))).toEqual(['NOT_CORPORATE']);
+      expect(Email.tree().children[0].info.subType).toBe('transform');
+    });
+
+    it('should convert the input to another type', () => {
+      const Port = value(
+        rule((port: string) => (/^\d+$/.test(port) ? ok(Number(port)) : err('NOT_NUMERIC'))),
+        rule((port: number) => (port > 0 && port < 65536 ? ok(port) : err('INVALID_PORT'))),
+      );
+
+      expect(unwrap(Port('8080'))).toBe(8080);
+      expect(unwrap(Port('0', 'strict'))).toBe('INVALID_PORT');
+      expect(unwrap(Port('http', 'strict'))).toBe('NOT_NUMERIC');
+    });
+
+    it('should create async values from async rules', async () => {
+      const Unique = asyncRule(async (email: string) =>
+        email === 'taken@company.com' ? err('EMAIL_TAKEN') : ok(email),
+      );
+      const Email = value(helpers.createCorporateEmailRule(), Unique);
+
+      expect(isRule(Unique)).toBe(true);
+      expect(isAsync(Unique)).toBe(true);
+      expect(isAsync(Email)).toBe(true);
+      expect(Email('john@company.com')).toBeInstanceOf(Promise);
+      expect(unwrap(await Email('john@company.com'))).toBe('john@company.com');
+      expect(unwrap(await Email('taken@company.com'))).toEqual(['EMAIL_TAKEN']);
+      expect(unwrap(await Email('john@gmail.com', 'strict'))).toBe('NOT_CORPORATE');
+    });
+
+    it('should resolve the services of an async rule from a container', async () => {
+      const registered = ['taken@company.com'];
+      const MemoryRegistry = adapter<typeof EmailRegistry>(() => ({
+        exists: async (email: string) => registered.includes(email),
+      }));
+      const EmailContainer = container().bind(EmailRegistry, MemoryRegistry);
+
+      const Email = value(
+        asyncRule(EmailContainer, { registry: EmailRegistry }, async (email: string, deps) =>
+          (await deps.registry.exists(email)) ? err('EMAIL_TAKEN') : ok(email),
+        ),
+      );
+
+      expect(unwrap(await Email('john@company.com'))).toBe('john@company.com');
+      expect(unwrap(await Email('taken@company.com', 'strict'))).toBe('EMAIL_TAKEN');
+    });
+
+    it('should brand the validated value without changing it', () => {
+      const EmailBrand = brand('Email');
+      const Email = value(helpers.createCorporateEmailRule(), EmailBrand);
+      const email = unwrap(Email('john@company.com'));
+
+      expect(isRule(EmailBrand)).toBe(true);
+      expect(EmailBrand.brand).toBe('Email');
+      expect(EmailBrand.info().subType).toBe('brand');
+      expect(email).toBe('john@company.com');
+      expect(unbrand(email)).toBe('john@company.com');
+      expect(unwrap(Email('john@gmail.com', 'strict'))).toBe('NOT_CORPORATE');
+    });
   });
 
   describe('Type safety', () => {
+    const helpers = createTestHelpers();
+
     it('should provide correct type inference for all public elements', () => {
       // Test all @public functions
       expectTypeOf(rule).toBeFunction();
@@ -123,5 +210,70 @@ describe('Value', () => {
       const validationResult = UserEmail('test@example.com');
       expectTypeOf(validationResult).toEqualTypeOf<Result<string, 'EMPTY_EMAIL'[]>>();
     });
+
+    it('should infer distinct input and output types', () => {
+      const Port = value(
+        transform((port: string) => port.trim()),
+        rule((port: string) => (/^\d+$/.test(port) ? ok(Number(port)) : err('NOT_NUMERIC'))),
+        rule((port: number) => (port > 0 ? ok(port) : err('INVALID_PORT'))),
+      );
+
+      expectTypeOf(Port).toEqualTypeOf<Value<number, 'NOT_NUMERIC' | 'INVALID_PORT', string>>();
+      expectTypeOf(Port.Input).toEqualTypeOf<string>();
+      expectTypeOf(Port.Output).toEqualTypeOf<number>();
+      expectTypeOf(Port.Type).toEqualTypeOf<number>();
+
+      const Server = schema({ port: Port });
+      expectTypeOf(Server.Input).toEqualTypeOf<{ port: string }>();
+      expectTypeOf(Server.Output).toEqualTypeOf<{ port: number }>();
+      expectTypeOf(Server.Type).toEqualTypeOf<{ port: string }>();
+      expectTypeOf(Server({ port: '80' }, 'strict')).toEqualTypeOf<
+        Result<{ port: number }, { port: 'NOT_NUMERIC' | 'INVALID_PORT' }>
+      >();
+    });
+
+    it('should infer branded outputs only obtained from validation', () => {
+      const Email = value(helpers.createCorporateEmailRule(), brand('Email'));
+      const UserSchema = schema({ email: Email });
+      const sendWelcome = (email: typeof Email.Output) => unbrand(email);
+
+      expectTypeOf(Email).toEqualTypeOf<Value<Branded<string, 'Email'>, 'NOT_CORPORATE', string>>();
+      expectTypeOf(Email.Input).toEqualTypeOf<string>();
+      expectTypeOf(Email.Type).toEqualTypeOf<Branded<string, 'Email'>>();
+      expectTypeOf(UserSchema.Output).toEqualTypeOf<{ email: Branded<string, 'Email'> }>();
+      expectTypeOf(UserSchema.Input).toEqualTypeOf<{ email: string }>();
+      expectTypeOf<string>().not.toMatchTypeOf<typeof Email.Output>();
+      expectTypeOf<typeof Email.Output>().toMatchTypeOf<string>();
+      expectTypeOf(sendWelcome).returns.toEqualTypeOf<string>();
+    });
+
+    it('should stack and remove the brands', () => {
+      const Email = value(helpers.createCorporateEmailRule(), brand('Email'), brand('Corporate'));
+      type CorporateEmail = typeof Email.Output;
+
+      expectTypeOf<CorporateEmail>().toMatchTypeOf<Branded<string, 'Email'>>();
+      expectTypeOf<CorporateEmail>().toMatchTypeOf<Branded<string, 'Corporate'>>();
+      expectTypeOf<Branded<string, 'Email'>>().not.toMatchTypeOf<CorporateEmail>();
+      expectTypeOf<Unbranded<CorporateEmail>>().toEqualTypeOf<string>();
+      expectTypeOf<Unbranded<Branded<'admin' | 'user', 'Role'>>>().toEqualTypeOf<
+        'admin' | 'user'
+      >();
+      expectTypeOf<Unbranded<number>>().toEqualTypeOf<number>();
+    });
+
+    it('should infer promises of async values', () => {
+      const Email = value(
+        transform((email: string) => email.trim()),
+        asyncRule(async (email: string) => (email.length > 0 ? ok(email) : err('EMAIL_TAKEN'))),
+      );
+
+      expectTypeOf(Email).toEqualTypeOf<AsyncValue<string, 'EMAIL_TAKEN', string>>();
+      expectTypeOf(Email('john@company.com')).toEqualTypeOf<
+        Promise<Result<string, 'EMAIL_TAKEN'[]>>
+      >();
+      expectTypeOf(Email('john@company.com', 'strict')).toEqualTypeOf<
+        Promise<Result<string, 'EMAIL_TAKEN'>>
+      >();
+    });
   });
 });
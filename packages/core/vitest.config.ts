@@ -3,23 +3,37 @@ import { defineVitestConfig, project } from '@nuxo/vitest';
 export default defineVitestConfig({
   projects: [
     project('aggregate'),
+    project('async-result'),
     project('builder'),
+    project('collection'),
     project('component'),
     project('container'),
     project('criteria'),
     project('doc'),
     project('element'),
     project('env'),
+    project('error'),
+    project('error-report'),
     project('event'),
     project('flow'),
     project('hash'),
+    project('lazy'),
+    project('match-error'),
     project('metadata'),
+    project('modifier'),
+    project('option'),
     project('panic'),
+    project('parse'),
     project('pipe'),
     project('result'),
+    project('result-json'),
     project('schema'),
+    project('schema-transform'),
     project('specification'),
+    project('throwable'),
     project('trace'),
+    project('union'),
+    project('validation'),
     project('value'),
   ],
 });
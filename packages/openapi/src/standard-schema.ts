@@ -8,71 +8,40 @@
  */
 import type { StandardSchemaV1 } from '@standard-schema/spec';
 
-import type { Result, Schema, SchemaValues } from '@mixor/core';
-import { isOk } from '@mixor/core';
+import type {
+  Any,
+  ErrorReportOptions,
+  Result,
+  Schema,
+  SchemaInput,
+  SchemaValues,
+  UnknownKeysPolicy,
+} from '@mixor/core';
+import { flattenErrors, isOk, parse } from '@mixor/core';
 
 /**
  * Converts a Mixor Result to a Standard Schema Result.
  *
  * @typeParam T - The type of the successful value.
  * @param result - The Mixor result to convert.
+ * @param options - The report options of the errors (e.g. the message catalogue).
  * @returns A Standard Schema result.
  *
  * @internal
  */
-const convertResult = <T, E>(result: Result<T, E>): StandardSchemaV1.Result<T> => {
+const convertResult = <T, E>(
+  result: Result<T, E>,
+  options: ErrorReportOptions,
+): StandardSchemaV1.Result<T> => {
   if (isOk(result)) {
     return { value: result.value };
   }
 
-  // Convert Mixor error to Standard Schema issues
-  const error = result.error;
-  const issues: StandardSchemaV1.Issue[] = [];
-
-  if (typeof error === 'string') {
-    // Simple string error
-    issues.push({ message: error });
-  } else if (Array.isArray(error)) {
-    // Array of errors - convert each error to an issue
-    for (const err of error) {
-      issues.push({
-        message: typeof err === 'string' ? err : String(err),
-      });
-    }
-  } else if (typeof error === 'object' && error !== null) {
-    // Object error - convert each field to an issue
-    for (const [field, fieldError] of Object.entries(error)) {
-      if (Array.isArray(fieldError)) {
-        // Array of errors for a field
-        for (const err of fieldError) {
-          if (Array.isArray(err)) {
-            // Nested array of errors (Mixor schema creates this structure)
-            for (const nestedErr of err) {
-              issues.push({
-                message: typeof nestedErr === 'string' ? nestedErr : String(nestedErr),
-                path: [field],
-              });
-            }
-          } else {
-            // Single error in array
-            issues.push({
-              message: typeof err === 'string' ? err : String(err),
-              path: [field],
-            });
-          }
-        }
-      } else {
-        // Single error for a field
-        issues.push({
-          message: typeof fieldError === 'string' ? fieldError : String(fieldError),
-          path: [field],
-        });
-      }
-    }
-  } else {
-    // Fallback for other error types
-    issues.push({ message: String(error) });
-  }
+  // Convert the Mixor errors to Standard Schema issues, one issue per error with its path.
+  const issues = flattenErrors(result.error, options).map(
+    ({ path, message }): StandardSchemaV1.Issue =>
+      path.length > 0 ? { message, path } : { message },
+  );
 
   return { issues };
 };
@@ -82,6 +51,8 @@ const convertResult = <T, E>(result: Result<T, E>): StandardSchemaV1.Result<T> =
  *
  * @typeParam F - The schema fields type.
  * @param schema - The Mixor schema to convert.
+ * @param options - The report options of the errors (e.g. the message catalogue to translate the
+ * issue messages). See {@link flattenErrors}.
  * @returns A Standard Schema compatible object.
  *
  * @example
@@ -112,20 +83,26 @@ const convertResult = <T, E>(result: Result<T, E>): StandardSchemaV1.Result<T> =
  *
  * @public
  */
-const toStandardSchema = <F>(schema: Schema<F>): StandardSchemaV1<SchemaValues<F>> => {
+const toStandardSchema = <F>(
+  schema: Schema<F, UnknownKeysPolicy, Any>,
+  options: ErrorReportOptions = {},
+): StandardSchemaV1<SchemaInput<F>, SchemaValues<F>> => {
   return {
     '~standard': {
       version: 1,
       vendor: 'mixor',
-      validate: (value: unknown): StandardSchemaV1.Result<SchemaValues<F>> => {
-        // Use the Mixor schema to validate the input
-        const result = schema(value as SchemaValues<F>);
-        // Standard Schema allows both sync and async validation.
-        // Since Mixor schema validation is synchronous, we return the result directly.
-        return convertResult(result);
+      validate: (value: unknown) => {
+        // Parse the unknown input with the Mixor schema, checking its shape first.
+        const result = parse(schema, value);
+
+        // Standard Schema allows both sync and async validation, so the async schemas (and only
+        // them) return a promise of the result.
+        return result instanceof Promise
+          ? result.then((resolved) => convertResult(resolved, options))
+          : convertResult(result, options);
       },
       types: {
-        input: {} as SchemaValues<F>,
+        input: {} as SchemaInput<F>,
         output: {} as SchemaValues<F>,
       },
     },
@@ -6,9 +6,20 @@
  * This source code is licensed under the MIT license found in the
  * LICENSE file in the root directory of this source tree.
  */
+import type { StandardSchemaV1 } from '@standard-schema/spec';
 import { describe, expect, expectTypeOf, it } from 'vitest';
 
-import { err, ok, rule, schema, value } from '@mixor/core';
+import {
+  asyncRule,
+  defineError,
+  err,
+  ok,
+  rule,
+  schema,
+  transform,
+  value,
+  withDefault,
+} from '@mixor/core';
 
 import { hasIssues, hasValue, toStandardSchema } from '../src/standard-schema';
 
@@ -54,6 +65,23 @@ describe('toStandardSchema', () => {
       expectTypeOf(standardNumberSchema).toHaveProperty('~standard');
     });
 
+    it('should infer the input and output types of the schema', () => {
+      const Port = value(
+        transform((port: string) => Number(port)),
+        rule((port: number) => (port > 0 ? ok(port) : err('INVALID_PORT'))),
+      );
+      const ServerSchema = toStandardSchema(schema({ port: Port, retries: withDefault(Port, 3) }));
+
+      expectTypeOf<StandardSchemaV1.InferInput<typeof ServerSchema>>().toEqualTypeOf<{
+        port: string;
+        retries?: string | undefined;
+      }>();
+      expectTypeOf<StandardSchemaV1.InferOutput<typeof ServerSchema>>().toEqualTypeOf<{
+        port: number;
+        retries: number;
+      }>();
+    });
+
     it('should validate Result types correctly', () => {
       // Test that the validate function returns the correct Result type
       const UserSchema = schema({
@@ -123,9 +151,7 @@ describe('toStandardSchema', () => {
       expect(hasIssues(result)).toBe(true);
       if (hasIssues(result)) {
         expect(result.issues).toHaveLength(1);
-        expect(result.issues).toEqual([
-          { message: 'TOO_SHORT', path: ['field'] },
-        ]);
+        expect(result.issues).toEqual([{ message: 'TOO_SHORT', path: ['field'] }]);
       }
     });
 
@@ -153,6 +179,59 @@ describe('toStandardSchema', () => {
         ]);
       }
     });
+
+    it('should report the messages of error objects at their nested paths', () => {
+      const TooShort = defineError('TooShortError', {
+        context: 'User',
+        origin: 'street',
+        message: (details: { min: number }) => `Must have at least ${details.min} characters`,
+      });
+      const UserSchema = schema({
+        address: schema({
+          street: value(
+            rule((street: string) => (street.length >= 3 ? ok(street) : err(TooShort({ min: 3 })))),
+          ),
+        }),
+      });
+
+      const result = toStandardSchema(UserSchema)['~standard'].validate({
+        address: { street: 'A' },
+      });
+      const translated = toStandardSchema(UserSchema, {
+        messages: { TooShortError: 'Debe tener al menos {min} caracteres' },
+      })['~standard'].validate({ address: { street: 'A' } });
+
+      expect(hasIssues(result) && result.issues).toEqual([
+        { message: 'Must have at least 3 characters', path: ['address', 'street'] },
+      ]);
+      expect(hasIssues(translated) && translated.issues).toEqual([
+        { message: 'Debe tener al menos 3 caracteres', path: ['address', 'street'] },
+      ]);
+    });
+  });
+
+  describe('Async schemas', () => {
+    it('should validate async schemas with a promise of the result', async () => {
+      const UserSchema = schema({
+        email: value(
+          asyncRule(async (email: string) =>
+            email === 'taken@company.com' ? err('EMAIL_TAKEN') : ok(email),
+          ),
+        ),
+      });
+
+      const standardSchema = toStandardSchema(UserSchema);
+      const valid = standardSchema['~standard'].validate({ email: 'john@company.com' });
+
+      expect(valid).toBeInstanceOf(Promise);
+      expect(await valid).toEqual({ value: { email: 'john@company.com' } });
+      expect(await standardSchema['~standard'].validate({ email: 'taken@company.com' })).toEqual({
+        issues: [{ message: 'EMAIL_TAKEN', path: ['email'] }],
+      });
+      expect(await standardSchema['~standard'].validate(null)).toEqual({
+        issues: [{ message: 'Expected object at "", received null' }],
+      });
+    });
   });
 
   describe('Code examples', () => {
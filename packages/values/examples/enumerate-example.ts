@@ -3,72 +3,53 @@
  * Example usage of the enum functionality
  * This demonstrates both styles: from string array and from native enum
  */
-import { value } from '@mixor/core';
+import { schema } from '@mixor/core';
 
 import { EnumerateError, enumerate } from '../src/enumerate';
 
+// Gets the code of the panic error thrown by an invalid enumeration.
+function panicCode(fn: () => unknown) {
+  try {
+    fn();
+    return undefined; // Never reached.
+  } catch (error) {
+    return error instanceof EnumerateError ? error.code : undefined;
+  }
+}
+
 // *********************************************************************************************
 // Enum example with arrays.
 // *********************************************************************************************
 
 function arrayEnumExample() {
-  console.log('1. Array enum example:');
   // String enum example with arrays
   const status = enumerate(['active', 'inactive', 'unverified']);
 
   // Good
   const s1 = status('active'); // ok('active')
-  console.log(s1);
 
   // Bad
   // @ts-expect-error - Invalid value.
-  const s2 = status('deleted'); // err('INVALID_ENUM_VALUE')
-  console.log(s2);
+  const s2 = status('deleted'); // err([{ code: 'InvalidEnumValueError', ... }])
 
   // Number enum example with arrays
   const priority = enumerate([1, 2, 3, 4, 5]);
 
   // Good
   const p1 = priority(3); // ok(3)
-  console.log(p1);
 
   // Bad
   // @ts-expect-error - Invalid value.
-  const p2 = priority(10); // err('INVALID_ENUM_VALUE')
-  console.log(p2);
+  const p2 = priority(10); // err([{ code: 'InvalidEnumValueError', ... }])
 
-  // Test empty enum validation
-  try {
-    enumerate([]);
-    console.log('This should not be reached');
-  } catch (error) {
-    if (error instanceof EnumerateError) {
-      console.log('Panic caught:', error.message);
-      console.log('Error key:', error.key);
-    }
-  }
+  // Invalid enumerations panic.
+  const panics = [
+    panicCode(() => enumerate([])), // 'Enumerate:EmptyEnum'
+    panicCode(() => enumerate(['active', 'inactive', 'active'])), // 'Enumerate:DuplicateValues'
+    panicCode(() => enumerate(['active', 123])), // 'Enumerate:MixedTypes'
+  ];
 
-  // Test duplicate values validation
-  try {
-    enumerate(['active', 'inactive', 'active']);
-    console.log('This should not be reached');
-  } catch (error) {
-    if (error instanceof EnumerateError) {
-      console.log('Duplicate validation caught:', error.message);
-      console.log('Error key:', error.key);
-    }
-  }
-
-  // Test mixed types validation
-  try {
-    enumerate(['active', 123]);
-    console.log('This should not be reached');
-  } catch (error) {
-    if (error instanceof EnumerateError) {
-      console.log('Mixed types validation caught:', error.message);
-      console.log('Error key:', error.key);
-    }
-  }
+  return { s1, s2, p1, p2, panics };
 }
 
 // *********************************************************************************************
@@ -76,7 +57,6 @@ function arrayEnumExample() {
 // *********************************************************************************************
 
 function typescriptEnumExample() {
-  console.log('\n2.Typescript enum example:');
   // TypeScript enum examples (string only)
   enum Status {
     ACTIVE = 'active',
@@ -94,23 +74,19 @@ function typescriptEnumExample() {
 
   // Good.
   const se1 = statusEnum(Status.ACTIVE); // ok('active')
-  console.log(se1);
 
   // Bad.
   // @ts-expect-error - Invalid value.
-  const se2 = statusEnum(Priority.LOW); // err('INVALID_ENUM_VALUE')
-  console.log(se2);
+  const se2 = statusEnum(Priority.LOW); // err([{ code: 'InvalidEnumValueError', ... }])
 
   const priorityEnum = enumerate(Priority);
 
   // Good.
   const pe1 = priorityEnum(Priority.MEDIUM); // ok(2)
-  console.log(pe1);
 
   // Bad.
   // @ts-expect-error - Invalid value.
-  const pe2 = priorityEnum(Status.ACTIVE); // err('INVALID_ENUM_VALUE')
-  console.log(pe2);
+  const pe2 = priorityEnum(Status.ACTIVE); // err([{ code: 'InvalidEnumValueError', ... }])
 
   enum MixedEnum {
     ACTIVE = 'active',
@@ -121,56 +97,37 @@ function typescriptEnumExample() {
     HIGH = 3,
   }
 
-  // Test empty enum validation
-  try {
-    enumerate({});
-    console.log('This should not be reached');
-  } catch (error) {
-    if (error instanceof EnumerateError) {
-      console.log('Panic caught:', error.message);
-      console.log('Error key:', error.key);
-    }
-  }
-
-  // Test duplicate values validation
-  try {
-    enumerate({
-      ACTIVE: 'active',
-      INACTIVE: 'inactive',
-      DUPLICATE: 'active',
-    });
-    console.log('This should not be reached');
-  } catch (error) {
-    if (error instanceof EnumerateError) {
-      console.log('Duplicate validation caught:', error.message);
-      console.log('Error key:', error.key);
-    }
-  }
-
-  try {
-    enumerate(MixedEnum);
-    console.log('This should not be reached');
-  } catch (error) {
-    if (error instanceof EnumerateError) {
-      console.log('Mixed enum validation caught:', error.message);
-      console.log('Error key:', error.key);
-    }
-  }
+  // Invalid enumerations panic.
+  const panics = [
+    panicCode(() => enumerate({})), // 'Enumerate:EmptyEnum'
+    panicCode(() =>
+      enumerate({
+        ACTIVE: 'active',
+        INACTIVE: 'inactive',
+        DUPLICATE: 'active',
+      }),
+    ), // 'Enumerate:DuplicateValues'
+    panicCode(() => enumerate(MixedEnum)), // 'Enumerate:MixedTypes'
+  ];
+
+  return { se1, se2, pe1, pe2, panics };
 }
 
-function enumerateAsValueExample() {
-  console.log('\n3. Enumerate as value example:');
+// *********************************************************************************************
+// Enumerate as schema field.
+// *********************************************************************************************
+
+function enumerateAsFieldExample() {
+  // The enumerations are values, so they can be used as schema fields.
+  const UserSchema = schema({ status: enumerate(['active', 'inactive', 'unverified']) });
+  const user = UserSchema({ status: 'active' }); // ok({ status: 'active' })
 
-  // Using a previous defined enumerate.
+  // The values of the enumeration are available for the documentation (e.g. OpenAPI).
   const status = enumerate(['active', 'inactive', 'unverified']);
-  const statusValue = value(status); // Value<"active" | "inactive" | "unverified", "INVALID_ENUM_VALUE">
-  console.log(statusValue);
+  const values = status.values; // ['active', 'inactive', 'unverified']
+  const subType = status.info().subType; // 'enum'
 
-  // Using directly the enumerate function.
-  const statusValue2 = value(enumerate(['active', 'inactive', 'unverified'])); // Value<string, "INVALID_ENUM_VALUE">
-  console.log(statusValue2);
+  return { user, values, subType };
 }
 
-arrayEnumExample();
-typescriptEnumExample();
-enumerateAsValueExample();
+export { arrayEnumExample, enumerateAsFieldExample, typescriptEnumExample };
@@ -0,0 +1,26 @@
+import { type Any, type ResultError, type Rule, value } from '@mixor/core';
+
+/**
+ * Result base error type for bigint values rules.
+ *
+ * @remarks
+ * This error type is used to represent the error that occurs when a bigint value is not valid.
+ * It is a base error type for all bigint value errors.
+ *
+ * @public
+ */
+type BigIntValueError<C extends string, O extends string> = ResultError<C, 'BigIntValue', O>;
+
+/**
+ * Creates a bigint value with automatic type inference for tracing.
+ *
+ * @param rules - The validation rules to apply to the bigint value.
+ * @returns A new bigint value.
+ *
+ * @public
+ */
+const bigint = <T extends Rule<bigint, Any, Any>[]>(...rules: T) =>
+  value<T>(...rules).subType('bigint');
+
+export type { BigIntValueError };
+export { bigint };
@@ -0,0 +1,52 @@
+import { type Result, err, ok, rule } from '@mixor/core';
+
+import type { BigIntValueError } from './bigint';
+
+/**
+ * Result error type related to the bigint `coerceBigInt` rule.
+ *
+ * @internal
+ */
+type NotCoercible = BigIntValueError<'NotCoercibleError', 'coerceBigInt'>;
+
+/**
+ * Instance of the `NotCoercible` error type.
+ *
+ * @internal
+ */
+const NotCoercible: NotCoercible = {
+  code: 'NotCoercibleError',
+  context: 'BigIntValue',
+  origin: 'coerceBigInt',
+  message: 'Value cannot be coerced to a bigint',
+};
+
+/**
+ * Coerces a value to a bigint.
+ * Bigints are kept, and integer numbers and integer strings are converted with the `BigInt`
+ * function.
+ *
+ * @remarks
+ * Other values (e.g. decimal numbers, booleans or blank strings) are not coerced, as the `BigInt`
+ * function would throw or silently convert them.
+ *
+ * @returns A rule function that coerces the value to a bigint.
+ * This function returns a Result type with the coerced bigint, or an error if the value
+ * cannot be coerced.
+ *
+ * @public
+ */
+const coerceBigInt = () =>
+  rule((value: unknown): Result<bigint, NotCoercible> => {
+    if (typeof value === 'bigint') {
+      return ok(value);
+    }
+
+    if (Number.isInteger(value) || (typeof value === 'string' && /^\s*[-+]?\d+\s*$/.test(value))) {
+      return ok(BigInt(value as number | string));
+    }
+
+    return err(NotCoercible);
+  }).subType('coerce');
+
+export { coerceBigInt };
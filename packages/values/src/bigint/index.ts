@@ -0,0 +1,7 @@
+export * from './bigint';
+export * from './coerce-bigint';
+export * from './is-bigint';
+export * from './max-bigint';
+export * from './min-bigint';
+export * from './negative-bigint';
+export * from './positive-bigint';
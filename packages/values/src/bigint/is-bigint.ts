@@ -0,0 +1,36 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { BigIntValueError } from './bigint';
+
+/**
+ * Result error type related to the bigint `isBigInt` rule.
+ *
+ * @internal
+ */
+type NotBigInt = BigIntValueError<'NotBigIntError', 'isBigInt'>;
+
+/**
+ * Instance of the `NotBigInt` error type.
+ *
+ * @internal
+ */
+const NotBigInt: NotBigInt = {
+  code: 'NotBigIntError',
+  context: 'BigIntValue',
+  origin: 'isBigInt',
+  message: 'Value is not a bigint',
+};
+
+/**
+ * Creates a value rule function that validates that the value is a bigint.
+ *
+ * @returns A rule function that validates that the value is a bigint.
+ * This function returns a Result type with the value if it is a bigint, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const isBigInt = () =>
+  rule((value: unknown) => (typeof value === 'bigint' ? ok(value) : err(NotBigInt)));
+
+export { isBigInt };
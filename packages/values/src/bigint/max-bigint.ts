@@ -0,0 +1,40 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { BigIntValueError } from './bigint';
+
+/**
+ * Result error type related to the bigint `maxBigInt` rule.
+ *
+ * @internal
+ */
+type TooBig = BigIntValueError<'TooBigError', 'maxBigInt'>;
+
+/**
+ * Instance of the `TooBig` error type.
+ *
+ * @internal
+ */
+const TooBig: TooBig = {
+  code: 'TooBigError',
+  context: 'BigIntValue',
+  origin: 'maxBigInt',
+  message: 'BigInt is greater than maximum',
+};
+
+/**
+ * Creates a value rule function that validates bigint values are not greater than a maximum.
+ *
+ * @remarks
+ * The maximum is inclusive.
+ *
+ * @param max - The maximum value.
+ * @returns A rule function that validates that the value is not greater than the maximum.
+ * This function returns a Result type with the value if it is not greater than the maximum, or an
+ * error if it is.
+ *
+ * @public
+ */
+const maxBigInt = (max: bigint) =>
+  rule((value: bigint) => (value <= max ? ok(value) : err(TooBig)));
+
+export { maxBigInt };
@@ -0,0 +1,40 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { BigIntValueError } from './bigint';
+
+/**
+ * Result error type related to the bigint `minBigInt` rule.
+ *
+ * @internal
+ */
+type TooSmall = BigIntValueError<'TooSmallError', 'minBigInt'>;
+
+/**
+ * Instance of the `TooSmall` error type.
+ *
+ * @internal
+ */
+const TooSmall: TooSmall = {
+  code: 'TooSmallError',
+  context: 'BigIntValue',
+  origin: 'minBigInt',
+  message: 'BigInt is less than minimum',
+};
+
+/**
+ * Creates a value rule function that validates bigint values are not less than a minimum.
+ *
+ * @remarks
+ * The minimum is inclusive.
+ *
+ * @param min - The minimum value.
+ * @returns A rule function that validates that the value is not less than the minimum.
+ * This function returns a Result type with the value if it is not less than the minimum, or an
+ * error if it is.
+ *
+ * @public
+ */
+const minBigInt = (min: bigint) =>
+  rule((value: bigint) => (value >= min ? ok(value) : err(TooSmall)));
+
+export { minBigInt };
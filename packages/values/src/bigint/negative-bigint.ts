@@ -0,0 +1,38 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { BigIntValueError } from './bigint';
+
+/**
+ * Result error type related to the bigint `negativeBigInt` rule.
+ *
+ * @internal
+ */
+type NotNegative = BigIntValueError<'NotNegativeError', 'negativeBigInt'>;
+
+/**
+ * Instance of the `NotNegative` error type.
+ *
+ * @internal
+ */
+const NotNegative: NotNegative = {
+  code: 'NotNegativeError',
+  context: 'BigIntValue',
+  origin: 'negativeBigInt',
+  message: 'BigInt is not negative',
+};
+
+/**
+ * Creates a value rule function that validates bigint values are negative.
+ *
+ * @remarks
+ * Zero is not considered negative.
+ *
+ * @returns A rule function that validates that the value is negative.
+ * This function returns a Result type with the value if it is negative, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const negativeBigInt = () => rule((value: bigint) => (value < 0n ? ok(value) : err(NotNegative)));
+
+export { negativeBigInt };
@@ -0,0 +1,38 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { BigIntValueError } from './bigint';
+
+/**
+ * Result error type related to the bigint `positiveBigInt` rule.
+ *
+ * @internal
+ */
+type NotPositive = BigIntValueError<'NotPositiveError', 'positiveBigInt'>;
+
+/**
+ * Instance of the `NotPositive` error type.
+ *
+ * @internal
+ */
+const NotPositive: NotPositive = {
+  code: 'NotPositiveError',
+  context: 'BigIntValue',
+  origin: 'positiveBigInt',
+  message: 'BigInt is not positive',
+};
+
+/**
+ * Creates a value rule function that validates bigint values are positive.
+ *
+ * @remarks
+ * Zero is not considered positive.
+ *
+ * @returns A rule function that validates that the value is positive.
+ * This function returns a Result type with the value if it is positive, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const positiveBigInt = () => rule((value: bigint) => (value > 0n ? ok(value) : err(NotPositive)));
+
+export { positiveBigInt };
@@ -0,0 +1,26 @@
+import { type Any, type ResultError, type Rule, value } from '@mixor/core';
+
+/**
+ * Result base error type for boolean values rules.
+ *
+ * @remarks
+ * This error type is used to represent the error that occurs when a boolean value is not valid.
+ * It is a base error type for all boolean value errors.
+ *
+ * @public
+ */
+type BooleanValueError<C extends string, O extends string> = ResultError<C, 'BooleanValue', O>;
+
+/**
+ * Creates a boolean value with automatic type inference for tracing.
+ *
+ * @param rules - The validation rules to apply to the boolean value.
+ * @returns A new boolean value.
+ *
+ * @public
+ */
+const boolean = <T extends Rule<boolean, Any, Any>[]>(...rules: T) =>
+  value<T>(...rules).subType('boolean');
+
+export type { BooleanValueError };
+export { boolean };
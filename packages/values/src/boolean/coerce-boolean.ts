@@ -0,0 +1,68 @@
+import { type Result, err, ok, rule } from '@mixor/core';
+
+import type { BooleanValueError } from './boolean';
+
+/**
+ * Result error type related to the boolean `coerceBoolean` rule.
+ *
+ * @internal
+ */
+type NotCoercible = BooleanValueError<'NotCoercibleError', 'coerceBoolean'>;
+
+/**
+ * Instance of the `NotCoercible` error type.
+ *
+ * @internal
+ */
+const NotCoercible: NotCoercible = {
+  code: 'NotCoercibleError',
+  context: 'BooleanValue',
+  origin: 'coerceBoolean',
+  message: 'Value cannot be coerced to a boolean',
+};
+
+/**
+ * The values coerced to a boolean (strings are compared in lowercase and without spaces).
+ *
+ * @internal
+ */
+const booleans = new Map<unknown, boolean>([
+  ['true', true],
+  ['false', false],
+  ['1', true],
+  ['0', false],
+  ['yes', true],
+  ['no', false],
+  ['on', true],
+  ['off', false],
+  [1, true],
+  [0, false],
+]);
+
+/**
+ * Coerces a value to a boolean.
+ * Booleans are kept, and the usual representations of booleans in forms, query strings and
+ * environment variables are converted (`'true'`/`'false'`, `'1'`/`'0'`, `'yes'`/`'no'`,
+ * `'on'`/`'off'` and `1`/`0`).
+ *
+ * @remarks
+ * Other values are not coerced, as the `Boolean` function would convert any non-empty string
+ * (e.g. `'false'`) to `true`.
+ *
+ * @returns A rule function that coerces the value to a boolean.
+ * This function returns a Result type with the coerced boolean, or an error if the value
+ * cannot be coerced.
+ *
+ * @public
+ */
+const coerceBoolean = () =>
+  rule((value: unknown): Result<boolean, NotCoercible> => {
+    if (typeof value === 'boolean') {
+      return ok(value);
+    }
+
+    const coerced = booleans.get(typeof value === 'string' ? value.trim().toLowerCase() : value);
+    return coerced === undefined ? err(NotCoercible) : ok(coerced);
+  }).subType('coerce');
+
+export { coerceBoolean };
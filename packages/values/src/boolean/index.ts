@@ -0,0 +1,3 @@
+export * from './boolean';
+export * from './coerce-boolean';
+export * from './is-boolean';
@@ -0,0 +1,36 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { BooleanValueError } from './boolean';
+
+/**
+ * Result error type related to the boolean `isBoolean` rule.
+ *
+ * @internal
+ */
+type NotBoolean = BooleanValueError<'NotBooleanError', 'isBoolean'>;
+
+/**
+ * Instance of the `NotBoolean` error type.
+ *
+ * @internal
+ */
+const NotBoolean: NotBoolean = {
+  code: 'NotBooleanError',
+  context: 'BooleanValue',
+  origin: 'isBoolean',
+  message: 'Value is not a boolean',
+};
+
+/**
+ * Creates a value rule function that validates that the value is a boolean.
+ *
+ * @returns A rule function that validates that the value is a boolean.
+ * This function returns a Result type with the value if it is a boolean, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const isBoolean = () =>
+  rule((value: unknown) => (typeof value === 'boolean' ? ok(value) : err(NotBoolean)));
+
+export { isBoolean };
@@ -0,0 +1,40 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { DateValueError } from './date';
+
+/**
+ * Result error type related to the date `after` rule.
+ *
+ * @internal
+ */
+type TooEarly = DateValueError<'TooEarlyError', 'after'>;
+
+/**
+ * Instance of the `TooEarly` error type.
+ *
+ * @internal
+ */
+const TooEarly: TooEarly = {
+  code: 'TooEarlyError',
+  context: 'DateValue',
+  origin: 'after',
+  message: 'Date is not after the limit',
+};
+
+/**
+ * Creates a value rule function that validates date values are after a limit.
+ *
+ * @remarks
+ * The limit is exclusive.
+ *
+ * @param limit - The date that the value must be after.
+ * @returns A rule function that validates that the value is after the limit.
+ * This function returns a Result type with the value if it is after the limit, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const after = (limit: Date) =>
+  rule((value: Date) => (value.getTime() > limit.getTime() ? ok(value) : err(TooEarly)));
+
+export { after };
@@ -0,0 +1,40 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { DateValueError } from './date';
+
+/**
+ * Result error type related to the date `before` rule.
+ *
+ * @internal
+ */
+type TooLate = DateValueError<'TooLateError', 'before'>;
+
+/**
+ * Instance of the `TooLate` error type.
+ *
+ * @internal
+ */
+const TooLate: TooLate = {
+  code: 'TooLateError',
+  context: 'DateValue',
+  origin: 'before',
+  message: 'Date is not before the limit',
+};
+
+/**
+ * Creates a value rule function that validates date values are before a limit.
+ *
+ * @remarks
+ * The limit is exclusive.
+ *
+ * @param limit - The date that the value must be before.
+ * @returns A rule function that validates that the value is before the limit.
+ * This function returns a Result type with the value if it is before the limit, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const before = (limit: Date) =>
+  rule((value: Date) => (value.getTime() < limit.getTime() ? ok(value) : err(TooLate)));
+
+export { before };
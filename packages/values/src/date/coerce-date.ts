@@ -0,0 +1,53 @@
+import { type Result, err, ok, rule } from '@mixor/core';
+
+import type { DateValueError } from './date';
+
+/**
+ * Result error type related to the date `coerceDate` rule.
+ *
+ * @internal
+ */
+type NotCoercible = DateValueError<'NotCoercibleError', 'coerceDate'>;
+
+/**
+ * Instance of the `NotCoercible` error type.
+ *
+ * @internal
+ */
+const NotCoercible: NotCoercible = {
+  code: 'NotCoercibleError',
+  context: 'DateValue',
+  origin: 'coerceDate',
+  message: 'Value cannot be coerced to a valid date',
+};
+
+/**
+ * Coerces a value to a date.
+ * Dates are kept, and strings (e.g. ISO 8601 dates) and numbers (timestamps in milliseconds) are
+ * converted with the `Date` constructor.
+ *
+ * @remarks
+ * Other values (e.g. `null` or booleans) and the values that result in an invalid date are not
+ * coerced.
+ *
+ * @returns A rule function that coerces the value to a date.
+ * This function returns a Result type with the coerced date, or an error if the value
+ * cannot be coerced.
+ *
+ * @public
+ */
+const coerceDate = () =>
+  rule((value: unknown): Result<Date, NotCoercible> => {
+    const coerced =
+      value instanceof Date
+        ? value
+        : typeof value === 'string' || typeof value === 'number'
+          ? new Date(value)
+          : undefined;
+
+    return coerced === undefined || Number.isNaN(coerced.getTime())
+      ? err(NotCoercible)
+      : ok(coerced);
+  }).subType('coerce');
+
+export { coerceDate };
@@ -0,0 +1,25 @@
+import { type Any, type ResultError, type Rule, value } from '@mixor/core';
+
+/**
+ * Result base error type for date values rules.
+ *
+ * @remarks
+ * This error type is used to represent the error that occurs when a date value is not valid.
+ * It is a base error type for all date value errors.
+ *
+ * @public
+ */
+type DateValueError<C extends string, O extends string> = ResultError<C, 'DateValue', O>;
+
+/**
+ * Creates a date value with automatic type inference for tracing.
+ *
+ * @param rules - The validation rules to apply to the date value.
+ * @returns A new date value.
+ *
+ * @public
+ */
+const date = <T extends Rule<Date, Any, Any>[]>(...rules: T) => value<T>(...rules).subType('date');
+
+export type { DateValueError };
+export { date };
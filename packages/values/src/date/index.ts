@@ -0,0 +1,5 @@
+export * from './after';
+export * from './before';
+export * from './coerce-date';
+export * from './date';
+export * from './is-date';
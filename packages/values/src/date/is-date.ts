@@ -0,0 +1,41 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { DateValueError } from './date';
+
+/**
+ * Result error type related to the date `isDate` rule.
+ *
+ * @internal
+ */
+type NotDate = DateValueError<'NotDateError', 'isDate'>;
+
+/**
+ * Instance of the `NotDate` error type.
+ *
+ * @internal
+ */
+const NotDate: NotDate = {
+  code: 'NotDateError',
+  context: 'DateValue',
+  origin: 'isDate',
+  message: 'Value is not a valid date',
+};
+
+/**
+ * Creates a value rule function that validates that the value is a valid date.
+ *
+ * @remarks
+ * Invalid dates (e.g. `new Date('invalid')`) are not considered valid dates.
+ *
+ * @returns A rule function that validates that the value is a valid date.
+ * This function returns a Result type with the value if it is a valid date, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const isDate = () =>
+  rule((value: unknown) =>
+    value instanceof Date && !Number.isNaN(value.getTime()) ? ok(value) : err(NotDate),
+  );
+
+export { isDate };
@@ -6,7 +6,7 @@
  * This source code is licensed under the MIT license found in the
  * LICENSE file in the root directory of this source tree.
  */
-import { builder, err, ok } from '@mixor/core';
+import { type Any, type ResultError, type Rule, err, ok, rule, value } from '@mixor/core';
 
 // This patterns are taken from Zod source code.
 const emailPattern = {
@@ -29,105 +29,113 @@ const emailPattern = {
 };
 
 /**
- * Validates that the value is a valid email address.
- *
- * @param type - The type of email pattern to use.
- * @returns A result indicating whether the value is a valid email address.
- *
- * @example
- * ```ts
- * // email-001: Basic email validation with default pattern.
- * const result = isEmail()('test@example.com');
- * // unwrap(result): 'test@example.com'.
- * ```
- *
- * @example
- * ```ts
- * // email-002: Email validation with specific pattern type.
- * const result = isEmail('html5Email')('user+tag@example.com');
- * // unwrap(result): 'user+tag@example.com'.
- * ```
- *
- * @example
- * ```ts
- * // email-003: Invalid email validation.
- * const result = isEmail()('invalid-email');
- * // unwrap(result): 'INVALID_EMAIL'.
- * ```
+ * The email patterns supported by the {@link isEmail} rule.
  *
  * @public
  */
-const isEmail =
-  (type: keyof typeof emailPattern = 'common') =>
-  (value: string) =>
-    emailPattern[type].test(value) ? ok(value) : err('INVALID_EMAIL');
+type EmailPattern = keyof typeof emailPattern;
 
 /**
- * Validates that the value has a valid domain.
- *
- * @param domain - The domain to validate.
- * @returns A result indicating whether the value has a valid domain.
- *
- * @example
- * ```ts
- * // email-004: Single domain validation.
- * const result = hasDomain('example.com')('test@example.com');
- * // unwrap(result): 'test@example.com'.
- * ```
- *
- * @example
- * ```ts
- * // email-005: Multiple domains validation.
- * const result = hasDomain(['example.com', 'test.com'])('user@test.com');
- * // unwrap(result): 'user@test.com'.
- * ```
- *
- * @example
- * ```ts
- * // email-006: Invalid domain validation.
- * const result = hasDomain('example.com')('test@invalid.com');
- * // unwrap(result): 'INVALID_DOMAIN'.
- * ```
+ * Result base error type for email values rules.
+ *
+ * @remarks
+ * This error type is used to represent the error that occurs when an email value is not valid.
+ * It is a base error type for all email value errors.
  *
  * @public
  */
-const hasDomain = (domain: string | string[]) => (value: string) => {
-  const domains = Array.isArray(domain) ? domain : [domain];
-  const domainParts = value.split('@')[1];
-  return domains.includes(domainParts) ? ok(value) : err('INVALID_DOMAIN');
+type EmailValueError<C extends string, O extends string> = ResultError<C, 'EmailValue', O>;
+
+/**
+ * Result error type related to the email `isEmail` rule.
+ *
+ * @internal
+ */
+type InvalidEmail = EmailValueError<'InvalidEmailError', 'isEmail'>;
+
+/**
+ * Instance of the `InvalidEmail` error type.
+ *
+ * @internal
+ */
+const InvalidEmail: InvalidEmail = {
+  code: 'InvalidEmailError',
+  context: 'EmailValue',
+  origin: 'isEmail',
+  message: 'Value is not a valid email address',
+};
+
+/**
+ * Result error type related to the email `hasDomain` rule.
+ *
+ * @internal
+ */
+type InvalidDomain = EmailValueError<'InvalidDomainError', 'hasDomain'>;
+
+/**
+ * Instance of the `InvalidDomain` error type.
+ *
+ * @internal
+ */
+const InvalidDomain: InvalidDomain = {
+  code: 'InvalidDomainError',
+  context: 'EmailValue',
+  origin: 'hasDomain',
+  message: 'Email domain is not allowed',
 };
 
 /**
- * Creates a validation chain for email addresses.
- *
- * @returns A string validation builder for email addresses.
- *
- * @example
- * ```ts
- * // email-007: Email builder with validation.
- * const emailValidator = email.isEmail().build();
- * const result = emailValidator('test@example.com');
- * // unwrap(result): 'test@example.com'.
- * ```
- *
- * @example
- * ```ts
- * // email-008: Email builder with domain validation.
- * const domainValidator = email.hasDomain('example.com').build();
- * const result = domainValidator('test@example.com');
- * // unwrap(result): 'test@example.com'.
- * ```
+ * Creates a value rule function that validates that the value is a valid email address.
+ *
+ * @param pattern - The email pattern to use (`common` by default).
+ * @returns A rule function that validates that the value is a valid email address.
+ * This function returns a Result type with the value if it is a valid email address, or an
+ * error if it is not.
  *
  * @public
  */
-const email = builder({
-  isEmail,
-  hasDomain,
-});
+const isEmail = (pattern: EmailPattern = 'common') =>
+  rule((value: string) => (emailPattern[pattern].test(value) ? ok(value) : err(InvalidEmail)));
 
-export {
-  email,
-  // For tree-shaking.
-  isEmail,
-  hasDomain,
+/**
+ * Creates a value rule function that validates that the domain of an email address is allowed.
+ *
+ * @param domain - The allowed domain or domains.
+ * @returns A rule function that validates that the value has an allowed domain.
+ * This function returns a Result type with the value if its domain is allowed, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const hasDomain = (domain: string | string[]) => {
+  const domains = Array.isArray(domain) ? domain : [domain];
+  return rule((value: string) =>
+    domains.includes(value.split('@')[1]) ? ok(value) : err(InvalidDomain),
+  );
 };
+
+/**
+ * Creates an email value with automatic type inference for tracing.
+ *
+ * @remarks
+ * The value has the `email` sub-type and an example in its metadata, so it can be described in
+ * the component tree and in the OpenAPI output (the metadata can be overridden with `meta`).
+ *
+ * @param rules - The validation rules to apply to the email value (e.g. `isEmail()`).
+ * @returns A new email value.
+ *
+ * @public
+ */
+const email = <T extends Rule<string, Any, Any>[]>(...rules: T) =>
+  value<T>(...rules)
+    .subType('email')
+    .meta({
+      context: 'EmailValue',
+      name: 'email',
+      description: 'An email address',
+      // The input type of the rules is only known when the value is created.
+      example: 'user@example.com' as Any,
+    });
+
+export type { EmailPattern, EmailValueError };
+export { email, hasDomain, isEmail };
@@ -6,23 +6,64 @@
  * This source code is licensed under the MIT license found in the
  * LICENSE file in the root directory of this source tree.
  */
-import { type Any, type Literal, Panic, type Result, err, ok } from '@mixor/core';
+import {
+  type Any,
+  type Literal,
+  type ResultError,
+  type Value,
+  err,
+  ok,
+  panic,
+  rule,
+  value,
+} from '@mixor/core';
 
 /**
- * Error class for enumeration validation failures.
+ * Panic error for the enumerate module.
  * Thrown when the enumeration definition is invalid.
  *
  * @public
  */
-class EnumerateError extends Panic<
-  'ENUMERATE',
+const EnumerateError = panic<
+  'Enumerate',
   // Error when the enum is empty
-  | 'EMPTY_ENUM'
+  | 'EmptyEnum'
   // Error when the enum has duplicate values
-  | 'DUPLICATE_VALUES'
+  | 'DuplicateValues'
   // Error when the enum has mixed types
-  | 'MIXED_TYPES'
->('ENUMERATE') {}
+  | 'MixedTypes'
+>('Enumerate');
+
+/**
+ * Result error type of the enumeration values.
+ *
+ * @public
+ */
+type InvalidEnumValue = ResultError<'InvalidEnumValueError', 'EnumValue', 'enumerate'>;
+
+/**
+ * Instance of the `InvalidEnumValue` error type.
+ *
+ * @internal
+ */
+const InvalidEnumValue: InvalidEnumValue = {
+  code: 'InvalidEnumValueError',
+  context: 'EnumValue',
+  origin: 'enumerate',
+  message: 'Value is not one of the enumeration values',
+};
+
+/**
+ * A value that validates that the input is one of the values of an enumeration.
+ *
+ * @typeParam T - The type of the enumeration values.
+ *
+ * @public
+ */
+type EnumValue<T> = Value<T, InvalidEnumValue> & {
+  /** The values of the enumeration. */
+  readonly values: readonly T[];
+};
 
 /**
  * Interface for the enumerate function overloads.
@@ -32,248 +73,97 @@ class EnumerateError extends Panic<
  */
 interface EnumerateFunction {
   /**
-   * Creates an enumeration validator from a TypeScript enum.
-   * The validator ensures all values are of the same type (string or number) and unique.
+   * Creates an enumeration value from a TypeScript enum.
+   * The enumeration values must be of the same type (string or number) and unique.
    *
    * @param enumObj - TypeScript enum object.
-   * @returns A function that validates if a value is in the enumeration.
+   * @returns A value that validates if the input is in the enumeration.
    * @throws A {@link EnumerateError} when the enumeration definition is invalid.
    */
-  <T extends Record<string, string | number>>(
-    enumObj: T,
-  ): (value: T[keyof T]) => Result<T[keyof T], 'INVALID_ENUM_VALUE'>;
+  <T extends Record<string, string | number>>(enumObj: T): EnumValue<T[keyof T]>;
 
   /**
-   * Creates an enumeration validator from an array of values.
-   * The validator ensures all values are of the same type (string or number) and unique.
+   * Creates an enumeration value from an array of values.
+   * The enumeration values must be of the same type (string or number) and unique.
    *
    * @param values - Array of valid enumeration values (strings or numbers only).
-   * @returns A function that validates if a value is in the enumeration.
+   * @returns A value that validates if the input is in the enumeration.
    * @throws A {@link EnumerateError} when the enumeration definition is invalid.
    */
-  <T extends string | number, L = Literal<T>>(
-    values: T[],
-  ): (value: L) => Result<L, 'INVALID_ENUM_VALUE'>;
+  <T extends string | number, L = Literal<T>>(values: T[]): EnumValue<L>;
 }
 
 /**
- * Implementation function that handles both arrays and enums.
- *
- * @param input - Array of values or TypeScript enum object.
- * @returns A function that validates if a value is in the enumeration.
- * @throws A {@link EnumerateError} when the enumeration definition is invalid.
- *
- * @example
- * ```ts
- * // enumerate-001: Basic string enumeration validation.
- * const status = enumerate(['active', 'inactive', 'pending']);
- * const result = status('active');
- * if (isOk(result)) {
- *   // unwrap(result): 'active'.
- * }
- * ```
- *
- * @example
- * ```ts
- * // enumerate-002: Number enumeration validation.
- * const priority = enumerate([1, 2, 3, 4, 5]);
- * const result = priority(3);
- * if (isOk(result)) {
- *   // unwrap(result): 3.
- * }
- * ```
- *
- * @example
- * ```ts
- * // enumerate-003: Invalid value handling.
- * const status = enumerate(['active', 'inactive']);
- * const result = status('deleted');
- * if (isErr(result)) {
- *   // unwrap(result): 'INVALID_ENUM_VALUE'.
- * }
- * ```
- *
- * @example
- * ```ts
- * // enumerate-004: Empty array validation.
- * try {
- *   enumerate([]);
- * } catch (error) {
- *   // error.message: 'Enumeration cannot be empty'.
- *   // error.key: 'ENUMERATE:EMPTY_ENUM'.
- * }
- * ```
- *
- * @example
- * ```ts
- * // enumerate-005: Duplicate values validation.
- * try {
- *   enumerate(['active', 'inactive', 'active']);
- * } catch (error) {
- *   // error.message: 'Enumeration cannot have duplicate values'.
- *   // error.key: 'ENUMERATE:DUPLICATE_VALUES'.
- * }
- * ```
- *
- * @example
- * ```ts
- * // enumerate-006: Mixed types validation.
- * try {
- *   enumerate(['active', 123]);
- * } catch (error) {
- *   // error.message: 'Enumeration cannot have mixed types'.
- *   // error.key: 'ENUMERATE:MIXED_TYPES'.
- * }
- * ```
- *
- * @example
- * ```ts
- * // enumerate-007: Using TypeScript string enum.
- * enum Status {
- *   ACTIVE = 'active',
- *   INACTIVE = 'inactive',
- *   PENDING = 'pending'
- * }
- * const status = enumerate(Status);
- * const result = status(Status.ACTIVE);
- * if (isOk(result)) {
- *   // unwrap(result): 'active'.
- * }
- * ```
+ * Extracts the values of an array or a TypeScript enum object.
  *
- * @example
- * ```ts
- * // enumerate-008: Using TypeScript numeric enum.
- * enum Priority {
- *   LOW = 1,
- *   MEDIUM = 2,
- *   HIGH = 3
- * }
- * const priority = enumerate(Priority);
- * const result = priority(Priority.MEDIUM);
- * if (isOk(result)) {
- *   // unwrap(result): 2.
- * }
- * ```
+ * @remarks
+ * The numeric keys of the enum objects are filtered out, as TypeScript numeric enums map their
+ * values back to their keys.
  *
- * @example
- * ```ts
- * // enumerate-009: Mixed types validation for enums.
- * try {
- *   enum MixedEnum {
- *     ACTIVE = 'active',
- *     LOW = 1
- *   }
- *   enumerate(MixedEnum);
- * } catch (error) {
- *   // error.message: 'Enumeration cannot have mixed types'.
- *   // error.key: 'ENUMERATE:MIXED_TYPES'.
- * }
- * ```
- *
- * @example
- * ```ts
- * // enumerate-010: Type inference preservation with value function.
- * const status = enumerate(['active', 'inactive', 'unverified']);
- * const statusValue = value(status);
- * // statusValue preserves the literal types: Value<"active" | "inactive" | "unverified", "INVALID_ENUM_VALUE">.
- * ```
+ * @param input - Array of values or TypeScript enum object.
+ * @returns The values of the enumeration.
  *
- * @public
+ * @internal
  */
-const enumerate: EnumerateFunction = <T extends Any>(input: T) => {
-  // Detect if input is an array or enum object
-  if (Array.isArray(input)) {
-    return enumerateArray(input as (string | number)[]);
-  } else {
-    return enumerateEnum(input as Record<string, string | number>);
-  }
-};
+const valuesOf = (input: (string | number)[] | Record<string, string | number>) =>
+  Array.isArray(input)
+    ? input
+    : Object.entries(input)
+        .filter(([key]) => isNaN(Number(key)))
+        .map(([, value]) => value)
+        .filter((value) => typeof value === 'string' || typeof value === 'number');
 
 /**
- * Internal function to handle array-based enumerations.
+ * Creates an enumeration value from an array of values or a TypeScript enum.
+ *
+ * @remarks
+ * The value has the `enum` sub-type, its values in the `values` property and its first value as
+ * example, so it can be described in the component tree and in the OpenAPI output.
  *
- * @param values - Array of valid enumeration values.
- * @returns A function that validates if a value is in the enumeration.
+ * @param input - Array of values or TypeScript enum object.
+ * @returns A value that validates if the input is in the enumeration.
  * @throws A {@link EnumerateError} when the enumeration definition is invalid.
  *
- * @internal
+ * @public
  */
-const enumerateArray = <T, L = Literal<T>>(
-  values: T[],
-): ((value: L) => Result<L, 'INVALID_ENUM_VALUE'>) => {
+const enumerate: EnumerateFunction = (input: Any) => {
+  const values = valuesOf(input);
+
   // Validate input: throw panic if enum is empty.
   if (values.length === 0) {
-    throw new EnumerateError('EMPTY_ENUM', 'Enumeration cannot be empty');
+    throw new EnumerateError('EmptyEnum', 'Enumeration cannot be empty');
   }
 
   // Validate input: throw panic if enum has duplicate values.
-  const uniqueValues = new Set(values);
-  if (uniqueValues.size !== values.length) {
-    throw new EnumerateError('DUPLICATE_VALUES', 'Enumeration cannot have duplicate values');
+  if (new Set(values).size !== values.length) {
+    throw new EnumerateError('DuplicateValues', 'Enumeration cannot have duplicate values');
   }
 
   // Validate input: throw panic if enum has mixed types.
   const firstType = typeof values[0];
-  const hasMixedTypes = values.some((value) => typeof value !== firstType);
-  if (hasMixedTypes) {
-    throw new EnumerateError('MIXED_TYPES', 'Enumeration cannot have mixed types');
+  if (values.some((value) => typeof value !== firstType)) {
+    throw new EnumerateError('MixedTypes', 'Enumeration cannot have mixed types');
   }
 
-  return (value: L) => {
-    if (!values.includes(value as Any)) {
-      return err('INVALID_ENUM_VALUE');
-    }
-    return ok(value);
-  };
-};
+  const enumValue = value(
+    rule((value: string | number) => (values.includes(value) ? ok(value) : err(InvalidEnumValue))),
+  )
+    .subType('enum')
+    .meta({
+      context: 'EnumValue',
+      name: 'enum',
+      description: `One of ${values.join(', ')}`,
+      example: values[0],
+    });
 
-/**
- * Internal function to handle enum-based enumerations.
- *
- * @param enumObj - TypeScript enum object.
- * @returns A function that validates if a value is in the enumeration.
- * @throws A {@link EnumerateError} when the enumeration definition is invalid.
- *
- * @internal
- */
-const enumerateEnum = <T extends Record<string, string | number>>(
-  enumObj: T,
-): ((value: T[keyof T]) => Result<T[keyof T], 'INVALID_ENUM_VALUE'>) => {
-  // Filter out numeric keys from the enum object to handle TypeScript's bidirectional behavior.
-  // NOTE: This is a workaround to handle the fact that TypeScript enums can have numeric keys.
-  // This is not a perfect solution, but it is the best we can do for now.
-  const filteredEnum = Object.fromEntries(
-    Object.entries(enumObj).filter(([key]) => isNaN(Number(key))),
-  ) as T;
-
-  // Extract values from the filtered enum.
-  const values = Object.values(filteredEnum).filter(
-    (value) => typeof value === 'string' || typeof value === 'number',
-  ) as (string | number)[];
-
-  // Use the same validation logic as arrays.
-  if (values.length === 0) {
-    throw new EnumerateError('EMPTY_ENUM', 'Enumeration cannot be empty');
-  }
-
-  const uniqueValues = new Set(values);
-  if (uniqueValues.size !== values.length) {
-    throw new EnumerateError('DUPLICATE_VALUES', 'Enumeration cannot have duplicate values');
-  }
-
-  const firstType = typeof values[0];
-  const hasMixedTypes = values.some((value) => typeof value !== firstType);
-  if (hasMixedTypes) {
-    throw new EnumerateError('MIXED_TYPES', 'Enumeration cannot have mixed types');
-  }
+  Object.defineProperty(enumValue, 'values', {
+    value: Object.freeze([...values]),
+    writable: false,
+    enumerable: true,
+  });
 
-  return (value: T[keyof T]) => {
-    if (!values.includes(value as string | number)) {
-      return err('INVALID_ENUM_VALUE');
-    }
-    return ok(value);
-  };
+  return enumValue as Any;
 };
 
+export type { EnumValue, InvalidEnumValue };
 export { enumerate, EnumerateError };
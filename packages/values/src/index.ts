@@ -2,3 +2,7 @@ export * from './string';
 export * from './id';
 export * from './email';
 export * from './enumerate';
+export * from './bigint';
+export * from './boolean';
+export * from './date';
+export * from './number';
@@ -0,0 +1,16 @@
+/**
+ * Counts the decimal places of a number, including the numbers in exponential notation
+ * (e.g. `1e-7`).
+ *
+ * @param value - The number to count the decimal places of.
+ * @returns The number of decimal places.
+ *
+ * @internal
+ */
+const decimalsOf = (value: number) => {
+  const [mantissa, exponent = '0'] = value.toString().split('e');
+  const fraction = mantissa.split('.')[1] ?? '';
+  return Math.max(0, fraction.length - Number(exponent));
+};
+
+export { decimalsOf };
@@ -0,0 +1,50 @@
+import { type Result, err, ok, rule } from '@mixor/core';
+
+import type { NumberValueError } from './number';
+
+/**
+ * Result error type related to the number `coerceNumber` rule.
+ *
+ * @internal
+ */
+type NotCoercible = NumberValueError<'NotCoercibleError', 'coerceNumber'>;
+
+/**
+ * Instance of the `NotCoercible` error type.
+ *
+ * @internal
+ */
+const NotCoercible: NotCoercible = {
+  code: 'NotCoercibleError',
+  context: 'NumberValue',
+  origin: 'coerceNumber',
+  message: 'Value cannot be coerced to a number',
+};
+
+/**
+ * Coerces a value to a number.
+ * Numbers are kept and non-blank strings are converted with the `Number` function.
+ *
+ * @remarks
+ * Other values (e.g. `null`, booleans or blank strings) are not coerced, as the `Number` function
+ * would silently convert them to `0` or `1`.
+ *
+ * @returns A rule function that coerces the value to a number.
+ * This function returns a Result type with the coerced number, or an error if the value
+ * cannot be coerced.
+ *
+ * @public
+ */
+const coerceNumber = () =>
+  rule((value: unknown): Result<number, NotCoercible> => {
+    const coerced =
+      typeof value === 'number'
+        ? value
+        : typeof value === 'string' && value.trim() !== ''
+          ? Number(value)
+          : Number.NaN;
+
+    return Number.isNaN(coerced) ? err(NotCoercible) : ok(coerced);
+  }).subType('coerce');
+
+export { coerceNumber };
@@ -0,0 +1,38 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { NumberValueError } from './number';
+
+/**
+ * Result error type related to the number `finite` rule.
+ *
+ * @internal
+ */
+type NotFinite = NumberValueError<'NotFiniteError', 'finite'>;
+
+/**
+ * Instance of the `NotFinite` error type.
+ *
+ * @internal
+ */
+const NotFinite: NotFinite = {
+  code: 'NotFiniteError',
+  context: 'NumberValue',
+  origin: 'finite',
+  message: 'Number is not finite',
+};
+
+/**
+ * Creates a value rule function that validates number values are finite.
+ *
+ * @remarks
+ * `Infinity`, `-Infinity` and `NaN` are not considered finite.
+ *
+ * @returns A rule function that validates that the value is finite.
+ * This function returns a Result type with the value if it is finite, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const finite = () => rule((value: number) => (Number.isFinite(value) ? ok(value) : err(NotFinite)));
+
+export { finite };
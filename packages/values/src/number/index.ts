@@ -0,0 +1,12 @@
+export * from './coerce-number';
+export * from './finite';
+export * from './is-integer';
+export * from './is-number';
+export * from './max';
+export * from './min';
+export * from './multiple-of';
+export * from './negative';
+export * from './number';
+export * from './positive';
+export * from './precision';
+export * from './safe-integer';
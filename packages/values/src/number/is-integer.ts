@@ -0,0 +1,36 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { NumberValueError } from './number';
+
+/**
+ * Result error type related to the number `isInteger` rule.
+ *
+ * @internal
+ */
+type NotInteger = NumberValueError<'NotIntegerError', 'isInteger'>;
+
+/**
+ * Instance of the `NotInteger` error type.
+ *
+ * @internal
+ */
+const NotInteger: NotInteger = {
+  code: 'NotIntegerError',
+  context: 'NumberValue',
+  origin: 'isInteger',
+  message: 'Number is not an integer',
+};
+
+/**
+ * Creates a value rule function that validates number values are integers.
+ *
+ * @returns A rule function that validates that the value is an integer.
+ * This function returns a Result type with the value if it is an integer, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const isInteger = () =>
+  rule((value: number) => (Number.isInteger(value) ? ok(value) : err(NotInteger)));
+
+export { isInteger };
@@ -0,0 +1,41 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { NumberValueError } from './number';
+
+/**
+ * Result error type related to the number `isNumber` rule.
+ *
+ * @internal
+ */
+type NotNumber = NumberValueError<'NotNumberError', 'isNumber'>;
+
+/**
+ * Instance of the `NotNumber` error type.
+ *
+ * @internal
+ */
+const NotNumber: NotNumber = {
+  code: 'NotNumberError',
+  context: 'NumberValue',
+  origin: 'isNumber',
+  message: 'Value is not a number',
+};
+
+/**
+ * Creates a value rule function that validates that the value is a number.
+ *
+ * @remarks
+ * `NaN` is not considered a number.
+ *
+ * @returns A rule function that validates that the value is a number.
+ * This function returns a Result type with the value if it is a number, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const isNumber = () =>
+  rule((value: unknown) =>
+    typeof value === 'number' && !Number.isNaN(value) ? ok(value) : err(NotNumber),
+  );
+
+export { isNumber };
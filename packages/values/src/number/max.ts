@@ -0,0 +1,39 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { NumberValueError } from './number';
+
+/**
+ * Result error type related to the number `max` rule.
+ *
+ * @internal
+ */
+type TooBig = NumberValueError<'TooBigError', 'max'>;
+
+/**
+ * Instance of the `TooBig` error type.
+ *
+ * @internal
+ */
+const TooBig: TooBig = {
+  code: 'TooBigError',
+  context: 'NumberValue',
+  origin: 'max',
+  message: 'Number is greater than maximum',
+};
+
+/**
+ * Creates a value rule function that validates number values are not greater than a maximum.
+ *
+ * @remarks
+ * The maximum is inclusive.
+ *
+ * @param max - The maximum value.
+ * @returns A rule function that validates that the value is not greater than the maximum.
+ * This function returns a Result type with the value if it is not greater than the maximum, or an
+ * error if it is.
+ *
+ * @public
+ */
+const max = (max: number) => rule((value: number) => (value <= max ? ok(value) : err(TooBig)));
+
+export { max };
@@ -0,0 +1,39 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { NumberValueError } from './number';
+
+/**
+ * Result error type related to the number `min` rule.
+ *
+ * @internal
+ */
+type TooSmall = NumberValueError<'TooSmallError', 'min'>;
+
+/**
+ * Instance of the `TooSmall` error type.
+ *
+ * @internal
+ */
+const TooSmall: TooSmall = {
+  code: 'TooSmallError',
+  context: 'NumberValue',
+  origin: 'min',
+  message: 'Number is less than minimum',
+};
+
+/**
+ * Creates a value rule function that validates number values are not less than a minimum.
+ *
+ * @remarks
+ * The minimum is inclusive.
+ *
+ * @param min - The minimum value.
+ * @returns A rule function that validates that the value is not less than the minimum.
+ * This function returns a Result type with the value if it is not less than the minimum, or an
+ * error if it is.
+ *
+ * @public
+ */
+const min = (min: number) => rule((value: number) => (value >= min ? ok(value) : err(TooSmall)));
+
+export { min };
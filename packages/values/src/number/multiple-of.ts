@@ -0,0 +1,47 @@
+import { err, ok, rule } from '@mixor/core';
+
+import { decimalsOf } from './_decimals';
+import type { NumberValueError } from './number';
+
+/**
+ * Result error type related to the number `multipleOf` rule.
+ *
+ * @internal
+ */
+type NotMultiple = NumberValueError<'NotMultipleError', 'multipleOf'>;
+
+/**
+ * Instance of the `NotMultiple` error type.
+ *
+ * @internal
+ */
+const NotMultiple: NotMultiple = {
+  code: 'NotMultipleError',
+  context: 'NumberValue',
+  origin: 'multipleOf',
+  message: 'Number is not a multiple of the step',
+};
+
+/**
+ * Creates a value rule function that validates number values are multiples of a step.
+ *
+ * @remarks
+ * The value and the step are scaled to integers before the check, so decimal steps are not
+ * affected by floating point errors (e.g. `0.3` is a multiple of `0.1`).
+ *
+ * @param step - The step of the value.
+ * @returns A rule function that validates that the value is a multiple of the step.
+ * This function returns a Result type with the value if it is a multiple of the step, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const multipleOf = (step: number) =>
+  rule((value: number) => {
+    const scale = 10 ** Math.max(decimalsOf(value), decimalsOf(step));
+    return Math.round(value * scale) % Math.round(step * scale) === 0
+      ? ok(value)
+      : err(NotMultiple);
+  });
+
+export { multipleOf };
@@ -0,0 +1,38 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { NumberValueError } from './number';
+
+/**
+ * Result error type related to the number `negative` rule.
+ *
+ * @internal
+ */
+type NotNegative = NumberValueError<'NotNegativeError', 'negative'>;
+
+/**
+ * Instance of the `NotNegative` error type.
+ *
+ * @internal
+ */
+const NotNegative: NotNegative = {
+  code: 'NotNegativeError',
+  context: 'NumberValue',
+  origin: 'negative',
+  message: 'Number is not negative',
+};
+
+/**
+ * Creates a value rule function that validates number values are negative.
+ *
+ * @remarks
+ * Zero is not considered negative.
+ *
+ * @returns A rule function that validates that the value is negative.
+ * This function returns a Result type with the value if it is negative, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const negative = () => rule((value: number) => (value < 0 ? ok(value) : err(NotNegative)));
+
+export { negative };
@@ -0,0 +1,43 @@
+import { type Any, type ResultError, type Rule, value } from '@mixor/core';
+
+import { isInteger } from './is-integer';
+
+/**
+ * Result base error type for number values rules.
+ *
+ * @remarks
+ * This error type is used to represent the error that occurs when a number value is not valid.
+ * It is a base error type for all number value errors.
+ *
+ * @public
+ */
+type NumberValueError<C extends string, O extends string> = ResultError<C, 'NumberValue', O>;
+
+/**
+ * Creates a number value with automatic type inference for tracing.
+ *
+ * @param rules - The validation rules to apply to the number value.
+ * @returns A new number value.
+ *
+ * @public
+ */
+const number = <T extends Rule<number, Any, Any>[]>(...rules: T) =>
+  value<T>(...rules).subType('number');
+
+/**
+ * Creates an integer value with automatic type inference for tracing.
+ *
+ * @remarks
+ * The value checks that the number is an integer after the given rules, so the rules can coerce
+ * the input first (e.g. `integer(coerceNumber(), min(1))`).
+ *
+ * @param rules - The validation rules to apply to the integer value.
+ * @returns A new integer value.
+ *
+ * @public
+ */
+const integer = <T extends Rule<number, Any, Any>[]>(...rules: T) =>
+  value(...rules, isInteger()).subType('integer');
+
+export type { NumberValueError };
+export { integer, number };
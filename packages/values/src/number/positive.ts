@@ -0,0 +1,38 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { NumberValueError } from './number';
+
+/**
+ * Result error type related to the number `positive` rule.
+ *
+ * @internal
+ */
+type NotPositive = NumberValueError<'NotPositiveError', 'positive'>;
+
+/**
+ * Instance of the `NotPositive` error type.
+ *
+ * @internal
+ */
+const NotPositive: NotPositive = {
+  code: 'NotPositiveError',
+  context: 'NumberValue',
+  origin: 'positive',
+  message: 'Number is not positive',
+};
+
+/**
+ * Creates a value rule function that validates number values are positive.
+ *
+ * @remarks
+ * Zero is not considered positive.
+ *
+ * @returns A rule function that validates that the value is positive.
+ * This function returns a Result type with the value if it is positive, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const positive = () => rule((value: number) => (value > 0 ? ok(value) : err(NotPositive)));
+
+export { positive };
@@ -0,0 +1,40 @@
+import { err, ok, rule } from '@mixor/core';
+
+import { decimalsOf } from './_decimals';
+import type { NumberValueError } from './number';
+
+/**
+ * Result error type related to the number `precision` rule.
+ *
+ * @internal
+ */
+type TooPrecise = NumberValueError<'TooPreciseError', 'precision'>;
+
+/**
+ * Instance of the `TooPrecise` error type.
+ *
+ * @internal
+ */
+const TooPrecise: TooPrecise = {
+  code: 'TooPreciseError',
+  context: 'NumberValue',
+  origin: 'precision',
+  message: 'Number has too many decimal places',
+};
+
+/**
+ * Creates a value rule function that validates number values have a maximum number of decimal
+ * places.
+ *
+ * @param precision - The maximum number of decimal places of the value.
+ * @returns A rule function that validates that the value does not have more decimal places than the
+ * precision.
+ * This function returns a Result type with the value if it does not have more decimal places, or
+ * an error if it does.
+ *
+ * @public
+ */
+const precision = (precision: number) =>
+  rule((value: number) => (decimalsOf(value) <= precision ? ok(value) : err(TooPrecise)));
+
+export { precision };
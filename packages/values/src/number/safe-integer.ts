@@ -0,0 +1,40 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { NumberValueError } from './number';
+
+/**
+ * Result error type related to the number `safeInteger` rule.
+ *
+ * @internal
+ */
+type NotSafeInteger = NumberValueError<'NotSafeIntegerError', 'safeInteger'>;
+
+/**
+ * Instance of the `NotSafeInteger` error type.
+ *
+ * @internal
+ */
+const NotSafeInteger: NotSafeInteger = {
+  code: 'NotSafeIntegerError',
+  context: 'NumberValue',
+  origin: 'safeInteger',
+  message: 'Number is not a safe integer',
+};
+
+/**
+ * Creates a value rule function that validates number values are safe integers.
+ *
+ * @remarks
+ * A safe integer is an integer that can be exactly represented as a double precision number
+ * (between `Number.MIN_SAFE_INTEGER` and `Number.MAX_SAFE_INTEGER`).
+ *
+ * @returns A rule function that validates that the value is a safe integer.
+ * This function returns a Result type with the value if it is a safe integer, or an
+ * error if it is not.
+ *
+ * @public
+ */
+const safeInteger = () =>
+  rule((value: number) => (Number.isSafeInteger(value) ? ok(value) : err(NotSafeInteger)));
+
+export { safeInteger };
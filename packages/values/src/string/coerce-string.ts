@@ -13,9 +13,8 @@ import { type Result, ok, rule } from '@mixor/core';
  * @public
  */
 const coerceString = () =>
-  rule(
-    (value: unknown): Result<string, never> =>
-      typeof value !== 'string' ? ok(String(value)) : ok(value),
-  );
+  rule((value: unknown): Result<string, never> =>
+    typeof value !== 'string' ? ok(String(value)) : ok(value),
+  ).subType('coerce');
 
 export { coerceString };
@@ -12,12 +12,16 @@ export * from './has-special-character';
 export * from './has-uppercase-letter';
 export * from './hexadecimal';
 export * from './is-string';
+export * from './iso-date';
+export * from './iso-datetime';
+export * from './iso-time';
 export * from './lowercase';
 export * from './matches';
 export * from './max-length';
 export * from './min-length';
 export * from './not-empty';
 export * from './numeric';
+export * from './phone-number';
 export * from './rgb';
 export * from './rgba';
 export * from './slug';
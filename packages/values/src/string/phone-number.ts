@@ -0,0 +1,43 @@
+import { err, ok, rule } from '@mixor/core';
+
+import type { StringValueError } from './string';
+
+/**
+ * Result error type related to the string `phoneNumber` rule.
+ *
+ * @internal
+ */
+type InvalidPhoneNumber = StringValueError<'InvalidPhoneNumberError', 'phoneNumber'>;
+
+/**
+ * Instance of the `InvalidPhoneNumber` error type.
+ *
+ * @internal
+ */
+const InvalidPhoneNumber: InvalidPhoneNumber = {
+  code: 'InvalidPhoneNumberError',
+  context: 'StringValue',
+  origin: 'phoneNumber',
+  message: 'Value is not a valid phone number',
+};
+
+// https://blog.stevenlevithan.com/archives/validate-phone-number#r4-3 (regex sans spaces)
+const phoneNumberRegex = /^\+(?:[0-9]){6,14}[0-9]$/;
+
+/**
+ * Creates a value rule function that validates string values are valid phone numbers.
+ *
+ * @remarks
+ * A phone number must be in the E.164 format: a `+` sign followed by 7 to 15 digits, without
+ * spaces (e.g. `+14155552671`).
+ *
+ * @returns A rule function that validates that the value is a valid phone number.
+ * This function returns a Result type with the value if it is a valid phone number, or an error
+ * if it is not.
+ *
+ * @public
+ */
+const phoneNumber = () =>
+  rule((value: string) => (phoneNumberRegex.test(value) ? ok(value) : err(InvalidPhoneNumber)));
+
+export { phoneNumber };
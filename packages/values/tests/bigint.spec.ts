@@ -0,0 +1,83 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import { type Result, type ResultError, isOk, parse, unwrap } from '@mixor/core';
+
+import {
+  bigint,
+  coerceBigInt,
+  isBigInt,
+  maxBigInt,
+  minBigInt,
+  negativeBigInt,
+  positiveBigInt,
+} from '../src/bigint';
+
+describe('BigInt validation functions', () => {
+  describe('isBigInt', () => {
+    it('should accept bigints and reject the other values', () => {
+      expect(unwrap(isBigInt()(42n))).toBe(42n);
+      expect(unwrap(isBigInt()(42))).toEqual({
+        code: 'NotBigIntError',
+        context: 'BigIntValue',
+        origin: 'isBigInt',
+        message: 'Value is not a bigint',
+      });
+    });
+  });
+
+  describe('coerceBigInt', () => {
+    it('should coerce bigints, integers and integer strings', () => {
+      expect(unwrap(coerceBigInt()(42n))).toBe(42n);
+      expect(unwrap(coerceBigInt()(42))).toBe(42n);
+      expect(unwrap(coerceBigInt()(' -9007199254740993 '))).toBe(-9007199254740993n);
+    });
+
+    it('should not coerce decimals, blank strings and other values', () => {
+      for (const input of [1.5, '1.5', '', 'abc', null, true]) {
+        expect(unwrap(coerceBigInt()(input))).toEqual(
+          expect.objectContaining({ code: 'NotCoercibleError', origin: 'coerceBigInt' }),
+        );
+      }
+    });
+
+    it('should parse the inputs of other kinds when the value coerces them', () => {
+      expect(unwrap(parse(bigint(coerceBigInt()), '42'))).toBe(42n);
+      expect(unwrap(parse(bigint(coerceBigInt()), 42))).toBe(42n);
+    });
+  });
+
+  describe('range rules', () => {
+    it('should validate the inclusive minimum and maximum', () => {
+      expect(unwrap(minBigInt(1n)(1n))).toBe(1n);
+      expect(unwrap(minBigInt(1n)(0n))).toEqual(expect.objectContaining({ code: 'TooSmallError' }));
+      expect(unwrap(maxBigInt(10n)(10n))).toBe(10n);
+      expect(unwrap(maxBigInt(10n)(11n))).toEqual(expect.objectContaining({ code: 'TooBigError' }));
+    });
+
+    it('should validate positive and negative bigints', () => {
+      expect(isOk(positiveBigInt()(1n))).toBe(true);
+      expect(isOk(positiveBigInt()(0n))).toBe(false);
+      expect(isOk(negativeBigInt()(-1n))).toBe(true);
+      expect(isOk(negativeBigInt()(0n))).toBe(false);
+    });
+  });
+
+  describe('bigint value', () => {
+    it('should create bigint values with the bigint sub-type', () => {
+      const Balance = bigint(coerceBigInt(), minBigInt(0n));
+
+      expect(unwrap(Balance('100'))).toBe(100n);
+      expect(unwrap(Balance('-1'))).toEqual([expect.objectContaining({ code: 'TooSmallError' })]);
+      expect(Balance.info().subType).toBe('bigint');
+    });
+  });
+
+  describe('Type safety', () => {
+    it('should provide correct type inference for bigint rules and values', () => {
+      expectTypeOf(minBigInt(0n)(1n)).toEqualTypeOf<
+        Result<bigint, ResultError<'TooSmallError', 'BigIntValue', 'minBigInt'>>
+      >();
+      expectTypeOf(bigint(coerceBigInt()).Output).toEqualTypeOf<bigint>();
+    });
+  });
+});
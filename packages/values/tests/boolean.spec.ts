@@ -0,0 +1,66 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import { type Result, type ResultError, parse, unwrap } from '@mixor/core';
+
+import { boolean, coerceBoolean, isBoolean } from '../src/boolean';
+
+describe('Boolean validation functions', () => {
+  describe('isBoolean', () => {
+    it('should accept booleans and reject the other values', () => {
+      expect(unwrap(isBoolean()(false))).toBe(false);
+      expect(unwrap(isBoolean()('true'))).toEqual({
+        code: 'NotBooleanError',
+        context: 'BooleanValue',
+        origin: 'isBoolean',
+        message: 'Value is not a boolean',
+      });
+    });
+  });
+
+  describe('coerceBoolean', () => {
+    it('should coerce the usual representations of booleans', () => {
+      for (const input of [true, 'true', ' TRUE ', '1', 'yes', 'on', 1]) {
+        expect(unwrap(coerceBoolean()(input))).toBe(true);
+      }
+      for (const input of [false, 'false', 'False', '0', 'no', 'off', 0]) {
+        expect(unwrap(coerceBoolean()(input))).toBe(false);
+      }
+    });
+
+    it('should not coerce the other values', () => {
+      for (const input of ['', 'maybe', 2, null, undefined, {}]) {
+        expect(unwrap(coerceBoolean()(input))).toEqual(
+          expect.objectContaining({ code: 'NotCoercibleError', origin: 'coerceBoolean' }),
+        );
+      }
+    });
+
+    it('should parse the inputs of other kinds when the value coerces them', () => {
+      expect(unwrap(parse(boolean(coerceBoolean()), 'true'))).toBe(true);
+      expect(unwrap(parse(boolean(coerceBoolean()), 'maybe', 'strict'))).toEqual(
+        expect.objectContaining({ code: 'NotCoercibleError', origin: 'coerceBoolean' }),
+      );
+    });
+  });
+
+  describe('boolean value', () => {
+    it('should create boolean values with the boolean sub-type', () => {
+      const Newsletter = boolean(coerceBoolean());
+
+      expect(unwrap(Newsletter('on'))).toBe(true);
+      expect(unwrap(Newsletter('maybe', 'strict'))).toEqual(
+        expect.objectContaining({ code: 'NotCoercibleError' }),
+      );
+      expect(Newsletter.info().subType).toBe('boolean');
+    });
+  });
+
+  describe('Type safety', () => {
+    it('should provide correct type inference for boolean rules and values', () => {
+      expectTypeOf(isBoolean()(true)).toEqualTypeOf<
+        Result<boolean, ResultError<'NotBooleanError', 'BooleanValue', 'isBoolean'>>
+      >();
+      expectTypeOf(boolean(isBoolean()).Output).toEqualTypeOf<boolean>();
+    });
+  });
+});
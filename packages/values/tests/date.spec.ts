@@ -0,0 +1,81 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import { type Result, type ResultError, isOk, parse, unwrap } from '@mixor/core';
+
+import { after, before, coerceDate, date, isDate } from '../src/date';
+
+const start = new Date('2025-01-01T00:00:00.000Z');
+const end = new Date('2025-12-31T00:00:00.000Z');
+
+describe('Date validation functions', () => {
+  describe('isDate', () => {
+    it('should accept valid dates and reject the other values', () => {
+      expect(unwrap(isDate()(start))).toBe(start);
+      expect(unwrap(isDate()('2025-01-01'))).toEqual({
+        code: 'NotDateError',
+        context: 'DateValue',
+        origin: 'isDate',
+        message: 'Value is not a valid date',
+      });
+      expect(isOk(isDate()(new Date('invalid')))).toBe(false);
+    });
+  });
+
+  describe('coerceDate', () => {
+    it('should coerce dates, date strings and timestamps', () => {
+      expect(unwrap(coerceDate()(start))).toBe(start);
+      expect(unwrap(coerceDate()('2025-01-01T00:00:00.000Z'))).toEqual(start);
+      expect(unwrap(coerceDate()(start.getTime()))).toEqual(start);
+    });
+
+    it('should not coerce invalid dates and other values', () => {
+      for (const input of ['', 'not a date', Number.NaN, null, true, new Date('invalid')]) {
+        expect(unwrap(coerceDate()(input))).toEqual(
+          expect.objectContaining({ code: 'NotCoercibleError', origin: 'coerceDate' }),
+        );
+      }
+    });
+
+    it('should parse the inputs of other kinds when the value coerces them', () => {
+      expect(unwrap(parse(date(coerceDate()), '2025-01-01T00:00:00.000Z'))).toEqual(start);
+      expect(unwrap(parse(date(coerceDate()), 'not a date', 'strict'))).toEqual(
+        expect.objectContaining({ code: 'NotCoercibleError', origin: 'coerceDate' }),
+      );
+    });
+  });
+
+  describe('before and after', () => {
+    it('should validate the exclusive limits', () => {
+      expect(unwrap(before(end)(start))).toBe(start);
+      expect(unwrap(before(end)(end))).toEqual(
+        expect.objectContaining({ code: 'TooLateError', origin: 'before' }),
+      );
+      expect(unwrap(after(start)(end))).toBe(end);
+      expect(unwrap(after(start)(start))).toEqual(
+        expect.objectContaining({ code: 'TooEarlyError', origin: 'after' }),
+      );
+    });
+  });
+
+  describe('date value', () => {
+    it('should create date values with the date sub-type', () => {
+      const EventDate = date(coerceDate(), after(start), before(end));
+
+      expect(unwrap(EventDate('2025-06-01'))).toEqual(new Date('2025-06-01'));
+      expect(unwrap(EventDate('2026-06-01'))).toEqual([
+        expect.objectContaining({ code: 'TooLateError' }),
+      ]);
+      expect(EventDate.info().subType).toBe('date');
+    });
+  });
+
+  describe('Type safety', () => {
+    it('should provide correct type inference for date rules and values', () => {
+      expectTypeOf(before(end)(start)).toEqualTypeOf<
+        Result<Date, ResultError<'TooLateError', 'DateValue', 'before'>>
+      >();
+      expectTypeOf(date(coerceDate()).Type).toEqualTypeOf<Date>();
+      expectTypeOf(date(coerceDate()).Output).toEqualTypeOf<Date>();
+    });
+  });
+});
@@ -1,8 +1,24 @@
 import { describe, expect, expectTypeOf, it } from 'vitest';
 
-import { type Result, unwrap } from '@mixor/core';
-
-import { email, hasDomain, isEmail } from '../src/email';
+import { type Result, schema, unwrap } from '@mixor/core';
+
+import { type EmailValueError, email, hasDomain, isEmail } from '../src/email';
+
+type InvalidEmail = EmailValueError<'InvalidEmailError', 'isEmail'>;
+type InvalidDomain = EmailValueError<'InvalidDomainError', 'hasDomain'>;
+
+const invalidEmailError = {
+  code: 'InvalidEmailError',
+  context: 'EmailValue',
+  origin: 'isEmail',
+  message: 'Value is not a valid email address',
+};
+const invalidDomainError = {
+  code: 'InvalidDomainError',
+  context: 'EmailValue',
+  origin: 'hasDomain',
+  message: 'Email domain is not allowed',
+};
 
 // *********************************************************************************************
 // Individual function tests.
@@ -29,7 +45,7 @@ describe('Email validation functions', () => {
 
       // Typechecking.
       expectTypeOf(isEmail).toBeFunction();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_EMAIL'>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, InvalidEmail>>();
     });
 
     it('should run example email-002: Email validation with specific pattern type', () => {
@@ -38,16 +54,16 @@ describe('Email validation functions', () => {
 
       // Typechecking.
       expectTypeOf(isEmail).toBeFunction();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_EMAIL'>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, InvalidEmail>>();
     });
 
     it('should run example email-003: Invalid email validation', () => {
       const result = isEmail()(invalidEmail);
-      expect(unwrap(result)).toBe('INVALID_EMAIL');
+      expect(unwrap(result)).toEqual(invalidEmailError);
 
       // Typechecking.
       expectTypeOf(isEmail).toBeFunction();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_EMAIL'>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, InvalidEmail>>();
     });
 
     it('should validate email with different pattern types', () => {
@@ -68,22 +84,22 @@ describe('Email validation functions', () => {
 
       // Typechecking.
       expectTypeOf(isEmail).toBeFunction();
-      expectTypeOf(result1).toEqualTypeOf<Result<string, 'INVALID_EMAIL'>>();
+      expectTypeOf(result1).toEqualTypeOf<Result<string, InvalidEmail>>();
     });
 
     it('should reject invalid email formats', () => {
       const result1 = isEmail()(invalidEmailNoAt);
-      expect(unwrap(result1)).toBe('INVALID_EMAIL');
+      expect(unwrap(result1)).toEqual(invalidEmailError);
 
       const result2 = isEmail()(invalidEmailNoDomain);
-      expect(unwrap(result2)).toBe('INVALID_EMAIL');
+      expect(unwrap(result2)).toEqual(invalidEmailError);
 
       const result3 = isEmail()(invalidEmailNoLocal);
-      expect(unwrap(result3)).toBe('INVALID_EMAIL');
+      expect(unwrap(result3)).toEqual(invalidEmailError);
 
       // Typechecking.
       expectTypeOf(isEmail).toBeFunction();
-      expectTypeOf(result1).toEqualTypeOf<Result<string, 'INVALID_EMAIL'>>();
+      expectTypeOf(result1).toEqualTypeOf<Result<string, InvalidEmail>>();
     });
   });
 
@@ -94,7 +110,7 @@ describe('Email validation functions', () => {
 
       // Typechecking.
       expectTypeOf(hasDomain).toBeFunction();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_DOMAIN'>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, InvalidDomain>>();
     });
 
     it('should run example email-005: Multiple domains validation', () => {
@@ -103,16 +119,16 @@ describe('Email validation functions', () => {
 
       // Typechecking.
       expectTypeOf(hasDomain).toBeFunction();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_DOMAIN'>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, InvalidDomain>>();
     });
 
     it('should run example email-006: Invalid domain validation', () => {
       const result = hasDomain(validDomain)(invalidEmailForDomain);
-      expect(unwrap(result)).toBe('INVALID_DOMAIN');
+      expect(unwrap(result)).toEqual(invalidDomainError);
 
       // Typechecking.
       expectTypeOf(hasDomain).toBeFunction();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_DOMAIN'>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, InvalidDomain>>();
     });
 
     it('should validate single domain correctly', () => {
@@ -120,11 +136,11 @@ describe('Email validation functions', () => {
       expect(unwrap(result)).toBe('user@example.com');
 
       const invalidResult = hasDomain('example.com')('user@other.com');
-      expect(unwrap(invalidResult)).toBe('INVALID_DOMAIN');
+      expect(unwrap(invalidResult)).toEqual(invalidDomainError);
 
       // Typechecking.
       expectTypeOf(hasDomain).toBeFunction();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_DOMAIN'>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, InvalidDomain>>();
     });
 
     it('should validate multiple domains correctly', () => {
@@ -140,103 +156,85 @@ describe('Email validation functions', () => {
       expect(unwrap(result3)).toBe('user@demo.com');
 
       const invalidResult = hasDomain(domains)('user@invalid.com');
-      expect(unwrap(invalidResult)).toBe('INVALID_DOMAIN');
+      expect(unwrap(invalidResult)).toEqual(invalidDomainError);
 
       // Typechecking.
       expectTypeOf(hasDomain).toBeFunction();
-      expectTypeOf(result1).toEqualTypeOf<Result<string, 'INVALID_DOMAIN'>>();
+      expectTypeOf(result1).toEqualTypeOf<Result<string, InvalidDomain>>();
     });
 
     it('should handle edge cases for domain validation', () => {
       // Email without @ symbol
       const result1 = hasDomain('example.com')('invalid-email');
-      expect(unwrap(result1)).toBe('INVALID_DOMAIN');
+      expect(unwrap(result1)).toEqual(invalidDomainError);
 
       // Email with multiple @ symbols
       const result2 = hasDomain('example.com')('user@test@example.com');
-      expect(unwrap(result2)).toBe('INVALID_DOMAIN');
+      expect(unwrap(result2)).toEqual(invalidDomainError);
 
       // Empty domain array
       const result3 = hasDomain([])('user@example.com');
-      expect(unwrap(result3)).toBe('INVALID_DOMAIN');
+      expect(unwrap(result3)).toEqual(invalidDomainError);
 
       // Typechecking.
       expectTypeOf(hasDomain).toBeFunction();
-      expectTypeOf(result1).toEqualTypeOf<Result<string, 'INVALID_DOMAIN'>>();
+      expectTypeOf(result1).toEqualTypeOf<Result<string, InvalidDomain>>();
     });
   });
 
-  describe('email builder', () => {
-    it('should run example email-007: Email builder with validation', () => {
-      const emailValidator = email.isEmail().build();
-      const result = emailValidator(validEmail);
+  describe('email value', () => {
+    it('should run example email-007: Email value with validation', () => {
+      const Email = email(isEmail());
+      const result = Email(validEmail);
       expect(unwrap(result)).toBe(validEmail);
 
       // Typechecking.
-      expectTypeOf(isEmail).toBeFunction();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_EMAIL'>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, InvalidEmail[]>>();
     });
 
-    it('should run example email-008: Email builder with domain validation', () => {
-      const domainValidator = email.hasDomain(validDomain).build();
-      const result = domainValidator(validEmail);
+    it('should run example email-008: Email value with domain validation', () => {
+      const Email = email(hasDomain(validDomain));
+      const result = Email(validEmail);
       expect(unwrap(result)).toBe(validEmail);
 
       // Typechecking.
-      expectTypeOf(hasDomain).toBeFunction();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_DOMAIN'>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, InvalidDomain[]>>();
     });
 
-    it('should provide all expected methods', () => {
-      expect(email.isEmail).toBeDefined();
-      expect(email.hasDomain).toBeDefined();
+    it('should handle invalid emails and domains', () => {
+      const Email = email(isEmail(), hasDomain(validDomain));
 
-      // Typechecking.
-      expectTypeOf(email).toHaveProperty('isEmail');
-      expectTypeOf(email).toHaveProperty('hasDomain');
+      expect(unwrap(Email(validEmail))).toBe(validEmail);
+      expect(unwrap(Email(invalidEmail))).toEqual([invalidEmailError, invalidDomainError]);
+      expect(unwrap(Email(invalidEmailForDomain, 'strict'))).toEqual(invalidDomainError);
     });
 
-    it('should handle invalid email through builder', () => {
-      const emailValidator = email.isEmail().build();
-      const result = emailValidator(invalidEmail);
-      expect(unwrap(result)).toBe('INVALID_EMAIL');
-
-      // Typechecking.
-      expectTypeOf(isEmail).toBeFunction();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_EMAIL'>>();
-    });
-
-    it('should handle invalid domain through builder', () => {
-      const domainValidator = email.hasDomain(validDomain).build();
-      const result = domainValidator(invalidEmailForDomain);
-      expect(unwrap(result)).toBe('INVALID_DOMAIN');
+    it('should handle multiple domains validation', () => {
+      const Email = email(hasDomain(validDomainArray));
 
-      // Typechecking.
-      expectTypeOf(hasDomain).toBeFunction();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_DOMAIN'>>();
+      expect(unwrap(Email(validEmail))).toBe(validEmail);
+      expect(unwrap(Email(validEmailForDomain))).toBe(validEmailForDomain);
+      expect(unwrap(Email(invalidEmailForDomain))).toEqual([invalidDomainError]);
     });
 
-    it('should handle combined email validation', () => {
-      const emailValidator = email.isEmail().hasDomain(validDomain).build();
-
-      const result = emailValidator(validEmail);
-      expect(unwrap(result)).toBe(validEmail);
+    it('should describe the email value in its metadata', () => {
+      const Email = email(isEmail());
 
-      const invalidResult = emailValidator(invalidEmail);
-      expect(unwrap(invalidResult)).toBe('INVALID_EMAIL');
+      expect(Email.info().subType).toBe('email');
+      expect(Email.info().meta).toEqual({
+        context: 'EmailValue',
+        name: 'email',
+        description: 'An email address',
+        example: 'user@example.com',
+      });
     });
 
-    it('should handle multiple domains validation', () => {
-      const multiDomainValidator = email.hasDomain(validDomainArray).build();
-
-      const result1 = multiDomainValidator(validEmail);
-      expect(unwrap(result1)).toBe(validEmail);
+    it('should be usable as a schema field', () => {
+      const UserSchema = schema({ email: email(isEmail()) });
 
-      const result2 = multiDomainValidator(validEmailForDomain);
-      expect(unwrap(result2)).toBe(validEmailForDomain);
-
-      const invalidResult = multiDomainValidator(invalidEmailForDomain);
-      expect(unwrap(invalidResult)).toBe('INVALID_DOMAIN');
+      expect(unwrap(UserSchema({ email: validEmail }))).toEqual({ email: validEmail });
+      expect(unwrap(UserSchema({ email: invalidEmail }))).toEqual({ email: [invalidEmailError] });
+      expect(UserSchema.tree().children[0].info.subType).toBe('email');
     });
   });
 
@@ -244,7 +242,7 @@ describe('Email validation functions', () => {
     it('should provide correct type inference for isEmail', () => {
       expectTypeOf(isEmail).toBeFunction();
       expectTypeOf(isEmail()).toBeFunction();
-      expectTypeOf(isEmail()('test@example.com')).toEqualTypeOf<Result<string, 'INVALID_EMAIL'>>();
+      expectTypeOf(isEmail()('test@example.com')).toEqualTypeOf<Result<string, InvalidEmail>>();
     });
 
     it('should provide correct type inference for hasDomain', () => {
@@ -252,14 +250,18 @@ describe('Email validation functions', () => {
       expectTypeOf(hasDomain('example.com')).toBeFunction();
       expectTypeOf(hasDomain(['example.com', 'test.com'])).toBeFunction();
       expectTypeOf(hasDomain('example.com')('test@example.com')).toEqualTypeOf<
-        Result<string, 'INVALID_DOMAIN'>
+        Result<string, InvalidDomain>
       >();
     });
 
-    it('should provide correct type inference for email builder', () => {
-      expectTypeOf(email).toBeObject();
-      expectTypeOf(isEmail).toBeFunction();
-      expectTypeOf(hasDomain).toBeFunction();
+    it('should provide correct type inference for email values', () => {
+      const Email = email(isEmail(), hasDomain('example.com'));
+
+      expectTypeOf(email).toBeFunction();
+      expectTypeOf(Email.Type).toEqualTypeOf<string>();
+      expectTypeOf(Email('test@example.com')).toEqualTypeOf<
+        Result<string, (InvalidEmail | InvalidDomain)[]>
+      >();
     });
   });
 });
@@ -1,9 +1,8 @@
 import { describe, expect, expectTypeOf, it } from 'vitest';
 
-import { type Result, type Value, isErr, isOk, unwrap } from '@mixor/core';
-import { value } from '@mixor/core';
+import { type Result, isErr, isOk, schema, unwrap } from '@mixor/core';
 
-import { EnumerateError, enumerate } from '../src/enumerate';
+import { type EnumValue, type InvalidEnumValue, EnumerateError, enumerate } from '../src/enumerate';
 
 enum Status {
   ACTIVE = 'active',
@@ -34,6 +33,13 @@ enum MixedEnum {
   HIGH = 3,
 }
 
+const invalidEnumValue = {
+  code: 'InvalidEnumValueError',
+  context: 'EnumValue',
+  origin: 'enumerate',
+  message: 'Value is not one of the enumeration values',
+};
+
 // Shared test utilities.
 const createTestHelpers = () => ({
   createStringEnum: () => enumerate(['active', 'inactive', 'pending']),
@@ -47,9 +53,11 @@ describe('enumerate', () => {
   const helpers = createTestHelpers();
 
   describe('Basic functionality', () => {
-    it('should create a validator function', () => {
+    it('should create a value', () => {
       const validator = enumerate(['test']);
       expect(typeof validator).toBe('function');
+      expect(validator.info().tag).toBe('Value');
+      expect(validator.info().subType).toBe('enum');
     });
 
     it('should validate string enums', () => {
@@ -71,7 +79,7 @@ describe('enumerate', () => {
       // @ts-expect-error - Invalid value.
       const result = status('invalid');
       expect(isErr(result)).toBe(true);
-      expect(unwrap(result)).toBe('INVALID_ENUM_VALUE');
+      expect(unwrap(result)).toEqual([invalidEnumValue]);
     });
   });
 
@@ -97,7 +105,7 @@ describe('enumerate', () => {
       // @ts-expect-error - Invalid value.
       const result = status('deleted');
       if (isErr(result)) {
-        expect(unwrap(result)).toBe('INVALID_ENUM_VALUE');
+        expect(unwrap(result)).toEqual([invalidEnumValue]);
       }
     });
 
@@ -109,7 +117,7 @@ describe('enumerate', () => {
         expect(error).toBeInstanceOf(EnumerateError);
         if (error instanceof EnumerateError) {
           expect(error.message).toBe('Enumeration cannot be empty');
-          expect(error.key).toBe('ENUMERATE:EMPTY_ENUM');
+          expect(error.code).toBe('Enumerate:EmptyEnum');
         }
       }
     });
@@ -122,7 +130,7 @@ describe('enumerate', () => {
         expect(error).toBeInstanceOf(EnumerateError);
         if (error instanceof EnumerateError) {
           expect(error.message).toBe('Enumeration cannot have duplicate values');
-          expect(error.key).toBe('ENUMERATE:DUPLICATE_VALUES');
+          expect(error.code).toBe('Enumerate:DuplicateValues');
         }
       }
     });
@@ -135,7 +143,7 @@ describe('enumerate', () => {
         expect(error).toBeInstanceOf(EnumerateError);
         if (error instanceof EnumerateError) {
           expect(error.message).toBe('Enumeration cannot have mixed types');
-          expect(error.key).toBe('ENUMERATE:MIXED_TYPES');
+          expect(error.code).toBe('Enumerate:MixedTypes');
         }
       }
     });
@@ -165,20 +173,18 @@ describe('enumerate', () => {
         if (error instanceof EnumerateError) {
           expect(error).toBeInstanceOf(EnumerateError);
           expect(error.message).toBe('Enumeration cannot have mixed types');
-          expect(error.key).toBe('ENUMERATE:MIXED_TYPES');
+          expect(error.code).toBe('Enumerate:MixedTypes');
         }
       }
     });
 
-    it('should run example enumerate-010: Type inference preservation with value function', () => {
-      const status = enumerate(['active', 'inactive', 'unverified']);
-      const statusValue = value(status);
+    it('should run example enumerate-010: Enumeration as a schema field', () => {
+      const UserSchema = schema({ status: enumerate(['active', 'inactive', 'unverified']) });
 
-      // Typechecking.
-      expectTypeOf(statusValue).toBeFunction();
-      expectTypeOf(statusValue).branded.toEqualTypeOf<
-        Value<'active' | 'inactive' | 'unverified', 'INVALID_ENUM_VALUE'>
-      >();
+      expect(unwrap(UserSchema({ status: 'active' }))).toEqual({ status: 'active' });
+      // @ts-expect-error - Invalid value.
+      expect(unwrap(UserSchema({ status: 'deleted' }))).toEqual({ status: [invalidEnumValue] });
+      expect(UserSchema.tree().children[0].info.subType).toBe('enum');
     });
   });
 
@@ -215,6 +221,29 @@ describe('enumerate', () => {
     });
   });
 
+  describe('Component metadata', () => {
+    it('should expose the enumeration values and an example', () => {
+      const status = helpers.createStringEnumFromTypeScriptEnum();
+      const priority = helpers.createNumberEnumFromTypeScriptEnum();
+
+      expect(status.values).toEqual(['active', 'inactive', 'pending']);
+      expect(priority.values).toEqual([1, 2, 3]);
+      expect(status.info().meta).toEqual({
+        context: 'EnumValue',
+        name: 'enum',
+        description: 'One of active, inactive, pending',
+        example: 'active',
+      });
+      expect(Object.isFrozen(status.values)).toBe(true);
+    });
+
+    it('should report the strict mode error without array', () => {
+      const status = helpers.createStringEnum();
+      // @ts-expect-error - Invalid value.
+      expect(unwrap(status('invalid', 'strict'))).toEqual(invalidEnumValue);
+    });
+  });
+
   describe('Enum functionality', () => {
     it('should work with string enums', () => {
       const status = helpers.createStringEnumFromTypeScriptEnum();
@@ -235,7 +264,7 @@ describe('enumerate', () => {
       // @ts-expect-error - Invalid value.
       const result = status('invalid');
       expect(isErr(result)).toBe(true);
-      expect(unwrap(result)).toBe('INVALID_ENUM_VALUE');
+      expect(unwrap(result)).toEqual([invalidEnumValue]);
     });
 
     it('should handle empty enums', () => {
@@ -261,10 +290,9 @@ describe('enumerate', () => {
 
       // Typechecking.
       expectTypeOf(status).toBeFunction();
-      expectTypeOf(status).toEqualTypeOf<
-        (
-          value: 'active' | 'inactive' | 'pending',
-        ) => Result<'active' | 'inactive' | 'pending', 'INVALID_ENUM_VALUE'>
+      expectTypeOf(status).toEqualTypeOf<EnumValue<'active' | 'inactive' | 'pending'>>();
+      expectTypeOf(status('active')).toEqualTypeOf<
+        Result<'active' | 'inactive' | 'pending', InvalidEnumValue[]>
       >();
     });
 
@@ -273,9 +301,7 @@ describe('enumerate', () => {
 
       // Typechecking.
       expectTypeOf(numbers).toBeFunction();
-      expectTypeOf(numbers).toEqualTypeOf<
-        (value: 1 | 2 | 3 | 4 | 5) => Result<1 | 2 | 3 | 4 | 5, 'INVALID_ENUM_VALUE'>
-      >();
+      expectTypeOf(numbers).toEqualTypeOf<EnumValue<1 | 2 | 3 | 4 | 5>>();
     });
 
     it('should provide correct type inference for TypeScript string enums', () => {
@@ -283,9 +309,8 @@ describe('enumerate', () => {
 
       // Typechecking.
       expectTypeOf(status).toBeFunction();
-      expectTypeOf(status).branded.toEqualTypeOf<
-        (value: Status) => Result<Status, 'INVALID_ENUM_VALUE'>
-      >();
+      expectTypeOf(status).branded.toEqualTypeOf<EnumValue<Status>>();
+      expectTypeOf(status.values).branded.toEqualTypeOf<readonly Status[]>();
     });
 
     it('should provide correct type inference for TypeScript numeric enums', () => {
@@ -293,20 +318,15 @@ describe('enumerate', () => {
 
       // Typechecking.
       expectTypeOf(priority).toBeFunction();
-      expectTypeOf(priority).branded.toEqualTypeOf<
-        (value: Priority) => Result<Priority, 'INVALID_ENUM_VALUE'>
-      >();
+      expectTypeOf(priority).branded.toEqualTypeOf<EnumValue<Priority>>();
     });
 
-    it('should preserve type inference when used with value function', () => {
-      const status = enumerate(['active', 'inactive', 'unverified']);
-      const statusValue = value(status);
+    it('should preserve type inference when used as a schema field', () => {
+      const UserSchema = schema({ status: enumerate(['active', 'inactive', 'unverified']) });
 
-      // Typechecking.
-      expectTypeOf(statusValue).toBeFunction();
-      expectTypeOf(statusValue).branded.toEqualTypeOf<
-        Value<'active' | 'inactive' | 'unverified', 'INVALID_ENUM_VALUE'>
-      >();
+      expectTypeOf(UserSchema.Type).toEqualTypeOf<{
+        status: 'active' | 'inactive' | 'unverified';
+      }>();
     });
   });
 });
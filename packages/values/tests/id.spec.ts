@@ -1,9 +1,17 @@
 import { describe, expect, expectTypeOf, it } from 'vitest';
 
-import { type Result, unwrap } from '@mixor/core';
+import { type Result, type Value, schema, unwrap } from '@mixor/core';
 
 import * as Id from '../src/id';
 
+// Expected error of the id values.
+const invalidId = (type: string) => ({
+  code: 'InvalidIdError',
+  context: 'IdValue',
+  origin: type,
+  message: `Value is not a valid ${type}`,
+});
+
 // Test data for different ID types.
 const validGUID = '550e8400-e29b-41d4-a716-446655440000';
 const invalidGUID = 'invalid-guid';
@@ -37,10 +45,8 @@ describe('id', () => {
 
       // Typechecking.
       expectTypeOf(Id.id).toBeFunction();
-      expectTypeOf(uuidValidator).toEqualTypeOf<
-        (value: string) => Result<string, 'INVALID_UUIDV4'>
-      >();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_UUIDV4'>>();
+      expectTypeOf(uuidValidator).toEqualTypeOf<Value<string, Id.InvalidId<'uuidv4'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'uuidv4'>[]>>();
     });
 
     it('should run example id-022: Create a validator for GUID and use it', () => {
@@ -50,23 +56,19 @@ describe('id', () => {
 
       // Typechecking.
       expectTypeOf(Id.id).toBeFunction();
-      expectTypeOf(guidValidator).toEqualTypeOf<
-        (value: string) => Result<string, 'INVALID_GUID'>
-      >();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_GUID'>>();
+      expectTypeOf(guidValidator).toEqualTypeOf<Value<string, Id.InvalidId<'guid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'guid'>[]>>();
     });
 
     it('should run example id-023: Validate an invalid value with a UUID v4 validator', () => {
       const customValidator = Id.id('uuidv4');
       const result = customValidator('invalid-uuid');
-      expect(unwrap(result)).toBe('INVALID_UUIDV4');
+      expect(unwrap(result)).toEqual([invalidId('uuidv4')]);
 
       // Typechecking.
       expectTypeOf(Id.id).toBeFunction();
-      expectTypeOf(customValidator).toEqualTypeOf<
-        (value: string) => Result<string, 'INVALID_UUIDV4'>
-      >();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_UUIDV4'>>();
+      expectTypeOf(customValidator).toEqualTypeOf<Value<string, Id.InvalidId<'uuidv4'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'uuidv4'>[]>>();
     });
 
     it('should run example id-024: Throw error if the type is not supported', () => {
@@ -76,7 +78,7 @@ describe('id', () => {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
       } catch (e: any) {
         expect(e).toBeInstanceOf(Id.IdError);
-        expect(e.key).toBe('ID_ERROR:INVALID_ID_TYPE');
+        expect(e.code).toBe('Id:InvalidIdType');
         expect(e.message).toContain("ID type 'notype' is not supported");
       }
     });
@@ -88,17 +90,17 @@ describe('id', () => {
       expect(unwrap(result)).toBe(validGUID);
 
       // Typechecking.
-      expectTypeOf(Id.guid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_GUID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_GUID'>>();
+      expectTypeOf(Id.guid).toEqualTypeOf<Value<string, Id.InvalidId<'guid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'guid'>[]>>();
     });
 
     it('should run example id-002: Invalid GUID validation', () => {
       const result = Id.guid(invalidGUID);
-      expect(unwrap(result)).toBe('INVALID_GUID');
+      expect(unwrap(result)).toEqual([invalidId('guid')]);
 
       // Typechecking.
-      expectTypeOf(Id.guid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_GUID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_GUID'>>();
+      expectTypeOf(Id.guid).toEqualTypeOf<Value<string, Id.InvalidId<'guid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'guid'>[]>>();
     });
   });
 
@@ -108,17 +110,17 @@ describe('id', () => {
       expect(unwrap(result)).toBe(validCUID);
 
       // Typechecking.
-      expectTypeOf(Id.cuid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_CUID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_CUID'>>();
+      expectTypeOf(Id.cuid).toEqualTypeOf<Value<string, Id.InvalidId<'cuid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'cuid'>[]>>();
     });
 
     it('should run example id-004: Invalid CUID validation', () => {
       const result = Id.cuid(invalidCUID);
-      expect(unwrap(result)).toBe('INVALID_CUID');
+      expect(unwrap(result)).toEqual([invalidId('cuid')]);
 
       // Typechecking.
-      expectTypeOf(Id.cuid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_CUID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_CUID'>>();
+      expectTypeOf(Id.cuid).toEqualTypeOf<Value<string, Id.InvalidId<'cuid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'cuid'>[]>>();
     });
   });
 
@@ -128,17 +130,17 @@ describe('id', () => {
       expect(unwrap(result)).toBe(validCUID2);
 
       // Typechecking.
-      expectTypeOf(Id.cuid2).toEqualTypeOf<(value: string) => Result<string, 'INVALID_CUID2'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_CUID2'>>();
+      expectTypeOf(Id.cuid2).toEqualTypeOf<Value<string, Id.InvalidId<'cuid2'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'cuid2'>[]>>();
     });
 
     it('should run example id-006: Invalid CUID2 validation', () => {
       const result = Id.cuid2(invalidCUID2);
-      expect(unwrap(result)).toBe('INVALID_CUID2');
+      expect(unwrap(result)).toEqual([invalidId('cuid2')]);
 
       // Typechecking.
-      expectTypeOf(Id.cuid2).toEqualTypeOf<(value: string) => Result<string, 'INVALID_CUID2'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_CUID2'>>();
+      expectTypeOf(Id.cuid2).toEqualTypeOf<Value<string, Id.InvalidId<'cuid2'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'cuid2'>[]>>();
     });
   });
 
@@ -148,17 +150,17 @@ describe('id', () => {
       expect(unwrap(result)).toBe(validULID);
 
       // Typechecking.
-      expectTypeOf(Id.ulid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_ULID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_ULID'>>();
+      expectTypeOf(Id.ulid).toEqualTypeOf<Value<string, Id.InvalidId<'ulid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'ulid'>[]>>();
     });
 
     it('should run example id-008: Invalid ULID validation', () => {
       const result = Id.ulid(invalidULID);
-      expect(unwrap(result)).toBe('INVALID_ULID');
+      expect(unwrap(result)).toEqual([invalidId('ulid')]);
 
       // Typechecking.
-      expectTypeOf(Id.ulid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_ULID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_ULID'>>();
+      expectTypeOf(Id.ulid).toEqualTypeOf<Value<string, Id.InvalidId<'ulid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'ulid'>[]>>();
     });
   });
 
@@ -168,17 +170,17 @@ describe('id', () => {
       expect(unwrap(result)).toBe(validXID);
 
       // Typechecking.
-      expectTypeOf(Id.xid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_XID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_XID'>>();
+      expectTypeOf(Id.xid).toEqualTypeOf<Value<string, Id.InvalidId<'xid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'xid'>[]>>();
     });
 
     it('should run example id-010: Invalid XID validation', () => {
       const result = Id.xid(invalidXID);
-      expect(unwrap(result)).toBe('INVALID_XID');
+      expect(unwrap(result)).toEqual([invalidId('xid')]);
 
       // Typechecking.
-      expectTypeOf(Id.xid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_XID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_XID'>>();
+      expectTypeOf(Id.xid).toEqualTypeOf<Value<string, Id.InvalidId<'xid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'xid'>[]>>();
     });
   });
 
@@ -188,17 +190,17 @@ describe('id', () => {
       expect(unwrap(result)).toBe(validKSUID);
 
       // Typechecking.
-      expectTypeOf(Id.ksuid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_KSUID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_KSUID'>>();
+      expectTypeOf(Id.ksuid).toEqualTypeOf<Value<string, Id.InvalidId<'ksuid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'ksuid'>[]>>();
     });
 
     it('should run example id-012: Invalid KSUID validation', () => {
       const result = Id.ksuid(invalidKSUID);
-      expect(unwrap(result)).toBe('INVALID_KSUID');
+      expect(unwrap(result)).toEqual([invalidId('ksuid')]);
 
       // Typechecking.
-      expectTypeOf(Id.ksuid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_KSUID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_KSUID'>>();
+      expectTypeOf(Id.ksuid).toEqualTypeOf<Value<string, Id.InvalidId<'ksuid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'ksuid'>[]>>();
     });
   });
 
@@ -208,17 +210,17 @@ describe('id', () => {
       expect(unwrap(result)).toBe(validNanoID);
 
       // Typechecking.
-      expectTypeOf(Id.nanoid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_NANOID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_NANOID'>>();
+      expectTypeOf(Id.nanoid).toEqualTypeOf<Value<string, Id.InvalidId<'nanoid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'nanoid'>[]>>();
     });
 
     it('should run example id-014: Invalid Nano ID validation', () => {
       const result = Id.nanoid(invalidNanoID);
-      expect(unwrap(result)).toBe('INVALID_NANOID');
+      expect(unwrap(result)).toEqual([invalidId('nanoid')]);
 
       // Typechecking.
-      expectTypeOf(Id.nanoid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_NANOID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_NANOID'>>();
+      expectTypeOf(Id.nanoid).toEqualTypeOf<Value<string, Id.InvalidId<'nanoid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'nanoid'>[]>>();
     });
   });
 
@@ -228,17 +230,17 @@ describe('id', () => {
       expect(unwrap(result)).toBe(validUUIDv4);
 
       // Typechecking.
-      expectTypeOf(Id.uuidv4).toEqualTypeOf<(value: string) => Result<string, 'INVALID_UUIDV4'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_UUIDV4'>>();
+      expectTypeOf(Id.uuidv4).toEqualTypeOf<Value<string, Id.InvalidId<'uuidv4'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'uuidv4'>[]>>();
     });
 
     it('should run example id-016: Invalid UUID v4 validation', () => {
       const result = Id.uuidv4(invalidUUIDv4);
-      expect(unwrap(result)).toBe('INVALID_UUIDV4');
+      expect(unwrap(result)).toEqual([invalidId('uuidv4')]);
 
       // Typechecking.
-      expectTypeOf(Id.uuidv4).toEqualTypeOf<(value: string) => Result<string, 'INVALID_UUIDV4'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_UUIDV4'>>();
+      expectTypeOf(Id.uuidv4).toEqualTypeOf<Value<string, Id.InvalidId<'uuidv4'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'uuidv4'>[]>>();
     });
   });
 
@@ -248,17 +250,17 @@ describe('id', () => {
       expect(unwrap(result)).toBe(validUUIDv6);
 
       // Typechecking.
-      expectTypeOf(Id.uuidv6).toEqualTypeOf<(value: string) => Result<string, 'INVALID_UUIDV6'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_UUIDV6'>>();
+      expectTypeOf(Id.uuidv6).toEqualTypeOf<Value<string, Id.InvalidId<'uuidv6'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'uuidv6'>[]>>();
     });
 
     it('should run example id-018: Invalid UUID v6 validation', () => {
       const result = Id.uuidv6(invalidUUIDv6);
-      expect(unwrap(result)).toBe('INVALID_UUIDV6');
+      expect(unwrap(result)).toEqual([invalidId('uuidv6')]);
 
       // Typechecking.
-      expectTypeOf(Id.uuidv6).toEqualTypeOf<(value: string) => Result<string, 'INVALID_UUIDV6'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_UUIDV6'>>();
+      expectTypeOf(Id.uuidv6).toEqualTypeOf<Value<string, Id.InvalidId<'uuidv6'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'uuidv6'>[]>>();
     });
   });
 
@@ -268,17 +270,17 @@ describe('id', () => {
       expect(unwrap(result)).toBe(validUUIDv7);
 
       // Typechecking.
-      expectTypeOf(Id.uuidv7).toEqualTypeOf<(value: string) => Result<string, 'INVALID_UUIDV7'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_UUIDV7'>>();
+      expectTypeOf(Id.uuidv7).toEqualTypeOf<Value<string, Id.InvalidId<'uuidv7'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'uuidv7'>[]>>();
     });
 
     it('should run example id-020: Invalid UUID v7 validation', () => {
       const result = Id.uuidv7(invalidUUIDv7);
-      expect(unwrap(result)).toBe('INVALID_UUIDV7');
+      expect(unwrap(result)).toEqual([invalidId('uuidv7')]);
 
       // Typechecking.
-      expectTypeOf(Id.uuidv7).toEqualTypeOf<(value: string) => Result<string, 'INVALID_UUIDV7'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_UUIDV7'>>();
+      expectTypeOf(Id.uuidv7).toEqualTypeOf<Value<string, Id.InvalidId<'uuidv7'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'uuidv7'>[]>>();
     });
   });
 
@@ -288,8 +290,8 @@ describe('id', () => {
       expect(unwrap(result)).toBe(validUUID);
 
       // Typechecking.
-      expectTypeOf(Id.uuid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_UUID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_UUID'>>();
+      expectTypeOf(Id.uuid).toEqualTypeOf<Value<string, Id.InvalidId<'uuid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'uuid'>[]>>();
     });
 
     it('should run example id-026: UUID v6 validation', () => {
@@ -297,8 +299,8 @@ describe('id', () => {
       expect(unwrap(result)).toBe(validUUIDv6);
 
       // Typechecking.
-      expectTypeOf(Id.uuid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_UUID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_UUID'>>();
+      expectTypeOf(Id.uuid).toEqualTypeOf<Value<string, Id.InvalidId<'uuid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'uuid'>[]>>();
     });
 
     it('should run example id-027: UUID v7 validation', () => {
@@ -306,17 +308,52 @@ describe('id', () => {
       expect(unwrap(result)).toBe(validUUIDv7);
 
       // Typechecking.
-      expectTypeOf(Id.uuid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_UUID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_UUID'>>();
+      expectTypeOf(Id.uuid).toEqualTypeOf<Value<string, Id.InvalidId<'uuid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'uuid'>[]>>();
     });
 
     it('should run example id-028: Invalid UUID validation', () => {
       const result = Id.uuid(invalidUUID);
-      expect(unwrap(result)).toBe('INVALID_UUID');
+      expect(unwrap(result)).toEqual([invalidId('uuid')]);
 
       // Typechecking.
-      expectTypeOf(Id.uuid).toEqualTypeOf<(value: string) => Result<string, 'INVALID_UUID'>>();
-      expectTypeOf(result).toEqualTypeOf<Result<string, 'INVALID_UUID'>>();
+      expectTypeOf(Id.uuid).toEqualTypeOf<Value<string, Id.InvalidId<'uuid'>>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, Id.InvalidId<'uuid'>[]>>();
+    });
+  });
+
+  describe('isId rule and component metadata', () => {
+    it('should validate ids with the isId rule', () => {
+      expect(unwrap(Id.isId('ulid')(validULID))).toBe(validULID);
+      expect(unwrap(Id.isId('ulid')(invalidUUID))).toEqual(invalidId('ulid'));
+      expect(() => Id.isId('notype' as Id.IdType)).toThrow(Id.IdError);
+      expect(() => Id.isId('toString' as Id.IdType)).toThrow(Id.IdError);
+    });
+
+    it('should describe the id values in their metadata', () => {
+      expect(Id.uuidv4.info().subType).toBe('id');
+      expect(Id.uuidv4.info().meta).toEqual({
+        context: 'IdValue',
+        name: 'uuidv4',
+        description: 'An identifier of type uuidv4',
+        example: validUUIDv4,
+      });
+    });
+
+    it('should be usable as schema fields', () => {
+      const UserSchema = schema({ id: Id.uuid, referral: Id.nanoid });
+
+      expect(unwrap(UserSchema({ id: validUUID, referral: validNanoID }))).toEqual({
+        id: validUUID,
+        referral: validNanoID,
+      });
+      expect(unwrap(UserSchema({ id: invalidUUID, referral: validNanoID }))).toEqual({
+        id: [invalidId('uuid')],
+      });
+      expect(UserSchema.tree().children.map((child) => child.info.meta?.name)).toEqual([
+        'uuid',
+        'nanoid',
+      ]);
     });
   });
 });
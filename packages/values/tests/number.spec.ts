@@ -0,0 +1,180 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import { type Result, type ResultError, isOk, parse, schema, unwrap } from '@mixor/core';
+
+import {
+  coerceNumber,
+  finite,
+  integer,
+  isInteger,
+  isNumber,
+  max,
+  min,
+  multipleOf,
+  negative,
+  number,
+  positive,
+  precision,
+  safeInteger,
+} from '../src/number';
+
+describe('Number validation functions', () => {
+  describe('isNumber', () => {
+    it('should accept numbers and reject the other values', () => {
+      expect(unwrap(isNumber()(42))).toBe(42);
+      expect(unwrap(isNumber()(Infinity))).toBe(Infinity);
+      expect(unwrap(isNumber()('42'))).toEqual({
+        code: 'NotNumberError',
+        context: 'NumberValue',
+        origin: 'isNumber',
+        message: 'Value is not a number',
+      });
+      expect(isOk(isNumber()(Number.NaN))).toBe(false);
+    });
+  });
+
+  describe('coerceNumber', () => {
+    it('should coerce numbers and numeric strings', () => {
+      expect(unwrap(coerceNumber()(42))).toBe(42);
+      expect(unwrap(coerceNumber()(' 3.14 '))).toBe(3.14);
+      expect(unwrap(coerceNumber()('-1e3'))).toBe(-1000);
+    });
+
+    it('should not coerce blank strings, non-numeric strings and other values', () => {
+      for (const input of ['', '  ', 'abc', null, undefined, true, {}]) {
+        expect(unwrap(coerceNumber()(input))).toEqual(
+          expect.objectContaining({ code: 'NotCoercibleError', origin: 'coerceNumber' }),
+        );
+      }
+    });
+
+    it('should parse the inputs of other kinds when the value coerces them', () => {
+      expect(unwrap(parse(number(coerceNumber()), '42'))).toBe(42);
+      expect(unwrap(parse(integer(coerceNumber(), min(1)), '42'))).toBe(42);
+      expect(unwrap(parse(schema({ page: integer(coerceNumber()) }), { page: '2' }))).toEqual({
+        page: 2,
+      });
+      expect(unwrap(parse(integer(coerceNumber()), 'abc', 'strict'))).toEqual(
+        expect.objectContaining({ code: 'NotCoercibleError', origin: 'coerceNumber' }),
+      );
+    });
+  });
+
+  describe('range rules', () => {
+    it('should validate the inclusive minimum and maximum', () => {
+      expect(unwrap(min(1)(1))).toBe(1);
+      expect(unwrap(min(1)(0))).toEqual(expect.objectContaining({ code: 'TooSmallError' }));
+      expect(unwrap(max(10)(10))).toBe(10);
+      expect(unwrap(max(10)(11))).toEqual(expect.objectContaining({ code: 'TooBigError' }));
+    });
+
+    it('should validate positive and negative numbers', () => {
+      expect(unwrap(positive()(1))).toBe(1);
+      expect(unwrap(positive()(0))).toEqual(expect.objectContaining({ code: 'NotPositiveError' }));
+      expect(unwrap(negative()(-1))).toBe(-1);
+      expect(unwrap(negative()(0))).toEqual(expect.objectContaining({ code: 'NotNegativeError' }));
+    });
+  });
+
+  describe('multipleOf', () => {
+    it('should validate integer and decimal steps', () => {
+      expect(unwrap(multipleOf(5)(15))).toBe(15);
+      expect(unwrap(multipleOf(5)(12))).toEqual(
+        expect.objectContaining({ code: 'NotMultipleError', origin: 'multipleOf' }),
+      );
+      expect(unwrap(multipleOf(0.1)(0.3))).toBe(0.3);
+      expect(unwrap(multipleOf(0.01)(19.99))).toBe(19.99);
+      expect(isOk(multipleOf(0.1)(0.35))).toBe(false);
+    });
+  });
+
+  describe('precision', () => {
+    it('should validate the maximum number of decimal places', () => {
+      expect(unwrap(precision(2)(19.99))).toBe(19.99);
+      expect(unwrap(precision(2)(10))).toBe(10);
+      expect(unwrap(precision(2)(19.999))).toEqual(
+        expect.objectContaining({ code: 'TooPreciseError', origin: 'precision' }),
+      );
+      expect(isOk(precision(6)(1e-7))).toBe(false);
+      expect(isOk(precision(0)(1e21))).toBe(true);
+    });
+  });
+
+  describe('finite, isInteger and safeInteger', () => {
+    it('should validate finite numbers', () => {
+      expect(unwrap(finite()(1.5))).toBe(1.5);
+      expect(unwrap(finite()(Infinity))).toEqual(
+        expect.objectContaining({ code: 'NotFiniteError' }),
+      );
+    });
+
+    it('should validate integers and safe integers', () => {
+      expect(unwrap(isInteger()(3))).toBe(3);
+      expect(unwrap(isInteger()(3.5))).toEqual(
+        expect.objectContaining({ code: 'NotIntegerError' }),
+      );
+      expect(unwrap(safeInteger()(Number.MAX_SAFE_INTEGER))).toBe(Number.MAX_SAFE_INTEGER);
+      expect(unwrap(safeInteger()(2 ** 53))).toEqual(
+        expect.objectContaining({ code: 'NotSafeIntegerError' }),
+      );
+    });
+  });
+
+  describe('number and integer values', () => {
+    it('should create number values with the number sub-type', () => {
+      const Price = number(isNumber(), positive(), precision(2));
+
+      expect(unwrap(Price(19.99))).toBe(19.99);
+      expect(unwrap(Price(-1.999))).toEqual([
+        expect.objectContaining({ code: 'NotPositiveError' }),
+        expect.objectContaining({ code: 'TooPreciseError' }),
+      ]);
+      expect(Price.info().subType).toBe('number');
+    });
+
+    it('should check the integers after the given rules', () => {
+      const Quantity = integer(coerceNumber(), min(1));
+
+      expect(unwrap(Quantity('3'))).toBe(3);
+      expect(unwrap(Quantity('2.5'))).toEqual([
+        expect.objectContaining({ code: 'NotIntegerError', context: 'NumberValue' }),
+      ]);
+      expect(unwrap(Quantity('abc', 'strict'))).toEqual(
+        expect.objectContaining({ code: 'NotCoercibleError' }),
+      );
+      expect(Quantity.info().subType).toBe('integer');
+    });
+
+    it('should be usable as schema fields', () => {
+      const Product = schema({ price: number(positive()), stock: integer(min(0)) });
+
+      expect(unwrap(Product({ price: 10, stock: 3 }))).toEqual({ price: 10, stock: 3 });
+      expect(unwrap(Product({ price: 10, stock: 0.5 }))).toEqual({
+        stock: [expect.objectContaining({ code: 'NotIntegerError' })],
+      });
+      expect(Product.tree().children.map((child) => child.info.subType)).toEqual([
+        'number',
+        'integer',
+      ]);
+    });
+  });
+
+  describe('Type safety', () => {
+    it('should provide correct type inference for the rules', () => {
+      expectTypeOf(min(1)(1)).toEqualTypeOf<
+        Result<number, ResultError<'TooSmallError', 'NumberValue', 'min'>>
+      >();
+      expectTypeOf(coerceNumber()('1')).toEqualTypeOf<
+        Result<number, ResultError<'NotCoercibleError', 'NumberValue', 'coerceNumber'>>
+      >();
+    });
+
+    it('should provide correct type inference for number and integer values', () => {
+      const Age = integer(coerceNumber(), min(0));
+
+      expectTypeOf(Age.Type).toEqualTypeOf<number>();
+      expectTypeOf(Age.Output).toEqualTypeOf<number>();
+      expectTypeOf(number(positive()).Type).toEqualTypeOf<number>();
+    });
+  });
+});
@@ -1,194 +1,203 @@
 import { describe, expect, expectTypeOf, it } from 'vitest';
 
-import { type Result, isTraceable, unwrap } from '@mixor/core';
-
-import { coerceString, hasMaxLength, hasMinLength, isNotEmpty, isString } from '../src/string';
+import {
+  type Result,
+  type ResultError,
+  array,
+  isRule,
+  isValue,
+  parse,
+  schema,
+  unwrap,
+} from '@mixor/core';
+
+import { isoDate, isoDatetime, isoTime } from '../src';
+import {
+  coerceString,
+  isString,
+  maxLength,
+  minLength,
+  notEmpty,
+  phoneNumber,
+  string,
+} from '../src/string';
 
 describe('String value', () => {
   describe('isString rule', () => {
     describe('Type safety', () => {
-      it('should be traceable', () => {
-        expect(isTraceable(isString)).toBe(true);
+      it('should be a rule component', () => {
+        expect(isRule(isString())).toBe(true);
       });
 
       it('should provide correct type inference for all public elements', () => {
         expectTypeOf(isString).toBeFunction();
-        expectTypeOf(isString('hello')).toEqualTypeOf<
-          Result<string, { code: 'NOT_STRING'; context: 'isString'; message?: string }>
+        expectTypeOf(isString()('hello')).toEqualTypeOf<
+          Result<string, ResultError<'NotStringError', 'StringValue', 'isString'>>
         >();
       });
     });
 
     describe('Code examples', () => {
       it('should run example is-string-001: Validate string value', () => {
-        const result = isString('hello');
+        const result = isString()('hello');
         expect(unwrap(result)).toBe('hello');
       });
 
-      it('should run example is-string-002: Reject number value', () => {
-        // @ts-expect-error - This is a test case.
-        const result = isString(1.23);
-        expect(unwrap(result)).toEqual({
-          code: 'NOT_STRING',
-          context: 'isString',
-          message: '1.23 is not string',
-        });
-      });
-
-      it('should run example is-string-003: Reject boolean value', () => {
-        // @ts-expect-error - This is a test case.
-        const result = isString(true);
-        expect(unwrap(result)).toEqual({
-          code: 'NOT_STRING',
-          context: 'isString',
-          message: 'true is not string',
-        });
+      it('should run example is-string-002: Reject non-string values', () => {
+        for (const input of [1.23, true, null, undefined, {}, []]) {
+          expect(unwrap(isString()(input))).toEqual({
+            code: 'NotStringError',
+            context: 'StringValue',
+            origin: 'isString',
+            message: 'Value is not a string',
+          });
+        }
       });
+    });
+  });
 
-      it('should run example is-string-004: Reject null value', () => {
-        // @ts-expect-error - This is a test case.
-        const result = isString(null);
-        expect(unwrap(result)).toEqual({
-          code: 'NOT_STRING',
-          context: 'isString',
-          message: 'null is not string',
-        });
+  describe('notEmpty rule', () => {
+    describe('Code examples', () => {
+      it('should run example not-empty-001: Validate non-empty string', () => {
+        expect(unwrap(notEmpty()('hello'))).toBe('hello');
       });
 
-      it('should run example is-string-005: Reject undefined value', () => {
-        // @ts-expect-error - This is a test case.
-        const result = isString(undefined);
-        expect(unwrap(result)).toEqual({
-          code: 'NOT_STRING',
-          context: 'isString',
-          message: 'undefined is not string',
+      it('should run example not-empty-002: Reject empty string', () => {
+        expect(unwrap(notEmpty()(''))).toEqual({
+          code: 'IsEmptyError',
+          context: 'StringValue',
+          origin: 'notEmpty',
+          message: 'String should not be empty',
         });
       });
+    });
+  });
 
-      it('should run example is-string-006: Reject object value', () => {
-        // @ts-expect-error - This is a test case.
-        const result = isString({});
-        expect(unwrap(result)).toEqual({
-          code: 'NOT_STRING',
-          context: 'isString',
-          message: '[object Object] is not string',
+  describe('minLength and maxLength rules', () => {
+    describe('Code examples', () => {
+      it('should run example min-length-001: Validate string with minimum length', () => {
+        expect(unwrap(minLength(10)('hello world'))).toBe('hello world');
+        expect(unwrap(minLength(10)('short'))).toEqual({
+          code: 'TooShortError',
+          context: 'StringValue',
+          origin: 'minLength',
+          message: 'String length is less than minimum',
         });
       });
 
-      it('should run example is-string-007: Reject array value', () => {
-        // @ts-expect-error - This is a test case.
-        const result = isString([]);
-        expect(unwrap(result)).toEqual({
-          code: 'NOT_STRING',
-          context: 'isString',
-          message: ' is not string',
+      it('should run example max-length-001: Validate string with maximum length', () => {
+        expect(unwrap(maxLength(10)('short'))).toBe('short');
+        expect(unwrap(maxLength(10)('too long string'))).toEqual({
+          code: 'TooLongError',
+          context: 'StringValue',
+          origin: 'maxLength',
+          message: 'String length exceeds maximum',
         });
       });
     });
+  });
 
-    describe('isNotEmpty rule', () => {
-      describe('Type safety', () => {
-        it('should provide correct type inference for all public elements', () => {
-          expectTypeOf(isNotEmpty).toBeFunction();
-          expect(isTraceable(isNotEmpty)).toBe(true);
-        });
-      });
-
-      describe('Code examples', () => {
-        it('should run example is-not-empty-001: Validate non-empty string', () => {
-          const result = isNotEmpty('hello');
-          expect(unwrap(result)).toBe('hello');
-        });
-
-        it('should run example is-not-empty-002: Reject empty string', () => {
-          const result = isNotEmpty('');
-          expect(unwrap(result)).toEqual({
-            code: 'IS_EMPTY',
-            context: 'isNotEmpty',
-            message: 'String should not be empty',
-          });
+  describe('phoneNumber rule', () => {
+    describe('Code examples', () => {
+      it('should run example phone-number-001: Validate E.164 phone numbers', () => {
+        expect(unwrap(phoneNumber()('+14155552671'))).toBe('+14155552671');
+        expect(unwrap(phoneNumber()('415 555 2671'))).toEqual({
+          code: 'InvalidPhoneNumberError',
+          context: 'StringValue',
+          origin: 'phoneNumber',
+          message: 'Value is not a valid phone number',
         });
       });
     });
+  });
 
-    describe('hasMinLength rule', () => {
-      describe('Type safety', () => {
-        it('should provide correct type inference for all public elements', () => {
-          expectTypeOf(hasMinLength).toBeFunction();
-          expectTypeOf(hasMinLength(5)).toBeFunction();
-          expect(isTraceable(hasMinLength(5))).toBe(true);
+  describe('ISO date and time rules', () => {
+    describe('Code examples', () => {
+      it('should run example iso-date-001: Validate ISO dates', () => {
+        expect(unwrap(isoDate()('2021-01-01'))).toBe('2021-01-01');
+        expect(unwrap(isoDate()('01/01/2021'))).toEqual({
+          code: 'InvalidDateError',
+          context: 'StringValue',
+          origin: 'isoDate',
+          message: 'Value is not a valid ISO date',
         });
       });
 
-      describe('Code examples', () => {
-        it('should run example has-min-length-001: Validate string with minimum length', () => {
-          const result = hasMinLength(10)('hello world');
-          expect(unwrap(result)).toBe('hello world');
-        });
-
-        it('should run example has-min-length-002: Reject string with insufficient length', () => {
-          const result = hasMinLength(10)('short');
-          expect(unwrap(result)).toEqual({
-            code: 'TOO_SHORT',
-            context: 'hasMinLength',
-            message: 'String length 5 is less than minimum 10',
-          });
-        });
+      it('should run example iso-time-001: Validate ISO times', () => {
+        expect(unwrap(isoTime()('12:34:56'))).toBe('12:34:56');
+        expect(unwrap(isoTime()('12:34'))).toEqual(
+          expect.objectContaining({ code: 'InvalidTimeError', origin: 'isoTime' }),
+        );
       });
-    });
 
-    describe('hasMaxLength rule', () => {
-      describe('Type safety', () => {
-        it('should provide correct type inference for all public elements', () => {
-          expectTypeOf(hasMaxLength).toBeFunction();
-          expectTypeOf(hasMaxLength(10)).toBeFunction();
-          expect(isTraceable(hasMaxLength(10))).toBe(true);
-        });
+      it('should run example iso-datetime-001: Validate ISO dates with time', () => {
+        expect(unwrap(isoDatetime()('2021-01-01T12:34:56.789Z'))).toBe('2021-01-01T12:34:56.789Z');
+        expect(unwrap(isoDatetime()('2021-01-01T12:34:56+02:00'))).toBe(
+          '2021-01-01T12:34:56+02:00',
+        );
+        expect(unwrap(isoDatetime()('2021-01-01 12:34:56'))).toEqual(
+          expect.objectContaining({ code: 'InvalidDateTimeError', origin: 'isoDatetime' }),
+        );
       });
 
-      describe('Code examples', () => {
-        it('should run example has-max-length-001: Validate string with maximum length', () => {
-          const result = hasMaxLength(10)('short');
-          expect(unwrap(result)).toBe('short');
-        });
+      it('should be exported from the package entry point as string value rules', () => {
+        const Birthday = string(isoDate());
 
-        it('should run example has-max-length-002: Reject string exceeding maximum length', () => {
-          const result = hasMaxLength(10)('too long string');
-          expect(unwrap(result)).toEqual({
-            code: 'TOO_LONG',
-            context: 'hasMaxLength',
-            message: 'String length 15 exceeds maximum 10',
-          });
-        });
+        expect(isRule(isoDate())).toBe(true);
+        expect(unwrap(Birthday('2021-01-01'))).toBe('2021-01-01');
+        expect(unwrap(Birthday('2021', 'strict'))).toEqual(
+          expect.objectContaining({ code: 'InvalidDateError' }),
+        );
       });
     });
   });
 
   describe('coerceString rule', () => {
     describe('Type safety', () => {
-      it('should be traceable', () => {
-        expect(isTraceable(coerceString)).toBe(true);
-      });
-
       it('should provide correct type inference for all public elements', () => {
         expectTypeOf(coerceString).toBeFunction();
-        expectTypeOf(coerceString('hello')).toEqualTypeOf<Result<string, never>>();
-        // @ts-expect-error - This is a test case.
-        expectTypeOf(coerceString(123)).toEqualTypeOf<Result<string, never>>();
+        expectTypeOf(coerceString()(123)).toEqualTypeOf<Result<string, never>>();
       });
     });
 
     describe('Code examples', () => {
       it('should run example coerce-string-001: Coerce string value', () => {
-        const result = coerceString('hello');
-        expect(unwrap(result)).toBe('hello');
+        expect(unwrap(coerceString()('hello'))).toBe('hello');
       });
 
       it('should run example coerce-string-002: Coerce number to string', () => {
-        // @ts-expect-error - This is a test case.
-        const result = coerceString(123);
-        expect(unwrap(result)).toBe('123');
+        expect(unwrap(coerceString()(123))).toBe('123');
+      });
+    });
+  });
+
+  describe('string value', () => {
+    it('should create string values usable as schema fields', () => {
+      const Name = string(notEmpty(), maxLength(5));
+      const UserSchema = schema({ name: Name });
+
+      expect(isValue(Name)).toBe(true);
+      expect(Name.info().subType).toBe('string');
+      expect(unwrap(UserSchema({ name: 'John' }))).toEqual({ name: 'John' });
+      expect(unwrap(UserSchema({ name: '' }))).toEqual({
+        name: [expect.objectContaining({ code: 'IsEmptyError' })],
       });
+      expect(UserSchema.tree().children[0].children).toHaveLength(2);
+    });
+
+    it('should be parsed as a string without a metadata example', () => {
+      expect(unwrap(parse(schema({ name: string(notEmpty()) }), { name: 5 }, 'strict'))).toEqual(
+        expect.objectContaining({
+          code: 'InvalidTypeError',
+          details: { path: ['name'], expected: 'string', received: 'number' },
+        }),
+      );
+      expect(unwrap(parse(array(string(notEmpty())), ['John', 1], 'strict'))).toEqual(
+        expect.objectContaining({
+          code: 'InvalidTypeError',
+          details: { path: ['1'], expected: 'string', received: 'number' },
+        }),
+      );
     });
   });
 });
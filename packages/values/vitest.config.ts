@@ -2,9 +2,13 @@ import { defineVitestConfig, project } from '@nuxo/vitest';
 
 export default defineVitestConfig({
   projects: [
+    project('bigint'),
+    project('boolean'),
+    project('date'),
     project('email'),
     project('enumerate'),
     project('id'),
+    project('number'),
     project('string'),
   ],
 });